@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IConfidentialToken } from "./IConfidentialToken.sol";
+
+contract ConfidentialToken is SepoliaConfig, IConfidentialToken {
+    error NotOwner();
+    error InvalidReceiver();
+    error NotOperator();
+    error UnauthorizedHandle();
+    error SupplyOverflow();
+
+    event OperatorSet(address indexed holder, address indexed operator, bool approved);
+    event ConfidentialTransfer(address indexed from, address indexed to, bytes32 transferred);
+    event Minted(address indexed to, uint64 amount);
+
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 9;
+    uint64 public totalSupply;
+
+    address public owner;
+    mapping(address => euint64) private balances;
+    mapping(address => mapping(address => bool)) public isOperator;
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor(string memory _name, string memory _symbol) {
+        name = _name;
+        symbol = _symbol;
+        owner = msg.sender;
+    }
+
+    // Supply is public, balances are not
+    function mint(address _to, uint64 _amount) external onlyOwner {
+        if (_to == address(0)) revert InvalidReceiver();
+        if (uint256(totalSupply) + _amount > type(uint64).max) revert SupplyOverflow();
+        totalSupply += _amount;
+
+        euint64 balance = FHE.add(balances[_to], _amount);
+        balances[_to] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, _to);
+
+        emit Minted(_to, _amount);
+    }
+
+    function confidentialBalanceOf(address _account) external view returns (euint64) {
+        return balances[_account];
+    }
+
+    function setOperator(address _operator, bool _approved) external {
+        isOperator[msg.sender][_operator] = _approved;
+        emit OperatorSet(msg.sender, _operator, _approved);
+    }
+
+    function confidentialTransfer(
+        address _to,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof
+    ) external returns (euint64) {
+        return _transfer(msg.sender, _to, FHE.fromExternal(_encryptedAmount, _inputProof));
+    }
+
+    function confidentialTransferFrom(address _from, address _to, euint64 _amount) external returns (euint64) {
+        if (!isOperator[_from][msg.sender]) revert NotOperator();
+        if (!FHE.isSenderAllowed(_amount)) revert UnauthorizedHandle();
+        return _transfer(_from, _to, _amount);
+    }
+
+    // Transfers nothing instead of reverting when the balance is too low, so the outcome stays private
+    function _transfer(address _from, address _to, euint64 _amount) internal returns (euint64 transferred) {
+        if (_to == address(0)) revert InvalidReceiver();
+
+        ebool sufficient = FHE.le(_amount, balances[_from]);
+        transferred = FHE.select(sufficient, _amount, FHE.asEuint64(0));
+
+        euint64 fromBalance = FHE.sub(balances[_from], transferred);
+        euint64 toBalance = FHE.add(balances[_to], transferred);
+        balances[_from] = fromBalance;
+        balances[_to] = toBalance;
+
+        FHE.allowThis(fromBalance);
+        FHE.allow(fromBalance, _from);
+        FHE.allowThis(toBalance);
+        FHE.allow(toBalance, _to);
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, _from);
+        FHE.allow(transferred, _to);
+        FHE.allow(transferred, msg.sender);
+
+        emit ConfidentialTransfer(_from, _to, FHE.toBytes32(transferred));
+    }
+}
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { euint64 } from "@fhevm/solidity/lib/FHE.sol";
+
+interface IConfidentialToken {
+    // Moves up to `amount` from `from` to `to` and returns the amount actually transferred,
+    // which is zero when the balance is insufficient. Caller must be an approved operator.
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred);
+}
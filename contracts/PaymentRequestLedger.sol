@@ -0,0 +1,733 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint32, euint64, euint256, externalEuint64, externalEuint256 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IConfidentialToken } from "./IConfidentialToken.sol";
+
+contract PaymentRequestLedger is SepoliaConfig {
+    error RequestNotFound();
+    error InvalidState();
+    error InvalidPayer();
+    error InvalidDueDate();
+    error InvalidExpiry();
+    error NotPayer();
+    error NotRequester();
+    error NotExpired();
+    error RequestExpired();
+    error SeriesNotFound();
+    error InvalidSchedule();
+    error SeriesInactive();
+    error NothingDue();
+    error BacklogNotIssued();
+    error SplitNotFound();
+    error InvalidShares();
+    error InvalidLineItems();
+    error InvalidPaymentValue();
+    error ReplayDetected();
+    error DecryptionFailed();
+    error NothingToWithdraw();
+    error TransferFailed();
+
+    enum Status {
+        Pending,
+        Settling, // a payment awaits the oracle
+        PartiallyPaid,
+        Paid,
+        Cancelled,
+        Rejected,
+        Expired
+    }
+
+    struct PaymentRequest {
+        address requester;
+        address payer;
+        address token; // address(0) settles in native ETH
+        Status status;
+        uint64 createdAt;
+        uint64 updatedAt;
+        uint64 dueDate; // 0 for no due date; overdue requests can still be paid
+        uint64 expiresAt; // 0 for never; expired requests can no longer be paid
+        euint64 amount; // in gwei for ETH, base units for tokens
+        euint64 paid; // running total of accepted payments, same unit as `amount`
+        euint256 noteKey; // AES key for `note`, sealed client-side
+        bytes note;
+        uint256 seriesId; // 0 unless issued by a recurring series
+        uint256 splitId; // 0 unless this is one payer's share of a split bill
+    }
+
+    // A bill split between several payers; each share is its own PaymentRequest addressed to one payer
+    struct Split {
+        address requester;
+        address token;
+        uint256[] requestIds; // one share request per payer, in payer order
+        uint32 settledShares;
+        euint32 paidShares; // encrypted count of fully paid shares, visible to the requester
+    }
+
+    // An invoice line. Its description is sealed with the request's note key, like the note; the quantity
+    // and unit price go through FHE so the contract can total them
+    struct LineItem {
+        bytes details;
+        euint64 quantity;
+        euint64 unitPrice;
+    }
+
+    // A recurring request. Occurrence i falls at startAt + i * interval and becomes its own PaymentRequest
+    // with the series' encrypted amount and note once it is issued.
+    struct Series {
+        address requester;
+        address payer;
+        address token;
+        uint64 startAt;
+        uint64 interval;
+        uint64 endAt; // 0 for no end date
+        uint32 maxOccurrences; // 0 for no limit
+        uint32 nextIndex; // next occurrence to issue; occurrences skipped while paused are counted too
+        uint64 dueAfter; // due date offset from each occurrence, 0 for no due date
+        bool paused;
+        uint64 pausedAt; // 0 unless paused
+        bool cancelled;
+        euint64 amount;
+        euint256 noteKey;
+        bytes note;
+    }
+
+    event PaymentRequestCreated(uint256 indexed requestId, address indexed requester, address indexed payer);
+    event PaymentSubmitted(uint256 indexed requestId, address indexed payer, uint256 indexed decryptionId);
+    event PaymentRequestPartiallyPaid(uint256 indexed requestId, address indexed payer);
+    event PaymentRequestPaid(uint256 indexed requestId, address indexed payer);
+    event PaymentFailed(uint256 indexed requestId, address indexed payer);
+    event PaymentRequestCancelled(uint256 indexed requestId, address indexed requester);
+    event PaymentRequestRejected(uint256 indexed requestId, address indexed payer);
+    event PaymentRequestExpired(uint256 indexed requestId);
+    event SeriesCreated(uint256 indexed seriesId, address indexed requester, address indexed payer);
+    event OccurrenceIssued(uint256 indexed seriesId, uint256 indexed requestId, uint32 index);
+    event SeriesPaused(uint256 indexed seriesId);
+    event SeriesResumed(uint256 indexed seriesId, uint32 skipped);
+    event SeriesCancelled(uint256 indexed seriesId);
+    event SplitCreated(uint256 indexed splitId, address indexed requester, uint256 shareCount);
+    event SplitPaid(uint256 indexed splitId);
+    event Withdrawal(address indexed account, uint256 amount);
+
+    struct SettlementContext {
+        uint256 requestId;
+        uint256 escrow;
+        Status previousStatus; // restored when the payment is not accepted
+        bool processed;
+    }
+
+    // A requester's running totals in one settlement currency, decryptable only by that requester
+    struct Totals {
+        euint64 requested;
+        euint64 paid;
+        euint64 outstanding; // unpaid remainder of requests that are still open
+    }
+
+    uint256 public constant NATIVE_UNIT = 1 gwei;
+    // Bounds the gas of a single issueDueOccurrences call; later calls catch up the rest
+    uint32 public constant MAX_ISSUE_PER_CALL = 12;
+    uint256 public constant MAX_SPLIT_PAYERS = 20;
+    uint256 public constant MAX_LINE_ITEMS = 20;
+
+    uint256 public requestCount;
+    mapping(uint256 => PaymentRequest) private requests;
+    uint256 public seriesCount;
+    mapping(uint256 => Series) private series;
+    uint256 public splitCount;
+    mapping(uint256 => Split) private splits;
+    mapping(uint256 => LineItem[]) private lineItems; // requestId => invoice lines
+    mapping(uint256 => SettlementContext) public settlementContexts;
+    mapping(address => uint256) public withdrawable;
+    mapping(address => mapping(address => Totals)) private totals; // requester => token => totals
+
+    modifier requestExists(uint256 _requestId) {
+        if (_requestId == 0 || _requestId > requestCount) revert RequestNotFound();
+        _;
+    }
+
+    modifier seriesExists(uint256 _seriesId) {
+        if (_seriesId == 0 || _seriesId > seriesCount) revert SeriesNotFound();
+        _;
+    }
+
+    modifier splitExists(uint256 _splitId) {
+        if (_splitId == 0 || _splitId > splitCount) revert SplitNotFound();
+        _;
+    }
+
+    function createRequest(
+        address _payer,
+        address _token,
+        uint64 _dueDate,
+        uint64 _expiresAt,
+        externalEuint64 _encryptedAmount,
+        externalEuint256 _encryptedNoteKey,
+        bytes calldata _note,
+        bytes calldata _inputProof
+    ) external returns (uint256 requestId) {
+        if (_payer == address(0) || _payer == msg.sender) revert InvalidPayer();
+        _checkDates(_dueDate, _expiresAt);
+
+        euint64 amount = FHE.fromExternal(_encryptedAmount, _inputProof);
+        euint256 noteKey = FHE.fromExternal(_encryptedNoteKey, _inputProof);
+        _allowParties(amount, noteKey, _payer);
+
+        requestId = _createRequest(msg.sender, _payer, _token, _dueDate, _expiresAt, amount, noteKey, _note, 0);
+    }
+
+    // Invoice: the amount is the encrypted sum of quantity * unit price over the lines, so it always
+    // matches them. Only the two parties learn any of it.
+    function createInvoice(
+        address _payer,
+        address _token,
+        uint64 _dueDate,
+        uint64 _expiresAt,
+        bytes[] calldata _lineDetails,
+        externalEuint64[] calldata _encryptedQuantities,
+        externalEuint64[] calldata _encryptedUnitPrices,
+        externalEuint256 _encryptedNoteKey,
+        bytes calldata _note,
+        bytes calldata _inputProof
+    ) external returns (uint256 requestId) {
+        if (_payer == address(0) || _payer == msg.sender) revert InvalidPayer();
+        _checkDates(_dueDate, _expiresAt);
+        uint256 count = _lineDetails.length;
+        if (count == 0 || count > MAX_LINE_ITEMS) revert InvalidLineItems();
+        if (_encryptedQuantities.length != count || _encryptedUnitPrices.length != count) revert InvalidLineItems();
+
+        euint64[] memory quantities = new euint64[](count);
+        euint64[] memory unitPrices = new euint64[](count);
+        euint64 total = FHE.asEuint64(0);
+        for (uint256 i = 0; i < count; i++) {
+            if (_lineDetails[i].length == 0) revert InvalidLineItems();
+            quantities[i] = FHE.fromExternal(_encryptedQuantities[i], _inputProof);
+            unitPrices[i] = FHE.fromExternal(_encryptedUnitPrices[i], _inputProof);
+            total = FHE.add(total, FHE.mul(quantities[i], unitPrices[i]));
+        }
+        euint256 noteKey = FHE.fromExternal(_encryptedNoteKey, _inputProof);
+        _allowParties(total, noteKey, _payer);
+
+        requestId = _createRequest(msg.sender, _payer, _token, _dueDate, _expiresAt, total, noteKey, _note, 0);
+        _storeLineItems(requestId, _payer, _lineDetails, quantities, unitPrices);
+    }
+
+    // Custom split: one encrypted share per payer
+    function createSplit(
+        address[] calldata _payers,
+        address _token,
+        uint64 _dueDate,
+        uint64 _expiresAt,
+        externalEuint64[] calldata _encryptedShares,
+        externalEuint256 _encryptedNoteKey,
+        bytes calldata _note,
+        bytes calldata _inputProof
+    ) external returns (uint256 splitId) {
+        if (_encryptedShares.length != _payers.length) revert InvalidShares();
+        euint64[] memory shares = new euint64[](_payers.length);
+        for (uint256 i = 0; i < shares.length; i++) {
+            shares[i] = FHE.fromExternal(_encryptedShares[i], _inputProof);
+        }
+        euint256 noteKey = FHE.fromExternal(_encryptedNoteKey, _inputProof);
+        splitId = _createSplit(_payers, _token, _dueDate, _expiresAt, shares, noteKey, _note);
+    }
+
+    // Equal split of an encrypted total; the first payer also covers the remainder
+    function createEqualSplit(
+        address[] calldata _payers,
+        address _token,
+        uint64 _dueDate,
+        uint64 _expiresAt,
+        externalEuint64 _encryptedTotal,
+        externalEuint256 _encryptedNoteKey,
+        bytes calldata _note,
+        bytes calldata _inputProof
+    ) external returns (uint256 splitId) {
+        if (_payers.length == 0) revert InvalidShares();
+        euint64 total = FHE.fromExternal(_encryptedTotal, _inputProof);
+        uint64 count = uint64(_payers.length);
+        euint64[] memory shares = new euint64[](_payers.length);
+        euint64 share = FHE.div(total, count);
+        shares[0] = FHE.add(share, FHE.rem(total, count));
+        for (uint256 i = 1; i < shares.length; i++) {
+            shares[i] = share;
+        }
+        euint256 noteKey = FHE.fromExternal(_encryptedNoteKey, _inputProof);
+        splitId = _createSplit(_payers, _token, _dueDate, _expiresAt, shares, noteKey, _note);
+    }
+
+    // Issues every occurrence that is already due, so a series starting now yields its first request right away
+    function createSeries(
+        address _payer,
+        address _token,
+        uint64 _startAt,
+        uint64 _interval,
+        uint64 _endAt,
+        uint32 _maxOccurrences,
+        uint64 _dueAfter,
+        externalEuint64 _encryptedAmount,
+        externalEuint256 _encryptedNoteKey,
+        bytes calldata _note,
+        bytes calldata _inputProof
+    ) external returns (uint256 seriesId) {
+        if (_payer == address(0) || _payer == msg.sender) revert InvalidPayer();
+        if (_startAt == 0 || _interval == 0) revert InvalidSchedule();
+        if (_endAt == 0 && _maxOccurrences == 0) revert InvalidSchedule(); // must end by date or count
+        if (_endAt != 0 && (_endAt < _startAt || _endAt <= block.timestamp)) revert InvalidSchedule();
+
+        euint64 amount = FHE.fromExternal(_encryptedAmount, _inputProof);
+        euint256 noteKey = FHE.fromExternal(_encryptedNoteKey, _inputProof);
+        _allowParties(amount, noteKey, _payer);
+
+        seriesId = ++seriesCount;
+        Series storage s = series[seriesId];
+        s.requester = msg.sender;
+        s.payer = _payer;
+        s.token = _token;
+        s.startAt = _startAt;
+        s.interval = _interval;
+        s.endAt = _endAt;
+        s.maxOccurrences = _maxOccurrences;
+        s.dueAfter = _dueAfter;
+        s.amount = amount;
+        s.noteKey = noteKey;
+        s.note = _note;
+
+        emit SeriesCreated(seriesId, msg.sender, _payer);
+        _issueDue(seriesId, s, uint64(block.timestamp));
+    }
+
+    // Anyone may issue due occurrences, e.g. a keeper or either party
+    // A paused series still issues the occurrences that fell due before it was paused
+    function issueDueOccurrences(uint256 _seriesId) external seriesExists(_seriesId) returns (uint32 issued) {
+        Series storage s = series[_seriesId];
+        if (s.cancelled) revert SeriesInactive();
+        issued = _issueDue(_seriesId, s, s.paused ? s.pausedAt : uint64(block.timestamp));
+        if (issued == 0) revert NothingDue();
+    }
+
+    function pauseSeries(uint256 _seriesId) external seriesExists(_seriesId) {
+        Series storage s = series[_seriesId];
+        if (msg.sender != s.requester) revert NotRequester();
+        if (s.paused || s.cancelled) revert SeriesInactive();
+        s.paused = true;
+        s.pausedAt = uint64(block.timestamp);
+        emit SeriesPaused(_seriesId);
+    }
+
+    // Occurrences that fell due while paused are skipped rather than billed retroactively. Those that fell due
+    // before the pause are still owed, so they are issued first.
+    function resumeSeries(uint256 _seriesId) external seriesExists(_seriesId) {
+        Series storage s = series[_seriesId];
+        if (msg.sender != s.requester) revert NotRequester();
+        if (!s.paused || s.cancelled) revert InvalidState();
+
+        uint64 pausedAt = s.pausedAt;
+        _issueDue(_seriesId, s, pausedAt);
+        if (_hasOccurrence(s, s.nextIndex) && _occurrenceAt(s, s.nextIndex) <= pausedAt) revert BacklogNotIssued();
+        s.paused = false;
+        s.pausedAt = 0;
+
+        uint32 skipped;
+        uint64 next = _occurrenceAt(s, s.nextIndex);
+        if (next <= block.timestamp) {
+            skipped = uint32((block.timestamp - next) / s.interval + 1);
+            s.nextIndex += skipped;
+        }
+        emit SeriesResumed(_seriesId, skipped);
+    }
+
+    // Already issued occurrences stay payable; the requester can cancel them one by one
+    function cancelSeries(uint256 _seriesId) external seriesExists(_seriesId) {
+        Series storage s = series[_seriesId];
+        if (msg.sender != s.requester) revert NotRequester();
+        if (s.cancelled) revert SeriesInactive();
+        s.cancelled = true;
+        emit SeriesCancelled(_seriesId);
+    }
+
+    // Escrows the payment and asks the oracle whether it was accepted and whether it completes the request.
+    // ETH payments may be partial: msg.value is accepted if it does not exceed the outstanding amount.
+    // Token payments pull the full outstanding amount, see `payRequestAmount` for partial token payments.
+    function payRequest(uint256 _requestId) external payable requestExists(_requestId) {
+        PaymentRequest storage request = _payableRequest(_requestId);
+        euint64 outstanding = FHE.sub(request.amount, request.paid);
+
+        ebool accepted;
+        euint64 paid;
+        if (request.token == address(0)) {
+            if (msg.value == 0 || msg.value % NATIVE_UNIT != 0 || msg.value / NATIVE_UNIT > type(uint64).max) {
+                revert InvalidPaymentValue();
+            }
+            uint64 value = uint64(msg.value / NATIVE_UNIT);
+            accepted = FHE.ge(outstanding, value);
+            paid = FHE.select(accepted, FHE.add(request.paid, value), request.paid);
+        } else {
+            if (msg.value != 0) revert InvalidPaymentValue();
+            (accepted, paid) = _pullToken(request, outstanding);
+        }
+
+        _submitPayment(_requestId, request, accepted, paid);
+    }
+
+    // Partial token payment of an encrypted amount. Amounts above the outstanding balance transfer nothing.
+    function payRequestAmount(
+        uint256 _requestId,
+        externalEuint64 _encryptedAmount,
+        bytes calldata _inputProof
+    ) external requestExists(_requestId) {
+        PaymentRequest storage request = _payableRequest(_requestId);
+        if (request.token == address(0)) revert InvalidPaymentValue();
+
+        euint64 amount = FHE.fromExternal(_encryptedAmount, _inputProof);
+        euint64 outstanding = FHE.sub(request.amount, request.paid);
+        euint64 offered = FHE.select(FHE.le(amount, outstanding), amount, FHE.asEuint64(0));
+        (ebool accepted, euint64 paid) = _pullToken(request, offered);
+
+        _submitPayment(_requestId, request, accepted, paid);
+    }
+
+    function settlementCallback(uint256 decryptionId, bytes memory cleartexts, bytes memory proof) public {
+        SettlementContext storage ctx = settlementContexts[decryptionId];
+        if (ctx.processed) revert ReplayDetected();
+        if (cleartexts.length != 64) revert DecryptionFailed();
+
+        FHE.checkSignatures(decryptionId, cleartexts, proof);
+
+        (bool accepted, bool complete) = abi.decode(cleartexts, (bool, bool));
+        ctx.processed = true;
+
+        PaymentRequest storage request = requests[ctx.requestId];
+        request.updatedAt = uint64(block.timestamp);
+        if (!accepted) {
+            // A rejected token transfer moved nothing, so only native escrow needs refunding
+            request.status = ctx.previousStatus;
+            _sendValue(request.payer, ctx.escrow);
+            emit PaymentFailed(ctx.requestId, request.payer);
+            return;
+        }
+
+        _sendValue(request.requester, ctx.escrow);
+        if (complete) {
+            request.status = Status.Paid;
+            emit PaymentRequestPaid(ctx.requestId, request.payer);
+            if (request.splitId != 0) _settleShare(request.splitId);
+        } else {
+            request.status = Status.PartiallyPaid;
+            emit PaymentRequestPartiallyPaid(ctx.requestId, request.payer);
+        }
+    }
+
+    function cancelRequest(uint256 _requestId) external requestExists(_requestId) {
+        PaymentRequest storage request = requests[_requestId];
+        if (msg.sender != request.requester) revert NotRequester();
+        if (request.status != Status.Pending && request.status != Status.PartiallyPaid) revert InvalidState();
+
+        _releaseOutstanding(request);
+        request.status = Status.Cancelled;
+        request.updatedAt = uint64(block.timestamp);
+        emit PaymentRequestCancelled(_requestId, msg.sender);
+    }
+
+    // The payer may only turn down a request before paying any of it
+    function rejectRequest(uint256 _requestId) external requestExists(_requestId) {
+        PaymentRequest storage request = requests[_requestId];
+        if (msg.sender != request.payer) revert NotPayer();
+        if (request.status != Status.Pending) revert InvalidState();
+
+        _releaseOutstanding(request);
+        request.status = Status.Rejected;
+        request.updatedAt = uint64(block.timestamp);
+        emit PaymentRequestRejected(_requestId, msg.sender);
+    }
+
+    // Anyone may expire an open request once it is past its expiry
+    function expireRequest(uint256 _requestId) external requestExists(_requestId) {
+        PaymentRequest storage request = requests[_requestId];
+        if (request.status != Status.Pending && request.status != Status.PartiallyPaid) revert InvalidState();
+        if (!_isExpired(request)) revert NotExpired();
+
+        _releaseOutstanding(request);
+        request.status = Status.Expired;
+        request.updatedAt = uint64(block.timestamp);
+        emit PaymentRequestExpired(_requestId);
+    }
+
+    function withdraw() external {
+        uint256 amount = withdrawable[msg.sender];
+        if (amount == 0) revert NothingToWithdraw();
+        withdrawable[msg.sender] = 0;
+
+        (bool sent, ) = payable(msg.sender).call{ value: amount }("");
+        if (!sent) revert TransferFailed();
+        emit Withdrawal(msg.sender, amount);
+    }
+
+    function getRequest(uint256 _requestId) external view requestExists(_requestId) returns (PaymentRequest memory) {
+        return requests[_requestId];
+    }
+
+    function getTotals(address _requester, address _token) external view returns (Totals memory) {
+        return totals[_requester][_token];
+    }
+
+    function getSeries(uint256 _seriesId) external view seriesExists(_seriesId) returns (Series memory) {
+        return series[_seriesId];
+    }
+
+    function getSplit(uint256 _splitId) external view splitExists(_splitId) returns (Split memory) {
+        return splits[_splitId];
+    }
+
+    // Empty for requests that are not invoices
+    function getLineItems(uint256 _requestId) external view requestExists(_requestId) returns (LineItem[] memory) {
+        return lineItems[_requestId];
+    }
+
+    function _createRequest(
+        address _requester,
+        address _payer,
+        address _token,
+        uint64 _dueDate,
+        uint64 _expiresAt,
+        euint64 _amount,
+        euint256 _noteKey,
+        bytes memory _note,
+        uint256 _seriesId
+    ) internal returns (uint256 requestId) {
+        requestId = ++requestCount;
+        PaymentRequest storage request = requests[requestId];
+        request.requester = _requester;
+        request.payer = _payer;
+        request.token = _token;
+        request.status = Status.Pending;
+        request.createdAt = uint64(block.timestamp);
+        request.updatedAt = uint64(block.timestamp);
+        request.dueDate = _dueDate;
+        request.expiresAt = _expiresAt;
+        request.amount = _amount;
+        request.noteKey = _noteKey;
+        request.note = _note;
+        request.seriesId = _seriesId;
+        _setPaid(request, FHE.asEuint64(0));
+
+        Totals storage t = totals[_requester][_token];
+        t.requested = FHE.add(t.requested, _amount);
+        t.outstanding = FHE.add(t.outstanding, _amount);
+        if (!FHE.isInitialized(t.paid)) t.paid = FHE.asEuint64(0);
+        _allowTotals(t, _requester);
+
+        emit PaymentRequestCreated(requestId, _requester, _payer);
+    }
+
+    function _createSplit(
+        address[] calldata _payers,
+        address _token,
+        uint64 _dueDate,
+        uint64 _expiresAt,
+        euint64[] memory _shares,
+        euint256 _noteKey,
+        bytes calldata _note
+    ) internal returns (uint256 splitId) {
+        if (_payers.length < 2 || _payers.length > MAX_SPLIT_PAYERS) revert InvalidShares();
+        _checkDates(_dueDate, _expiresAt);
+
+        splitId = ++splitCount;
+        Split storage split = splits[splitId];
+        split.requester = msg.sender;
+        split.token = _token;
+        split.paidShares = FHE.asEuint32(0);
+        FHE.allowThis(split.paidShares);
+        FHE.allow(split.paidShares, msg.sender);
+
+        for (uint256 i = 0; i < _payers.length; i++) {
+            address payer = _payers[i];
+            if (payer == address(0) || payer == msg.sender) revert InvalidPayer();
+            for (uint256 j = 0; j < i; j++) {
+                if (_payers[j] == payer) revert InvalidPayer();
+            }
+            // Each payer may decrypt their own share and the shared note, but no other share
+            _allowParties(_shares[i], _noteKey, payer);
+            uint256 requestId = _createRequest(
+                msg.sender,
+                payer,
+                _token,
+                _dueDate,
+                _expiresAt,
+                _shares[i],
+                _noteKey,
+                _note,
+                0
+            );
+            requests[requestId].splitId = splitId;
+            split.requestIds.push(requestId);
+        }
+
+        emit SplitCreated(splitId, msg.sender, _payers.length);
+    }
+
+    function _storeLineItems(
+        uint256 _requestId,
+        address _payer,
+        bytes[] calldata _lineDetails,
+        euint64[] memory _quantities,
+        euint64[] memory _unitPrices
+    ) internal {
+        LineItem[] storage lines = lineItems[_requestId];
+        for (uint256 i = 0; i < _unitPrices.length; i++) {
+            lines.push(LineItem(_lineDetails[i], _quantities[i], _unitPrices[i]));
+            FHE.allowThis(_quantities[i]);
+            FHE.allow(_quantities[i], msg.sender);
+            FHE.allow(_quantities[i], _payer);
+            FHE.allowThis(_unitPrices[i]);
+            FHE.allow(_unitPrices[i], msg.sender);
+            FHE.allow(_unitPrices[i], _payer);
+        }
+    }
+
+    function _checkDates(uint64 _dueDate, uint64 _expiresAt) internal view {
+        if (_dueDate != 0 && _dueDate <= block.timestamp) revert InvalidDueDate();
+        if (_expiresAt != 0 && (_expiresAt <= block.timestamp || _expiresAt < _dueDate)) revert InvalidExpiry();
+    }
+
+    // Only the two parties of a request may decrypt it
+    function _allowParties(euint64 _amount, euint256 _noteKey, address _payer) internal {
+        FHE.allowThis(_amount);
+        FHE.allowThis(_noteKey);
+        FHE.allow(_amount, msg.sender);
+        FHE.allow(_noteKey, msg.sender);
+        FHE.allow(_amount, _payer);
+        FHE.allow(_noteKey, _payer);
+    }
+
+    // Issues the occurrences due by `_until`, at most MAX_ISSUE_PER_CALL of them
+    function _issueDue(uint256 _seriesId, Series storage s, uint64 _until) internal returns (uint32 issued) {
+        while (issued < MAX_ISSUE_PER_CALL && _hasOccurrence(s, s.nextIndex)) {
+            uint64 occursAt = _occurrenceAt(s, s.nextIndex);
+            if (occursAt > _until) break;
+
+            uint64 dueDate = s.dueAfter == 0 ? 0 : occursAt + s.dueAfter;
+            uint256 requestId = _createRequest(
+                s.requester,
+                s.payer,
+                s.token,
+                dueDate,
+                0,
+                s.amount,
+                s.noteKey,
+                s.note,
+                _seriesId
+            );
+            emit OccurrenceIssued(_seriesId, requestId, s.nextIndex);
+            s.nextIndex++;
+            issued++;
+        }
+    }
+
+    function _occurrenceAt(Series storage s, uint32 _index) internal view returns (uint64) {
+        return s.startAt + uint64(_index) * s.interval;
+    }
+
+    function _hasOccurrence(Series storage s, uint32 _index) internal view returns (bool) {
+        if (s.maxOccurrences != 0 && _index >= s.maxOccurrences) return false;
+        return s.endAt == 0 || _occurrenceAt(s, _index) <= s.endAt;
+    }
+
+    function _payableRequest(uint256 _requestId) internal view returns (PaymentRequest storage request) {
+        request = requests[_requestId];
+        if (request.status != Status.Pending && request.status != Status.PartiallyPaid) revert InvalidState();
+        if (msg.sender != request.payer) revert NotPayer();
+        if (_isExpired(request)) revert RequestExpired();
+    }
+
+    function _isExpired(PaymentRequest storage request) internal view returns (bool) {
+        return request.expiresAt != 0 && block.timestamp > request.expiresAt;
+    }
+
+    function _pullToken(
+        PaymentRequest storage request,
+        euint64 _amount
+    ) internal returns (ebool accepted, euint64 paid) {
+        FHE.allowTransient(_amount, request.token);
+        euint64 transferred = IConfidentialToken(request.token).confidentialTransferFrom(
+            msg.sender,
+            request.requester,
+            _amount
+        );
+        accepted = FHE.ne(transferred, 0);
+        paid = FHE.add(request.paid, transferred);
+    }
+
+    // `paid` already reflects the outcome, so the callback only needs the two flags
+    function _submitPayment(uint256 _requestId, PaymentRequest storage request, ebool accepted, euint64 paid) internal {
+        SettlementContext memory ctx = SettlementContext({
+            requestId: _requestId,
+            escrow: msg.value,
+            previousStatus: request.status,
+            processed: false
+        });
+        // Rejected payments add an encrypted zero, so totals need not wait for the oracle
+        euint64 received = FHE.sub(paid, request.paid);
+        Totals storage t = totals[request.requester][request.token];
+        t.paid = FHE.add(t.paid, received);
+        t.outstanding = FHE.sub(t.outstanding, received);
+        _allowTotals(t, request.requester);
+
+        _setPaid(request, paid);
+        request.status = Status.Settling;
+        request.updatedAt = uint64(block.timestamp);
+
+        ebool complete = FHE.eq(paid, request.amount);
+        if (request.splitId != 0) {
+            // Counted before settlement: `complete` is already false for a payment the oracle will refuse
+            Split storage split = splits[request.splitId];
+            split.paidShares = FHE.add(split.paidShares, FHE.asEuint32(complete));
+            FHE.allowThis(split.paidShares);
+            FHE.allow(split.paidShares, split.requester);
+        }
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(accepted);
+        cts[1] = FHE.toBytes32(complete);
+        uint256 decryptionId = FHE.requestDecryption(cts, this.settlementCallback.selector);
+        settlementContexts[decryptionId] = ctx;
+
+        emit PaymentSubmitted(_requestId, msg.sender, decryptionId);
+    }
+
+    function _settleShare(uint256 _splitId) internal {
+        Split storage split = splits[_splitId];
+        split.settledShares++;
+        if (split.settledShares == split.requestIds.length) emit SplitPaid(_splitId);
+    }
+
+    function _setPaid(PaymentRequest storage request, euint64 _paid) internal {
+        request.paid = _paid;
+        FHE.allowThis(_paid);
+        FHE.allow(_paid, request.requester);
+        FHE.allow(_paid, request.payer);
+    }
+
+    // A closed request no longer counts towards what the requester is owed
+    function _releaseOutstanding(PaymentRequest storage request) internal {
+        Totals storage t = totals[request.requester][request.token];
+        t.outstanding = FHE.sub(t.outstanding, FHE.sub(request.amount, request.paid));
+        _allowTotals(t, request.requester);
+    }
+
+    function _allowTotals(Totals storage t, address _requester) internal {
+        FHE.allowThis(t.requested);
+        FHE.allowThis(t.paid);
+        FHE.allowThis(t.outstanding);
+        FHE.allow(t.requested, _requester);
+        FHE.allow(t.paid, _requester);
+        FHE.allow(t.outstanding, _requester);
+    }
+
+    // Pushes ETH and falls back to a withdrawable balance so a rejecting recipient cannot block settlement
+    function _sendValue(address _to, uint256 _amount) internal {
+        if (_amount == 0) return;
+        (bool sent, ) = payable(_to).call{ value: _amount, gas: 30000 }("");
+        if (!sent) withdrawable[_to] += _amount;
+    }
+}
@@ -1,6 +1,6 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 
@@ -22,6 +22,8 @@ contract PaymentRequestFHE is SepoliaConfig {
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event CooldownSet(uint256 cooldownSeconds);
+    event ContractPaused(address indexed account);
+    event ContractUnpaused(address indexed account);
     event BatchOpened(uint256 indexed batchId);
     event BatchClosed(uint256 indexed batchId);
     event PaymentRequestSubmitted(uint256 indexed batchId, address indexed sender, bytes32 encryptedNote);
@@ -30,6 +32,7 @@ contract PaymentRequestFHE is SepoliaConfig {
 
     struct DecryptionContext {
         uint256 batchId;
+        address provider;
         bytes32 stateHash;
         bool processed;
     }
@@ -90,9 +93,9 @@ contract PaymentRequestFHE is SepoliaConfig {
     function setPaused(bool _paused) external onlyOwner {
         paused = _paused;
         if (_paused) {
-            emit Paused();
+            emit ContractPaused(msg.sender);
         } else {
-            emit Unpaused();
+            emit ContractUnpaused(msg.sender);
         }
     }
 
@@ -110,7 +113,11 @@ contract PaymentRequestFHE is SepoliaConfig {
         emit BatchClosed(currentBatchId);
     }
 
-    function submitPaymentRequest(uint256 _batchId, euint32 _encryptedNote) external onlyProvider whenNotPaused {
+    function submitPaymentRequest(
+        uint256 _batchId,
+        externalEuint32 _encryptedNote,
+        bytes calldata _inputProof
+    ) external onlyProvider whenNotPaused {
         if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
             revert CooldownActive();
         }
@@ -118,11 +125,15 @@ contract PaymentRequestFHE is SepoliaConfig {
         if (!batchOpen) revert InvalidBatch();
         if (hasSubmitted[_batchId][msg.sender]) revert AlreadyInitialized(); // One submission per provider per batch
 
+        euint32 note = FHE.fromExternal(_encryptedNote, _inputProof);
+        FHE.allowThis(note);
+        FHE.allow(note, msg.sender);
+
         lastSubmissionTime[msg.sender] = block.timestamp;
-        encryptedNotes[_batchId][msg.sender] = _encryptedNote;
+        encryptedNotes[_batchId][msg.sender] = note;
         hasSubmitted[_batchId][msg.sender] = true;
 
-        emit PaymentRequestSubmitted(_batchId, msg.sender, _encryptedNote.toBytes32());
+        emit PaymentRequestSubmitted(_batchId, msg.sender, note.toBytes32());
     }
 
     function requestNoteDecryption(uint256 _batchId, address _provider) external whenNotPaused {
@@ -131,28 +142,38 @@ contract PaymentRequestFHE is SepoliaConfig {
         }
         if (!_isNoteInitialized(_batchId, _provider)) revert NotInitialized();
 
-        euint32 memory note = encryptedNotes[_batchId][_provider];
+        euint32 note = encryptedNotes[_batchId][_provider];
         bytes32[] memory cts = new bytes32[](1);
         cts[0] = note.toBytes32();
 
         bytes32 stateHash = _hashCiphertexts(cts);
 
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
-        decryptionContexts[requestId] = DecryptionContext({ batchId: _batchId, stateHash: stateHash, processed: false });
+        decryptionContexts[requestId] = DecryptionContext({
+            batchId: _batchId,
+            provider: _provider,
+            stateHash: stateHash,
+            processed: false
+        });
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
 
         emit DecryptionRequested(requestId, _batchId);
     }
 
+    // Fulfilments are sent by the relayer's own account, not by the DecryptionOracle contract in the fhevm config,
+    // so there is no fixed sender to check. Only requests registered above are accepted, and the KMS signatures
+    // prove the cleartexts came from the oracle.
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
-        if (decryptionContexts[requestId].processed) revert ReplayDetected();
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.provider == address(0)) revert InvalidState(); // Not requested through requestNoteDecryption
+        if (ctx.processed) revert ReplayDetected();
         if (cleartexts.length != 32) revert DecryptionFailed(); // Expecting one uint256 (32 bytes)
 
         // State Verification
         bytes32[] memory cts = new bytes32[](1);
-        cts[0] = encryptedNotes[decryptionContexts[requestId].batchId][msg.sender].toBytes32(); // Rebuild cts from storage
+        cts[0] = encryptedNotes[ctx.batchId][ctx.provider].toBytes32(); // Rebuild cts from storage
         bytes32 currentHash = _hashCiphertexts(cts);
-        if (currentHash != decryptionContexts[requestId].stateHash) {
+        if (currentHash != ctx.stateHash) {
             revert InvalidState();
         }
 
@@ -161,12 +182,12 @@ contract PaymentRequestFHE is SepoliaConfig {
 
         // Decode & Finalize
         uint256 note = abi.decode(cleartexts, (uint256));
-        decryptionContexts[requestId].processed = true;
+        ctx.processed = true;
 
-        emit DecryptionCompleted(requestId, decryptionContexts[requestId].batchId, note);
+        emit DecryptionCompleted(requestId, ctx.batchId, note);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
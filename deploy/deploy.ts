@@ -5,6 +5,8 @@ import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
 
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
 const WORD_LIBRARY = [
   'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
   'frontend', 'gateway', 'handler', 'interface', 'middleware', 'model', 'module',
@@ -326,20 +328,49 @@ async function main() {
   }
 
   const DEFAULT_RPC = "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3";
-  const rpc = DEFAULT_RPC;
+  // e.g. DEPLOY_RPC=http://127.0.0.1:8545 for a local hardhat node
+  const rpc = process.env.DEPLOY_RPC || DEFAULT_RPC;
 
-  const provider = new JsonRpcProvider(rpc);
+  // No request cache: deploys sent back to back must each read a fresh nonce
+  const provider = new JsonRpcProvider(rpc, undefined, { cacheTimeout: -1 });
   const wallet = new Wallet(privateKey, provider);
 
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-    const factory = await UniversalAdapterFactory.deploy();
-    await factory.waitForDeployment();
-
-    const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalAdapter contract deployed at:", deployedAddress);
+    const PaymentRequestFHEFactory = await hardhatEthers.getContractFactory("PaymentRequestFHE", wallet);
+    const paymentRequestFhe = await PaymentRequestFHEFactory.deploy();
+    await paymentRequestFhe.waitForDeployment();
+
+    const paymentRequestFheAddress = await paymentRequestFhe.getAddress();
+    console.log("PaymentRequestFHE contract deployed at:", paymentRequestFheAddress);
+
+    const PaymentRequestLedgerFactory = await hardhatEthers.getContractFactory("PaymentRequestLedger", wallet);
+    const ledger = await PaymentRequestLedgerFactory.deploy();
+    await ledger.waitForDeployment();
+
+    const ledgerAddress = await ledger.getAddress();
+    const ledgerStartBlock = (await ledger.deploymentTransaction()?.wait())?.blockNumber ?? 0;
+    console.log("PaymentRequestLedger contract deployed at:", ledgerAddress);
+
+    const tokenSymbol = "cPAY";
+    const ConfidentialTokenFactory = await hardhatEthers.getContractFactory("ConfidentialToken", wallet);
+    const token = await ConfidentialTokenFactory.deploy("Confidential Pay Token", tokenSymbol);
+    await token.waitForDeployment();
+
+    const tokenAddress = await token.getAddress();
+    console.log("ConfidentialToken contract deployed at:", tokenAddress);
+
+    // The frontend batches its view calls through Multicall3, which public chains already have at a
+    // fixed address; a fresh hardhat node does not
+    let multicallAddress = MULTICALL3_ADDRESS;
+    if ((await provider.getCode(MULTICALL3_ADDRESS)) === "0x") {
+      const Multicall3Factory = await hardhatEthers.getContractFactory("Multicall3", wallet);
+      const multicall = await Multicall3Factory.deploy();
+      await multicall.waitForDeployment();
+      multicallAddress = await multicall.getAddress();
+      console.log("Multicall3 contract deployed at:", multicallAddress);
+    }
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -351,43 +382,32 @@ async function main() {
       }
     }
 
-    const logEntry = `${deployedAddress} | ${wallet.address} | 成功`;
+    const logEntry = `${ledgerAddress} | ${wallet.address} | 成功`;
     fs.appendFileSync(successLogPath, logEntry + "\n");
 
     const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
-      const config = {
-        network: rpc,
-        contractAddress: deployedAddress,
+      // config.json holds one deployment per chain ID; the frontend's network registry supplies the rest
+      const configPath = path.join(frontendConfigDir, "config.json");
+      const chainId = Number((await provider.getNetwork()).chainId);
+      const config = fs.existsSync(configPath)
+        ? JSON.parse(fs.readFileSync(configPath, "utf-8"))
+        : { defaultChainId: chainId, networks: {} };
+      // Addresses this script does not deploy, such as the legacy UniversalAdapter, are kept as they were
+      config.networks[chainId] = {
+        ...config.networks[chainId],
+        paymentRequestFhe: paymentRequestFheAddress,
+        ledger: ledgerAddress,
+        ledgerStartBlock,
+        token: tokenAddress,
+        tokenSymbol,
+        multicall: multicallAddress,
         deployer: wallet.address,
       };
-      fs.writeFileSync(
-        path.join(frontendConfigDir, "config.json"),
-        JSON.stringify(config, null, 2)
-      );
+      fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
       console.log("Wrote frontend config: frontend/web/src/config.json");
-
-      try {
-        const artifactPath = path.join(
-          __dirname,
-          "..",
-          "artifacts",
-          "contracts",
-          "UniversalAdapter.sol",
-          "UniversalAdapter.json"
-        );
-        const targetAbiPath = path.join(frontendConfigDir, "abi");
-        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-      } catch (e) {
-        console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-          e
-        );
-      }
     }
   } catch (error) {
     console.error("Deployment failed:", error);
@@ -1,96 +1,607 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { isEvent } from "./client";
+import { errorMessage } from "./errors";
+import { getLedgerReadOnly, getLedgerWithSigner, getRpcPool, getTokenWithSigner, getWalletSigner, normAddr, subscribeLedgerEvents } from "./contract";
+import type { EndpointHealth } from "./rpcPool";
+import { activeNetwork, DEFAULT_NETWORK, getNetwork, setActiveNetwork } from "./networks";
+import type { PaymentRequestLedger } from "../../../types/contracts/PaymentRequestLedger";
+import { AMOUNT_DECIMALS, decryptPaymentRequest, deferDecryptionSession, encryptAmount, encryptInvoice, encryptPaymentRequest, encryptRequestAmounts, exportDecryptions, formatAmount, getCachedDecryption, importDecryptions, openNote, parseAmount, userDecrypt, type EIP712, type InvoiceLine } from "./fhe";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount, useSignMessage, useSignTypedData, useSwitchChain } from 'wagmi';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { parseRequestRoute, requestPath, requestUrl } from "./links";
+import { formatRequestUri, isRequestUri, parseRequestUri, type RequestLocation } from "./requestUri";
+import QrCode from "./components/QrCode";
+import { LedgerIndexer, type LedgerState } from "./indexer";
+import { appendAction, cacheKeyMessage, deriveCacheKey, loadActions, loadDecryptions, loadLedgerSnapshot, loadTransactions, saveDecryptions, saveLedgerSnapshot, saveTransactions, scopeKey, type CacheScope } from "./cache";
+import { TrackingStoppedError, TransactionManager, type TrackedTransaction } from "./transactions";
+
+// Mirrors PaymentRequestLedger.Status
+enum RequestStatus {
+  Pending,
+  Settling,
+  PartiallyPaid,
+  Paid,
+  Cancelled,
+  Rejected,
+  Expired
+}
+
+const STATUS_LABELS: Record<RequestStatus, string> = {
+  [RequestStatus.Pending]: "Unpaid",
+  [RequestStatus.Settling]: "Settling",
+  [RequestStatus.PartiallyPaid]: "Partially Paid",
+  [RequestStatus.Paid]: "Paid",
+  [RequestStatus.Cancelled]: "Cancelled",
+  [RequestStatus.Rejected]: "Rejected",
+  [RequestStatus.Expired]: "Expired"
+};
+
+const STATUS_CLASSES: Record<RequestStatus, string> = {
+  [RequestStatus.Pending]: "unpaid",
+  [RequestStatus.Settling]: "settling",
+  [RequestStatus.PartiallyPaid]: "partial",
+  [RequestStatus.Paid]: "paid",
+  [RequestStatus.Cancelled]: "cancelled",
+  [RequestStatus.Rejected]: "rejected",
+  [RequestStatus.Expired]: "expired"
+};
+
+// Statuses that still accept payments
+const OPEN_STATUSES = [RequestStatus.Pending, RequestStatus.PartiallyPaid];
+
+type RequestAction = 'pay' | 'cancel' | 'reject' | 'expire';
+
+const ACTION_LABELS: Record<RequestAction, string> = {
+  pay: "Pay",
+  cancel: "Cancel Request",
+  reject: "Reject",
+  expire: "Mark Expired"
+};
 
 interface PaymentRequest {
   id: number;
-  amount: number;
   encryptedAmount: string;
+  encryptedPaid: string;
   encryptedNote: string;
-  note: string;
+  noteKeyHandle: string;
   timestamp: number;
+  updatedAt: number;
+  dueDate: number; // 0 when the request has no due date
+  expiresAt: number; // 0 when the request never expires
+  seriesId: number; // 0 unless issued by a recurring series
+  splitId: number; // 0 unless this is one payer's share of a split bill
   requester: string;
+  payer: string;
+  token: string;
+  status: RequestStatus;
   paid: boolean;
+  // Cleartext fields stay null until the connected account decrypts them
+  amount: number | null;
+  note: string | null;
+}
+
+interface DecryptedData {
+  amount: number | null;
+  paidAmount: number | null;
+  note: string | null;
+  paidShares: number | null; // split bills only, decrypted for the requester
+  lines: DecryptedLineItem[] | null; // invoices only, in line order
+}
+
+const EMPTY_DECRYPTION: DecryptedData = { amount: null, paidAmount: null, note: null, paidShares: null, lines: null };
+
+// Mirrors PaymentRequestLedger.LineItem
+interface LineItem {
+  details: string; // description, sealed with the note key
+  quantityHandle: string;
+  unitPriceHandle: string;
+}
+
+interface DecryptedLineItem extends InvoiceLine {
+  unitPrice: number;
+}
+
+// An invoice line being drafted in the create modal, prices in the request currency
+interface LineItemDraft {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+// Mirrors PaymentRequestLedger.Split; each share is a PaymentRequest with this splitId
+interface SplitBill {
+  id: number;
+  requester: string;
+  requestIds: number[];
+  settledShares: number;
+  paidSharesHandle: string;
+}
+
+// The connected requester's decrypted ETH totals from PaymentRequestLedger.getTotals
+interface RequestTotals {
+  requested: number;
+  paid: number;
+  outstanding: number;
+}
+
+type SeriesAction = 'issue' | 'pause' | 'resume' | 'cancel';
+
+const SERIES_ACTION_LABELS: Record<SeriesAction, string> = {
+  issue: "Issue Due",
+  pause: "Pause",
+  resume: "Resume",
+  cancel: "Cancel Series"
+};
+
+// Mirrors PaymentRequestLedger.Series; amount and note live on the issued requests
+interface RecurringSeries {
+  id: number;
+  requester: string;
+  payer: string;
+  token: string;
+  startAt: number;
+  interval: number;
+  endAt: number; // 0 when the series ends by count
+  maxOccurrences: number; // 0 when the series ends by date
+  nextIndex: number;
+  dueAfter: number;
+  paused: boolean;
+  pausedAt: number; // 0 unless paused
+  cancelled: boolean;
 }
 
+// Repeat choices for new series, in seconds
+const REPEAT_INTERVALS: { label: string; seconds: number }[] = [
+  { label: "Weekly", seconds: 7 * 24 * 60 * 60 },
+  { label: "Every 2 weeks", seconds: 14 * 24 * 60 * 60 },
+  { label: "Every 30 days", seconds: 30 * 24 * 60 * 60 }
+];
+
 interface UserAction {
-  type: 'create' | 'pay' | 'decrypt';
+  type: 'create' | 'pay' | 'decrypt' | 'cancel' | 'reject' | 'expire' | 'series';
   timestamp: number;
   details: string;
 }
 
-// FHE encryption/decryption functions
-const FHEEncryptNumber = (value: number): string => `FHE-${btoa(value.toString())}`;
-const FHEDecryptNumber = (encryptedData: string): number => encryptedData.startsWith('FHE-') ? parseFloat(atob(encryptedData.substring(4))) : parseFloat(encryptedData);
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+interface Toast {
+  id: number;
+  message: string;
+}
+
+const TOAST_DURATION = 6000;
+
+// Notices for ledger events on requests the connected account sent or received
+type RequestToastEvent =
+  | "PaymentRequestCreated"
+  | "PaymentSubmitted"
+  | "PaymentRequestPartiallyPaid"
+  | "PaymentRequestPaid"
+  | "PaymentFailed"
+  | "PaymentRequestCancelled"
+  | "PaymentRequestRejected"
+  | "PaymentRequestExpired";
+
+const EVENT_TOASTS: Record<RequestToastEvent, (id: number) => string> = {
+  PaymentRequestCreated: id => `Payment request #${id} was created`,
+  PaymentSubmitted: id => `Payment submitted for request #${id}`,
+  PaymentRequestPartiallyPaid: id => `Request #${id} was partially paid`,
+  PaymentRequestPaid: id => `Request #${id} was paid`,
+  PaymentFailed: id => `A payment for request #${id} did not cover the amount`,
+  PaymentRequestCancelled: id => `Request #${id} was cancelled`,
+  PaymentRequestRejected: id => `Request #${id} was rejected`,
+  PaymentRequestExpired: id => `Request #${id} expired`
+};
+
+// Blocks on top of a transaction's own before the tray shows it as confirmed
+const TX_CONFIRMATIONS = 2;
+
+function describeTransaction(tx: TrackedTransaction): string {
+  switch (tx.status) {
+    case "pending": return "Waiting to be mined";
+    case "mined": return `${tx.confirmations} of ${TX_CONFIRMATIONS} confirmations`;
+    case "confirmed": return "Confirmed";
+    case "failed": return "Reverted";
+    case "cancelled": return "Cancelled";
+    case "dropped": return "Dropped by the network";
+    case "replaced":
+      if (tx.replaces) return tx.cancel ? "Too late to cancel" : "The original was mined first";
+      return tx.replacedBy ? "Sped up" : "Replaced from your wallet";
+  }
+}
+
+const transactionIcon = (tx: TrackedTransaction) =>
+  tx.status === "pending" || tx.status === "mined" ? "pending"
+    : tx.status === "confirmed" || (tx.status === "replaced" && tx.replacedBy && !tx.replaces) ? "success"
+    : "error";
+
+const cacheScope = (account?: string): CacheScope => ({ chainId: activeNetwork().chainId, contract: activeNetwork().contracts.ledger, account });
+
+const currencyOf = (token: string) => token === ethers.ZeroAddress ? "ETH" : activeNetwork().contracts.tokenSymbol;
+
+const toPaymentRequest = (id: number, record: PaymentRequestLedger.PaymentRequestStructOutput): PaymentRequest => ({
+  id,
+  encryptedAmount: record.amount,
+  encryptedPaid: record.paid,
+  encryptedNote: record.note,
+  noteKeyHandle: record.noteKey,
+  timestamp: Number(record.createdAt),
+  updatedAt: Number(record.updatedAt),
+  dueDate: Number(record.dueDate),
+  expiresAt: Number(record.expiresAt),
+  seriesId: Number(record.seriesId),
+  splitId: Number(record.splitId),
+  requester: record.requester,
+  payer: record.payer,
+  token: record.token,
+  status: Number(record.status) as RequestStatus,
+  paid: Number(record.status) === RequestStatus.Paid,
+  amount: null,
+  note: null
+});
+
+const toRecurringSeries = (id: number, record: PaymentRequestLedger.SeriesStructOutput): RecurringSeries => ({
+  id,
+  requester: record.requester,
+  payer: record.payer,
+  token: record.token,
+  startAt: Number(record.startAt),
+  interval: Number(record.interval),
+  endAt: Number(record.endAt),
+  maxOccurrences: Number(record.maxOccurrences),
+  nextIndex: Number(record.nextIndex),
+  dueAfter: Number(record.dueAfter),
+  paused: record.paused,
+  pausedAt: Number(record.pausedAt),
+  cancelled: record.cancelled
+});
+
+const toSplitBill = (id: number, record: PaymentRequestLedger.SplitStructOutput): SplitBill => ({
+  id,
+  requester: record.requester,
+  requestIds: record.requestIds.map(Number),
+  settledShares: Number(record.settledShares),
+  paidSharesHandle: record.paidShares
+});
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Overdue requests can still be paid; expired ones are refused by the ledger
+const isOverdue = (request: PaymentRequest) =>
+  OPEN_STATUSES.includes(request.status) && request.dueDate !== 0 && Date.now() / 1000 > request.dueDate;
+
+const isExpired = (request: PaymentRequest) => request.expiresAt !== 0 && Date.now() / 1000 > request.expiresAt;
+
+// "Due in N days" for open requests, counted in calendar days
+const dueLabel = (request: PaymentRequest): string | null => {
+  if (!OPEN_STATUSES.includes(request.status) || request.dueDate === 0) return null;
+  if (isOverdue(request)) return "Overdue";
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const days = Math.round((startOfDay(new Date(request.dueDate * 1000)) - startOfDay(new Date())) / (DAY_SECONDS * 1000));
+  if (days === 0) return "Due today";
+  return `Due in ${days} day${days === 1 ? "" : "s"}`;
+};
+
+// Actions the account may take on a request, mirroring the checks in PaymentRequestLedger
+const availableActions = (request: PaymentRequest, account?: string): RequestAction[] => {
+  if (!OPEN_STATUSES.includes(request.status)) return [];
+  const isPayer = normAddr(account ?? "") === normAddr(request.payer);
+  const isRequester = normAddr(account ?? "") === normAddr(request.requester);
+
+  const actions: RequestAction[] = [];
+  if (isPayer && !isExpired(request)) actions.push('pay');
+  if (isPayer && request.status === RequestStatus.Pending) actions.push('reject');
+  if (isRequester) actions.push('cancel');
+  if (account && isExpired(request)) actions.push('expire');
+  return actions;
+};
+
+const toTimestamp = (date: string) => date ? Math.floor(new Date(`${date}T23:59:59`).getTime() / 1000) : 0;
+
+// Occurrences not yet issued, at most `limit`, following the ledger's schedule checks.
+// A paused series only still owes the ones that fell due before the pause.
+const upcomingOccurrences = (series: RecurringSeries, limit = 3): number[] => {
+  if (series.cancelled) return [];
+  const dates: number[] = [];
+  for (let index = series.nextIndex; dates.length < limit; index++) {
+    if (series.maxOccurrences !== 0 && index >= series.maxOccurrences) break;
+    const occursAt = series.startAt + index * series.interval;
+    if (series.endAt !== 0 && occursAt > series.endAt) break;
+    if (series.paused && occursAt > series.pausedAt) break;
+    dates.push(occursAt);
+  }
+  return dates;
+};
+
+const seriesStatus = (series: RecurringSeries): string => {
+  if (series.cancelled) return "Cancelled";
+  if (series.paused) return "Paused";
+  return upcomingOccurrences(series, 1).length === 0 ? "Finished" : "Active";
+};
+
+// Invoice quantities are whole units, as the contract multiplies them as integers
+const isWholeQuantity = (quantity: string) => /^[1-9]\d*$/.test(quantity.trim());
+
+// Cleartext line total for display, rounded to the amount precision
+const lineTotal = (quantity: number | string, unitPrice: number | string) =>
+  Number((Number(quantity) * Number(unitPrice)).toFixed(AMOUNT_DECIMALS));
+
+const intervalLabel = (seconds: number) =>
+  REPEAT_INTERVALS.find(option => option.seconds === seconds)?.label ?? `Every ${Math.round(seconds / DAY_SECONDS)} days`;
+
+const EMPTY_REQUEST_DATA = { payer: "", amount: "", note: "", token: ethers.ZeroAddress, dueDate: "", expiresAt: "", repeat: "", startDate: "", endDate: "", occurrences: "", dueAfterDays: "", split: false, splitPayers: "", splitMode: "equal", splitShares: [] as string[], itemized: false, lineItems: [{ description: "", quantity: "1", unitPrice: "" }] as LineItemDraft[] };
+
+// Split payer addresses are entered one per line
+const splitPayerList = (value: string) => value.split(/\s+/).map(line => line.trim()).filter(Boolean);
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, chainId: walletChainId } = useAccount();
+  const network = useMemo(() => getNetwork(walletChainId) ?? DEFAULT_NETWORK, [walletChainId]);
+  // A layout effect runs before the effects below, so module-level helpers they call already see the wallet's network
+  useLayoutEffect(() => {
+    setActiveNetwork(walletChainId);
+  }, [walletChainId]);
+  const { switchChain, isPending: switchingChain } = useSwitchChain();
+  const { signTypedDataAsync } = useSignTypedData();
   const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [requests, setRequests] = useState<PaymentRequest[]>([]);
+  const [series, setSeries] = useState<RecurringSeries[]>([]);
+  const [splits, setSplits] = useState<SplitBill[]>([]);
+  const [selectedLineItems, setSelectedLineItems] = useState<LineItem[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creatingRequest, setCreatingRequest] = useState(false);
+  const [toasts, setToasts] = useState<Toast[]>([]);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newRequestData, setNewRequestData] = useState({ amount: "", note: "" });
+  const [newRequestData, setNewRequestData] = useState(EMPTY_REQUEST_DATA);
   const [selectedRequest, setSelectedRequest] = useState<PaymentRequest | null>(null);
-  const [decryptedData, setDecryptedData] = useState<{ amount: number | null; note: string | null }>({ amount: null, note: null });
+  const [decryptedData, setDecryptedData] = useState<DecryptedData>(EMPTY_DECRYPTION);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState("");
-  const [contractAddress, setContractAddress] = useState("");
-  const [chainId, setChainId] = useState(0);
-  const [startTimestamp, setStartTimestamp] = useState(0);
-  const [durationDays, setDurationDays] = useState(30);
+  const [totals, setTotals] = useState<RequestTotals | null>(null);
   const [userActions, setUserActions] = useState<UserAction[]>([]);
   const [activeTab, setActiveTab] = useState('requests');
+  const [rpcHealth, setRpcHealth] = useState<EndpointHealth[]>([]);
+  const [trackedTxs, setTrackedTxs] = useState<TrackedTransaction[]>([]);
+  const [requestView, setRequestView] = useState<'incoming' | 'outgoing'>('incoming');
   const [searchTerm, setSearchTerm] = useState("");
+  const { id: routeRequestId } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
   
-  // Initialize signature parameters
+  const indexerRef = useRef<LedgerIndexer | null>(null);
+
+  // The indexer replays ledger events once and then follows new blocks; the lists mirror its store
   useEffect(() => {
-    loadData().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
+    let indexer: LedgerIndexer | null = null;
+    let unsubscribe = () => {};
+    let cancelled = false;
+    setLoading(true);
+    applyLedgerState({ requests: new Map(), series: new Map(), splits: new Map(), lastBlock: 0 });
+    getLedgerReadOnly()
+      .then(async ledger => {
+        if (!ledger || cancelled) return;
+        const scope = cacheScope();
+        const snapshot = await loadLedgerSnapshot(scope).catch(e => {
+          console.warn("Could not read cached requests:", e);
+          return undefined;
+        });
+        if (cancelled) return;
+        const created = new LedgerIndexer(ledger, { startBlock: network.contracts.ledgerStartBlock, snapshot });
+        indexer = indexerRef.current = created;
+        // Show the cached list right away; the first sync only adds what changed since
+        if (snapshot) {
+          applyLedgerState(created.getState());
+          setLoading(false);
+        }
+        unsubscribe = created.subscribe(state => {
+          applyLedgerState(state);
+          saveLedgerSnapshot(scope, created.snapshot()).catch(e => console.warn("Could not cache requests:", e));
+        });
+        created.start();
+        return loadData();
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      indexer?.stop();
+      indexerRef.current = null;
+    };
+  }, [network]);
+
+  const nextToastId = useRef(0);
+  const dismissToast = (id: number) => setToasts(prev => prev.filter(toast => toast.id !== id));
+  const pushToast = (message: string) => {
+    const id = ++nextToastId.current;
+    setToasts(prev => [...prev, { id, message }]);
+    setTimeout(() => dismissToast(id), TOAST_DURATION);
+  };
+
+  // Ledger events refresh the list right away instead of waiting for the next indexer poll
+  useEffect(() => subscribeLedgerEvents(async event => {
+    const indexer = indexerRef.current;
+    if (!indexer) return;
+    try {
+      // A sync already in flight may have started before this event's block
+      await indexer.syncTo(event.blockNumber);
+    } catch (e) {
+      console.error("Error loading data:", e);
+      return;
+    }
+    if (!address || !isEvent(event, ...(Object.keys(EVENT_TOASTS) as RequestToastEvent[]))) return;
+    const describe = EVENT_TOASTS[event.name];
+    const requestId = Number(event.args.requestId);
+    const record = indexer.getState().requests.get(requestId);
+    if (record && [record.requester, record.payer].some(party => normAddr(party) === normAddr(address))) {
+      pushToast(describe(requestId));
+    }
+  }), [address, network]);
+
+  // Endpoint metrics only matter while the Network tab is open
+  useEffect(() => {
+    if (activeTab !== 'network') return;
+    const update = () => setRpcHealth(getRpcPool(network).health());
+    update();
+    const timer = setInterval(update, 5000);
+    return () => clearInterval(timer);
+  }, [activeTab, network]);
+
+  // The action log belongs to the connected account and survives reloads
+  useEffect(() => {
+    setUserActions([]);
+    if (!address) return;
+    let cancelled = false;
+    loadActions<UserAction>(cacheScope(address))
+      .then(actions => { if (!cancelled) setUserActions(actions); })
+      .catch(e => console.warn("Could not read action log:", e));
+    return () => { cancelled = true; };
+  }, [address, network]);
+
+  const transactionsRef = useRef<TransactionManager | null>(null);
+
+  // Sent transactions are kept per account, so the tray still follows pending ones after a reload
+  useEffect(() => {
+    const manager = transactionsRef.current = new TransactionManager(getRpcPool(network), { confirmations: TX_CONFIRMATIONS });
+    const scope = cacheScope(address);
+    setTrackedTxs([]);
+    const unsubscribe = manager.subscribe(transactions => {
+      setTrackedTxs(transactions);
+      if (address) saveTransactions(scope, transactions).catch(e => console.warn("Could not save transactions:", e));
+    });
+    if (address) {
+      loadTransactions(scope)
+        .then(saved => manager.restore(saved))
+        .catch(e => console.warn("Could not read transactions:", e));
+    }
+    manager.start();
+    return () => {
+      unsubscribe();
+      manager.stop();
+      transactionsRef.current = null;
     };
-    initSignatureParams();
-  }, []);
+  }, [address, network]);
+
+  // Moves a sent transaction from the status banner to the tray; resolves once it or its speed-up is mined
+  const submitted = (tx: ethers.TransactionResponse, label: string): Promise<unknown> => {
+    const manager = transactionsRef.current;
+    if (!manager) return tx.wait();
+    setTransactionStatus({ visible: false, status: "pending", message: "" });
+    // A switch of account or network stops the manager; keep waiting on the transaction itself
+    return manager.wait(manager.track(tx, label).hash).catch(error => {
+      if (error instanceof TrackingStoppedError) return tx.wait();
+      throw error;
+    });
+  };
+
+  const replaceTransaction = async (hash: string, action: "speedUp" | "cancel") => {
+    const manager = transactionsRef.current;
+    if (!manager) return;
+    try {
+      await manager[action](hash, await getWalletSigner());
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage(e, action === "speedUp" ? "Speed up failed" : "Cancel failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const recordAction = (action: UserAction) => {
+    setUserActions(prev => [action, ...prev]);
+    if (address) appendAction(cacheScope(address), action).catch(e => console.warn("Could not save action:", e));
+  };
+
+  // Open the request a shared /request/:id link points at once the list has loaded
+  useEffect(() => {
+    if (!routeRequestId || loading) return;
+    const location = parseRequestRoute(routeRequestId, searchParams);
+    const onThisLedger = location !== null && location.chainId === network.chainId && normAddr(location.contract) === normAddr(network.contracts.ledger);
+    const request = onThisLedger ? requests.find(r => r.id === location.requestId) : undefined;
+    if (request) {
+      setSelectedRequest(request);
+      return;
+    }
+    const message = !location ? "Invalid request link"
+      : !onThisLedger ? "This link points to a request on another network or contract"
+      : `Request #${location.requestId} not found`;
+    setTransactionStatus({ visible: true, status: "error", message });
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    navigate("/", { replace: true });
+  }, [routeRequestId, searchParams, requests, loading, network]);
+
+  // Other tools open requests through /open?uri=confidentialpay:...
+  useEffect(() => {
+    const uri = searchParams.get("uri");
+    if (routeRequestId || uri === null) return;
+    try {
+      navigate(requestPath(parseRequestUri(uri)), { replace: true });
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Invalid request URI: " + e.message });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      navigate("/", { replace: true });
+    }
+  }, [routeRequestId, searchParams]);
+
+  // A pasted request URI opens that request instead of filtering the list
+  const handleSearch = (value: string) => {
+    if (isRequestUri(value.trim())) {
+      setSearchTerm("");
+      navigate(requestPath(parseRequestUri(value.trim())));
+      return;
+    }
+    setSearchTerm(value);
+  };
+
+  // Show values decrypted earlier in this session without asking for another signature
+  useEffect(() => {
+    if (!selectedRequest || !address) return;
+    const amount = getCachedDecryption(address, selectedRequest.encryptedAmount);
+    const paid = getCachedDecryption(address, selectedRequest.encryptedPaid);
+    const noteKey = getCachedDecryption(address, selectedRequest.noteKeyHandle);
+    if (typeof amount !== "bigint" || typeof paid !== "bigint" || typeof noteKey !== "bigint") return;
+    openNote(noteKey, selectedRequest.encryptedNote)
+      .then(note => setDecryptedData({ ...EMPTY_DECRYPTION, amount: Number(formatAmount(amount)), paidAmount: Number(formatAmount(paid)), note }))
+      .catch(() => {});
+  }, [selectedRequest, address]);
+
+  // Invoice lines are only needed for the request being viewed
+  const selectedRequestId = selectedRequest?.id;
+  useEffect(() => {
+    setSelectedLineItems([]);
+    if (!selectedRequestId) return;
+    getLedgerReadOnly()
+      .then(ledger => ledger?.getLineItems(selectedRequestId))
+      .then(lines => setSelectedLineItems((lines ?? []).map(line => ({
+        details: line.details,
+        quantityHandle: line.quantity,
+        unitPriceHandle: line.unitPrice
+      }))))
+      .catch(e => console.error("Error loading line items:", e));
+  }, [selectedRequestId]);
+
+  // Totals belong to one account on one chain; a refresh keeps them until they are decrypted again
+  useEffect(() => {
+    setTotals(null);
+  }, [address, network]);
+
+  const applyLedgerState = (state: LedgerState) => {
+    const loaded = [...state.requests].sort(([a], [b]) => a - b).map(([id, record]) => toPaymentRequest(id, record));
+    setRequests(loaded);
+    setSeries([...state.series].sort(([a], [b]) => a - b).map(([id, record]) => toRecurringSeries(id, record)));
+    setSplits([...state.splits].sort(([a], [b]) => a - b).map(([id, record]) => toSplitBill(id, record)));
+    // Keep an open detail modal in sync with the new status
+    setSelectedRequest(prev => prev ? loaded.find(r => r.id === prev.id) ?? null : null);
+  };
 
-  // Load data from contract
+  // Catch the indexer up to the latest block; the subscription applies whatever changed
   const loadData = async () => {
+    const indexer = indexerRef.current;
+    if (!indexer) return;
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        setTransactionStatus({ visible: true, status: "success", message: "Contract is available!" });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-      }
-      
-      // Load payment requests
-      const requestsBytes = await contract.getData("payment_requests");
-      let requestsList: PaymentRequest[] = [];
-      if (requestsBytes.length > 0) {
-        try {
-          const requestsStr = ethers.toUtf8String(requestsBytes);
-          if (requestsStr.trim() !== '') requestsList = JSON.parse(requestsStr);
-        } catch (e) {}
-      }
-      setRequests(requestsList);
+      await indexer.sync();
     } catch (e) {
       console.error("Error loading data:", e);
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
@@ -108,40 +619,62 @@ const App: React.FC = () => {
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return; 
     }
+    const payers = newRequestData.split ? splitPayerList(newRequestData.splitPayers) : [newRequestData.payer];
+    if (payers.some(payer => !ethers.isAddress(payer) || normAddr(payer) === normAddr(address))) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please enter a valid payer address" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
     
     setCreatingRequest(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Creating payment request with Zama FHE..." });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      // Create new request
-      const amount = parseFloat(newRequestData.amount);
-      const newRequest: PaymentRequest = {
-        id: requests.length + 1,
-        amount: amount,
-        encryptedAmount: FHEEncryptNumber(amount),
-        encryptedNote: `FHE-${btoa(newRequestData.note)}`,
-        note: newRequestData.note,
-        timestamp: Math.floor(Date.now() / 1000),
-        requester: address,
-        paid: false
-      };
-      
-      // Update requests list
-      const updatedRequests = [...requests, newRequest];
+      const ledger = await getLedgerWithSigner();
       
-      // Save to contract
-      await contract.setData("payment_requests", ethers.toUtf8Bytes(JSON.stringify(updatedRequests)));
+      // Store the request as its own record, a split with one share request per payer,
+      // or a series the ledger turns into one request per occurrence
+      const ledgerAddress = await ledger.getAddress();
+      const dueDate = toTimestamp(newRequestData.dueDate);
+      const expiresAt = toTimestamp(newRequestData.expiresAt);
+      let tx: ethers.ContractTransactionResponse;
+      if (newRequestData.split) {
+        // A custom split encrypts one share per payer, an equal split only the total
+        const customSplit = newRequestData.splitMode === "custom";
+        const amounts = customSplit ? payers.map((_, i) => parseAmount(newRequestData.splitShares[i])) : [parseAmount(newRequestData.amount)];
+        const encrypted = await encryptRequestAmounts(ledgerAddress, address, amounts, newRequestData.note);
+        tx = customSplit
+          ? await ledger.createSplit(payers, newRequestData.token, dueDate, expiresAt, encrypted.amountHandles, encrypted.noteKeyHandle, encrypted.noteCiphertext, encrypted.inputProof)
+          : await ledger.createEqualSplit(payers, newRequestData.token, dueDate, expiresAt, encrypted.amountHandles[0], encrypted.noteKeyHandle, encrypted.noteCiphertext, encrypted.inputProof);
+      } else if (newRequestData.itemized) {
+        // Descriptions are sealed with the note key; the contract totals the encrypted quantities and prices
+        const lines = newRequestData.lineItems.map(line => ({ description: line.description, quantity: Number(line.quantity), unitPrice: parseAmount(line.unitPrice) }));
+        const encrypted = await encryptInvoice(ledgerAddress, address, lines, newRequestData.note);
+        tx = await ledger.createInvoice(newRequestData.payer, newRequestData.token, dueDate, expiresAt, encrypted.lineDetails, encrypted.quantityHandles, encrypted.unitPriceHandles, encrypted.noteKeyHandle, encrypted.noteCiphertext, encrypted.inputProof);
+      } else {
+        // Encrypt amount and note with the relayer SDK
+        const encrypted = await encryptPaymentRequest(ledgerAddress, address, parseAmount(newRequestData.amount), newRequestData.note);
+        if (newRequestData.repeat) {
+          const now = Math.floor(Date.now() / 1000);
+          const startAt = newRequestData.startDate ? Math.max(now, Math.floor(new Date(`${newRequestData.startDate}T00:00:00`).getTime() / 1000)) : now;
+          tx = await ledger.createSeries(newRequestData.payer, newRequestData.token, startAt, Number(newRequestData.repeat), toTimestamp(newRequestData.endDate), Number(newRequestData.occurrences || 0), Number(newRequestData.dueAfterDays || 0) * DAY_SECONDS, encrypted.amountHandle, encrypted.noteKeyHandle, encrypted.noteCiphertext, encrypted.inputProof);
+        } else {
+          tx = await ledger.createRequest(newRequestData.payer, newRequestData.token, dueDate, expiresAt, encrypted.amountHandle, encrypted.noteKeyHandle, encrypted.noteCiphertext, encrypted.inputProof);
+        }
+      }
+      await submitted(tx, newRequestData.split ? "Create split request" : newRequestData.itemized ? "Create invoice" : newRequestData.repeat ? "Create recurring request" : "Create payment request");
       
       // Update user actions
       const newAction: UserAction = {
         type: 'create',
         timestamp: Math.floor(Date.now() / 1000),
-        details: `Created payment request: ${amount} ETH`
+        details: newRequestData.split
+          ? `Created split request between ${payers.length} payers`
+          : newRequestData.itemized
+          ? `Created invoice with ${newRequestData.lineItems.length} line items to ${newRequestData.payer.substring(0, 6)}...${newRequestData.payer.substring(38)}`
+          : `Created ${newRequestData.repeat ? "recurring " : ""}payment request: ${newRequestData.amount} ${currencyOf(newRequestData.token)} to ${newRequestData.payer.substring(0, 6)}...${newRequestData.payer.substring(38)}`
       };
-      setUserActions(prev => [newAction, ...prev]);
+      recordAction(newAction);
       
       setTransactionStatus({ visible: true, status: "success", message: "Payment request created successfully!" });
       await loadData();
@@ -149,80 +682,229 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewRequestData({ amount: "", note: "" });
+        setNewRequestData(EMPTY_REQUEST_DATA);
       }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Submission failed: " + (e.message || "Unknown error");
-      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage(e, "Submission failed") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
       setCreatingRequest(false); 
     }
   };
 
-  // Pay request
-  const payRequest = async (requestId: number) => {
-    if (!isConnected || !address) { 
+  // Pay request: ETH is escrowed and token amounts are pulled by the ledger; the contract settles once the
+  // oracle confirms the payment fits the encrypted outstanding amount. Without `amount` the whole rest is paid.
+  const payRequest = async (request: PaymentRequest, amount?: string) => {
+    if (!isConnected || !address) {
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return; 
+      return;
     }
-    
+
     setTransactionStatus({ visible: true, status: "pending", message: "Processing payment with Zama FHE..." });
-    
+
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      // Find the request
-      const requestIndex = requests.findIndex(r => r.id === requestId);
-      if (requestIndex === -1) throw new Error("Request not found");
-      
-      // Update payment status
-      const updatedRequests = [...requests];
-      updatedRequests[requestIndex].paid = true;
-      
-      // Save to contract
-      await contract.setData("payment_requests", ethers.toUtf8Bytes(JSON.stringify(updatedRequests)));
-      
+      const ledger = await getLedgerWithSigner();
+      const ledgerAddress = await ledger.getAddress();
+
+      let tx: ethers.ContractTransactionResponse;
+      if (request.token === ethers.ZeroAddress) {
+        let due: bigint;
+        if (amount) {
+          due = parseAmount(amount);
+        } else {
+          const session = await decryptionSource(address);
+          const values = await userDecrypt(session, [request.encryptedAmount, request.encryptedPaid]);
+          due = BigInt(values[request.encryptedAmount]) - BigInt(values[request.encryptedPaid]);
+          saveDecrypted(address);
+        }
+        tx = await ledger.payRequest(request.id, { value: ethers.parseEther(formatAmount(due)) });
+      } else {
+        const token = await getTokenWithSigner();
+        if (!(await token.isOperator(address, ledgerAddress))) {
+          setTransactionStatus({ visible: true, status: "pending", message: `Approving ledger to transfer ${network.contracts.tokenSymbol}...` });
+          await submitted(await token.setOperator(ledgerAddress, true), `Approve ledger for ${network.contracts.tokenSymbol}`);
+        }
+        if (amount) {
+          const encrypted = await encryptAmount(ledgerAddress, address, parseAmount(amount));
+          tx = await ledger.payRequestAmount(request.id, encrypted.handle, encrypted.inputProof);
+        } else {
+          tx = await ledger.payRequest(request.id);
+        }
+      }
+      await submitted(tx, `Pay request #${request.id}`);
+
       // Update user actions
       const newAction: UserAction = {
         type: 'pay',
         timestamp: Math.floor(Date.now() / 1000),
-        details: `Paid request: ${updatedRequests[requestIndex].amount} ETH`
+        details: amount ? `Paid ${amount} ${currencyOf(request.token)} towards request #${request.id}` : `Paid request #${request.id}`
       };
-      setUserActions(prev => [newAction, ...prev]);
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Payment recorded with FHE encryption!" });
+      recordAction(newAction);
+
+      setTransactionStatus({ visible: true, status: "success", message: "Payment submitted, awaiting encrypted settlement check" });
       await loadData();
-      
+
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Payment failed: " + (e.message || "Unknown error");
-      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage(e, "Payment failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Cancel, reject or expire a request; the ledger checks who may do which
+  const changeRequestStatus = async (request: PaymentRequest, action: Exclude<RequestAction, 'pay'>) => {
+    if (!isConnected || !address) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+
+    setTransactionStatus({ visible: true, status: "pending", message: "Updating request status..." });
+
+    try {
+      const ledger = await getLedgerWithSigner();
+      const tx = action === 'cancel' ? await ledger.cancelRequest(request.id)
+        : action === 'reject' ? await ledger.rejectRequest(request.id)
+        : await ledger.expireRequest(request.id);
+      await submitted(tx, `${ACTION_LABELS[action]}: request #${request.id}`);
+
+      // Update user actions
+      const newAction: UserAction = {
+        type: action,
+        timestamp: Math.floor(Date.now() / 1000),
+        details: `${ACTION_LABELS[action]}: request #${request.id}`
+      };
+      recordAction(newAction);
+
+      setTransactionStatus({ visible: true, status: "success", message: "Request status updated" });
+      await loadData();
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage(e, "Status update failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Issue due occurrences (anyone) or pause, resume and cancel a series (requester only)
+  const changeSeries = async (target: RecurringSeries, action: SeriesAction) => {
+    if (!isConnected || !address) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+
+    setTransactionStatus({ visible: true, status: "pending", message: "Updating recurring request..." });
+
+    try {
+      const ledger = await getLedgerWithSigner();
+      const tx = action === 'issue' ? await ledger.issueDueOccurrences(target.id)
+        : action === 'pause' ? await ledger.pauseSeries(target.id)
+        : action === 'resume' ? await ledger.resumeSeries(target.id)
+        : await ledger.cancelSeries(target.id);
+      await submitted(tx, `${SERIES_ACTION_LABELS[action]}: recurring request #${target.id}`);
+
+      // Update user actions
+      const newAction: UserAction = {
+        type: 'series',
+        timestamp: Math.floor(Date.now() / 1000),
+        details: `${SERIES_ACTION_LABELS[action]}: recurring request #${target.id}`
+      };
+      recordAction(newAction);
+
+      setTransactionStatus({ visible: true, status: "success", message: "Recurring request updated" });
+      await loadData();
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage(e, "Recurring request update failed") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  // Decrypt data with signature
-  const decryptWithSignature = async (encryptedAmount: string, encryptedNote: string): Promise<{ amount: number | null; note: string | null }> => {
-    if (!isConnected) { 
+  const signDecryptRequest = (typedData: EIP712) => signTypedDataAsync({
+    domain: { ...typedData.domain, verifyingContract: typedData.domain.verifyingContract as `0x${string}` },
+    types: { UserDecryptRequestVerification: typedData.types.UserDecryptRequestVerification },
+    primaryType: "UserDecryptRequestVerification",
+    message: typedData.message
+  });
+
+  const cacheKeys = useRef(new Map<string, CryptoKey | null>());
+
+  // Unlocks the values saved on earlier visits once per session; declining only turns off saving
+  const unlockDecryptions = async (account: string) => {
+    const scope = cacheScope(account);
+    if (cacheKeys.current.has(scopeKey(scope))) return;
+    try {
+      const key = await deriveCacheKey(scope, await signMessageAsync({ message: cacheKeyMessage(scope) }));
+      importDecryptions(account, await loadDecryptions(scope, key));
+      cacheKeys.current.set(scopeKey(scope), key);
+    } catch (e) {
+      console.warn("Saved decryptions stay locked:", e);
+      cacheKeys.current.set(scopeKey(scope), null);
+    }
+  };
+
+  // Saved values are tried first, so a user-decrypt signature is only requested for new handles
+  const decryptionSource = async (account: string) => {
+    await unlockDecryptions(account);
+    return deferDecryptionSession(account, network.contracts.ledger, signDecryptRequest);
+  };
+
+  const saveDecrypted = (account: string) => {
+    const scope = cacheScope(account);
+    const key = cacheKeys.current.get(scopeKey(scope));
+    if (!key) return;
+    saveDecryptions(scope, key, exportDecryptions(account))
+      .catch(e => console.warn("Could not save decryptions:", e));
+  };
+
+  // Decrypt data with an EIP-712 user-decrypt signature
+  const decryptWithSignature = async (request: PaymentRequest): Promise<DecryptedData> => {
+    if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return { amount: null, note: null }; 
+      return EMPTY_DECRYPTION; 
     }
     
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const session = await decryptionSource(address);
+      const decrypted = await decryptPaymentRequest(session, {
+        amountHandle: request.encryptedAmount,
+        paidHandle: request.encryptedPaid,
+        noteKeyHandle: request.noteKeyHandle,
+        noteCiphertext: request.encryptedNote
+      });
+      let lines: DecryptedLineItem[] | null = null;
+      if (request.id === selectedRequestId && selectedLineItems.length > 0) {
+        // The note key is cached by now, so this only asks the relayer for the quantities and unit prices
+        const values = await userDecrypt(session, [
+          request.noteKeyHandle,
+          ...selectedLineItems.flatMap(line => [line.quantityHandle, line.unitPriceHandle])
+        ]);
+        const noteKey = BigInt(values[request.noteKeyHandle]);
+        lines = await Promise.all(selectedLineItems.map(async line => ({
+          description: await openNote(noteKey, line.details),
+          quantity: Number(values[line.quantityHandle]),
+          unitPrice: Number(formatAmount(BigInt(values[line.unitPriceHandle])))
+        })));
+      }
+      // The paid-share counter of a split is only shared with its requester
+      const split = splits.find(s => s.id === request.splitId);
+      let paidShares: number | null = null;
+      if (split && normAddr(split.requester) === normAddr(address)) {
+        const values = await userDecrypt(session, [split.paidSharesHandle]);
+        paidShares = Number(values[split.paidSharesHandle]);
+      }
+      saveDecrypted(address);
       
       // Update user actions
       const newAction: UserAction = {
@@ -230,14 +912,52 @@ const App: React.FC = () => {
         timestamp: Math.floor(Date.now() / 1000),
         details: "Decrypted FHE payment data"
       };
-      setUserActions(prev => [newAction, ...prev]);
+      recordAction(newAction);
       
       return {
-        amount: FHEDecryptNumber(encryptedAmount),
-        note: encryptedNote.startsWith('FHE-') ? atob(encryptedNote.substring(4)) : encryptedNote
+        amount: Number(formatAmount(decrypted.amount)),
+        paidAmount: Number(formatAmount(decrypted.paid)),
+        note: decrypted.note,
+        paidShares,
+        lines
       };
     } catch (e) { 
-      return { amount: null, note: null }; 
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage(e, "Decryption failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+
+      return EMPTY_DECRYPTION; 
+    } finally { 
+      setIsDecrypting(false); 
+    }
+  };
+
+  // Decrypt the requester's encrypted running totals for ETH requests
+  const decryptTotals = async () => {
+    if (!isConnected || !address) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return; 
+    }
+    
+    setIsDecrypting(true);
+    try {
+      const ledger = await getLedgerReadOnly();
+      if (!ledger) return;
+      const { requested, paid, outstanding } = await ledger.getTotals(address, ethers.ZeroAddress);
+      // Accounts that never created a request have no handles yet
+      if (requested === ethers.ZeroHash) {
+        setTotals({ requested: 0, paid: 0, outstanding: 0 });
+        return;
+      }
+      
+      const session = await decryptionSource(address);
+      const values = await userDecrypt(session, [requested, paid, outstanding]);
+      saveDecrypted(address);
+      const toEth = (handle: string) => Number(formatAmount(BigInt(values[handle])));
+      setTotals({ requested: toEth(requested), paid: toEth(paid), outstanding: toEth(outstanding) });
+    } catch (e) { 
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage(e, "Decryption failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
       setIsDecrypting(false); 
     }
@@ -247,9 +967,9 @@ const App: React.FC = () => {
   const renderPaymentStats = () => {
     const totalRequests = requests.length;
     const paidRequests = requests.filter(r => r.paid).length;
-    const unpaidRequests = totalRequests - paidRequests;
-    const totalAmount = requests.reduce((sum, r) => sum + r.amount, 0);
-    const paidAmount = requests.filter(r => r.paid).reduce((sum, r) => sum + r.amount, 0);
+    const unpaidRequests = requests.filter(r => OPEN_STATUSES.includes(r.status) || r.status === RequestStatus.Settling).length;
+    const overdueRequests = requests.filter(isOverdue).length;
+    const formatTotal = (value?: number) => value === undefined ? "🔒" : value.toFixed(2);
     
     return (
       <div className="stats-grid">
@@ -266,13 +986,30 @@ const App: React.FC = () => {
           <div className="stat-label">Unpaid</div>
         </div>
         <div className="stat-card">
-          <div className="stat-value">{totalAmount.toFixed(2)}</div>
+          <div className="stat-value">{overdueRequests}</div>
+          <div className="stat-label">Overdue</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-value">{formatTotal(totals?.requested)}</div>
           <div className="stat-label">Total ETH</div>
         </div>
         <div className="stat-card">
-          <div className="stat-value">{paidAmount.toFixed(2)}</div>
+          <div className="stat-value">{formatTotal(totals?.paid)}</div>
           <div className="stat-label">Paid ETH</div>
         </div>
+        <div className="stat-card">
+          <div className="stat-value">{formatTotal(totals?.outstanding)}</div>
+          <div className="stat-label">Outstanding ETH</div>
+        </div>
+        {totals === null && (
+          <button 
+            className="decrypt-btn" 
+            onClick={decryptTotals} 
+            disabled={isDecrypting || !isConnected}
+          >
+            {isDecrypting ? "Decrypting..." : "Decrypt My Totals"}
+          </button>
+        )}
       </div>
     );
   };
@@ -316,6 +1053,30 @@ const App: React.FC = () => {
     );
   };
 
+  // Render RPC endpoint health, by host only: endpoint paths often carry API keys
+  const renderRpcHealth = () => {
+    if (rpcHealth.length === 0) return <div className="no-data">No RPC endpoints configured</div>;
+
+    return (
+      <div className="actions-list">
+        {rpcHealth.map(endpoint => (
+          <div className="action-item" key={endpoint.url}>
+            <div className={`endpoint-status ${endpoint.healthy ? 'healthy' : 'cooling'}`}></div>
+            <div className="action-details">
+              <div className="action-text">{new URL(endpoint.url).host}</div>
+              <div className="action-time">
+                {endpoint.latencyMs === null ? "No successful calls yet" : `${endpoint.latencyMs} ms`}
+                {` · ${Math.round(endpoint.errorRate * 100)}% errors · ${endpoint.requests} calls, ${endpoint.failures} failed`}
+                {!endpoint.healthy && " · cooling down"}
+              </div>
+              {endpoint.lastError && <div className="action-time">Last error: {endpoint.lastError}</div>}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   // Render user actions history
   const renderUserActions = () => {
     if (userActions.length === 0) return <div className="no-data">No actions recorded</div>;
@@ -328,6 +1089,10 @@ const App: React.FC = () => {
               {action.type === 'create' && '📝'}
               {action.type === 'pay' && '💰'}
               {action.type === 'decrypt' && '🔓'}
+              {action.type === 'cancel' && '🚫'}
+              {action.type === 'reject' && '↩️'}
+              {action.type === 'expire' && '⌛'}
+              {action.type === 'series' && '🔁'}
             </div>
             <div className="action-details">
               <div className="action-text">{action.details}</div>
@@ -376,13 +1141,83 @@ const App: React.FC = () => {
     );
   };
 
-  // Filter requests based on search term
-  const filteredRequests = requests.filter(request => 
-    request.note.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    request.amount.toString().includes(searchTerm) ||
-    request.requester.toLowerCase().includes(searchTerm.toLowerCase())
+  // Filter requests by relationship to the connected account, then by search term
+  const filteredRequests = requests
+    .filter(request => normAddr(requestView === 'incoming' ? request.payer : request.requester) === normAddr(address ?? ""))
+    .filter(request => 
+      (request.note ?? "").toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (request.amount ?? "").toString().includes(searchTerm) ||
+      request.requester.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      request.payer.toLowerCase().includes(searchTerm.toLowerCase())
+    );
+
+  // Series the connected account bills or is billed by
+  const mySeries = series.filter(s =>
+    normAddr(s.requester) === normAddr(address ?? "") || normAddr(s.payer) === normAddr(address ?? "")
   );
 
+  // Render recurring series with their next occurrences
+  const renderSeries = () => {
+    if (mySeries.length === 0) {
+      return (
+        <div className="no-requests">
+          <p>{!isConnected ? "Connect your wallet to see your recurring requests" : "No recurring requests yet"}</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="requests-list">
+        {mySeries.map(s => {
+          const isRequester = normAddr(s.requester) === normAddr(address ?? "");
+          const upcoming = upcomingOccurrences(s);
+          const status = seriesStatus(s);
+          const isDue = upcoming.length > 0 && upcoming[0] <= Date.now() / 1000;
+          return (
+            <div className="request-item series-item" key={s.id}>
+              <div className="request-header">
+                <div className="request-amount">{intervalLabel(s.interval)}</div>
+                <div className={`request-status ${status.toLowerCase()}`}>{status}</div>
+              </div>
+              <div className="request-requester">
+                {isRequester
+                  ? `To: ${s.payer.substring(0, 6)}...${s.payer.substring(38)}`
+                  : `From: ${s.requester.substring(0, 6)}...${s.requester.substring(38)}`}
+                {` · ${currencyOf(s.token)}`}
+              </div>
+              <div className="request-time">
+                {s.nextIndex} issued
+                {s.maxOccurrences !== 0 && ` of ${s.maxOccurrences}`}
+                {s.endAt !== 0 && `, ends ${new Date(s.endAt * 1000).toLocaleDateString()}`}
+              </div>
+              {upcoming.length > 0 && (
+                <div className="upcoming-occurrences">
+                  <span>Upcoming:</span>
+                  {upcoming.map(date => (
+                    <div className="due-indicator" key={date}>{new Date(date * 1000).toLocaleDateString()}</div>
+                  ))}
+                </div>
+              )}
+              <div className="request-actions">
+                {isDue && (
+                  <button className="action-btn" onClick={() => changeSeries(s, 'issue')}>{SERIES_ACTION_LABELS.issue}</button>
+                )}
+                {isRequester && !s.cancelled && status !== "Finished" && (
+                  <>
+                    <button className="action-btn" onClick={() => changeSeries(s, s.paused ? 'resume' : 'pause')}>
+                      {SERIES_ACTION_LABELS[s.paused ? 'resume' : 'pause']}
+                    </button>
+                    <button className="action-btn danger" onClick={() => changeSeries(s, 'cancel')}>{SERIES_ACTION_LABELS.cancel}</button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
   if (loading) return (
     <div className="loading-screen">
       <div className="fhe-spinner"></div>
@@ -412,6 +1247,19 @@ const App: React.FC = () => {
           </div>
         </div>
       </header>
+
+      {walletChainId !== undefined && !getNetwork(walletChainId) && (
+        <div className="network-notice">
+          Your wallet is on an unsupported network (chain {walletChainId}). Showing requests on {network.name}; switch
+          networks to send transactions.{" "}
+          <button className="action-btn" onClick={() => switchChain({ chainId: network.chainId })} disabled={switchingChain}>
+            {switchingChain ? "Switching..." : `Switch to ${network.name}`}
+          </button>
+        </div>
+      )}
+      {!network.contracts.ledger && (
+        <div className="network-notice">The payment request ledger is not deployed on {network.name} yet.</div>
+      )}
       
       <div className="main-content-container">
         <div className="dashboard-section">
@@ -446,12 +1294,24 @@ const App: React.FC = () => {
               >
                 Payment Requests
               </button>
+              <button 
+                className={`tab ${activeTab === 'recurring' ? 'active' : ''}`}
+                onClick={() => setActiveTab('recurring')}
+              >
+                Recurring
+              </button>
               <button 
                 className={`tab ${activeTab === 'actions' ? 'active' : ''}`}
                 onClick={() => setActiveTab('actions')}
               >
                 My Actions
               </button>
+              <button 
+                className={`tab ${activeTab === 'network' ? 'active' : ''}`}
+                onClick={() => setActiveTab('network')}
+              >
+                Network
+              </button>
               <button 
                 className={`tab ${activeTab === 'faq' ? 'active' : ''}`}
                 onClick={() => setActiveTab('faq')}
@@ -464,14 +1324,27 @@ const App: React.FC = () => {
               {activeTab === 'requests' && (
                 <div className="requests-section">
                   <div className="section-header">
-                    <h2>Payment Requests</h2>
+                    <div className="request-views">
+                      <button 
+                        className={`view-btn ${requestView === 'incoming' ? 'active' : ''}`}
+                        onClick={() => setRequestView('incoming')}
+                      >
+                        Requests to me
+                      </button>
+                      <button 
+                        className={`view-btn ${requestView === 'outgoing' ? 'active' : ''}`}
+                        onClick={() => setRequestView('outgoing')}
+                      >
+                        Requests I sent
+                      </button>
+                    </div>
                     <div className="header-actions">
                       <div className="search-container">
                         <input
                           type="text"
-                          placeholder="Search requests..."
+                          placeholder="Search or paste a request URI..."
                           value={searchTerm}
-                          onChange={(e) => setSearchTerm(e.target.value)}
+                          onChange={(e) => handleSearch(e.target.value)}
                         />
                         <div className="search-icon"></div>
                       </div>
@@ -489,7 +1362,7 @@ const App: React.FC = () => {
                     {filteredRequests.length === 0 ? (
                       <div className="no-requests">
                         <div className="no-requests-icon"></div>
-                        <p>No payment requests found</p>
+                        <p>{!isConnected ? "Connect your wallet to see your payment requests" : "No payment requests found"}</p>
                         <button 
                           className="create-btn" 
                           onClick={() => setShowCreateModal(true)}
@@ -504,20 +1377,42 @@ const App: React.FC = () => {
                         onClick={() => setSelectedRequest(request)}
                       >
                         <div className="request-header">
-                          <div className="request-amount">{request.amount} ETH</div>
-                          <div className={`request-status ${request.paid ? "paid" : "unpaid"}`}>
-                            {request.paid ? "Paid" : "Unpaid"}
+                          <div className="request-amount">{request.amount !== null ? `${request.amount} ${currencyOf(request.token)}` : "Encrypted"}</div>
+                          <div className={`request-status ${STATUS_CLASSES[request.status]}`}>
+                            {STATUS_LABELS[request.status]}
                           </div>
                         </div>
-                        <div className="request-requester">From: {request.requester.substring(0, 6)}...{request.requester.substring(38)}</div>
+                        <div className="request-requester">
+                          {requestView === 'incoming'
+                            ? `From: ${request.requester.substring(0, 6)}...${request.requester.substring(38)}`
+                            : `To: ${request.payer.substring(0, 6)}...${request.payer.substring(38)}`}
+                        </div>
                         <div className="request-encrypted">Encrypted Note: {request.encryptedNote.substring(0, 15)}...</div>
                         <div className="request-time">{new Date(request.timestamp * 1000).toLocaleString()}</div>
+                        {request.seriesId !== 0 && <div className="series-badge">🔁 Recurring #{request.seriesId}</div>}
+                        {request.splitId !== 0 && <div className="series-badge">👥 Split #{request.splitId}</div>}
+                        {dueLabel(request) && (
+                          <div className={`due-indicator ${isOverdue(request) ? "overdue" : ""}`}>{dueLabel(request)}</div>
+                        )}
+                        <RequestActions 
+                          request={request} 
+                          address={address} 
+                          payRequest={payRequest} 
+                          changeRequestStatus={changeRequestStatus}
+                        />
                       </div>
                     ))}
                   </div>
                 </div>
               )}
               
+              {activeTab === 'recurring' && (
+                <div className="requests-section">
+                  <h2>Recurring Requests</h2>
+                  {renderSeries()}
+                </div>
+              )}
+              
               {activeTab === 'actions' && (
                 <div className="actions-section">
                   <h2>My Activity History</h2>
@@ -525,6 +1420,13 @@ const App: React.FC = () => {
                 </div>
               )}
               
+              {activeTab === 'network' && (
+                <div className="actions-section">
+                  <h2>{network.name} RPC Endpoints</h2>
+                  {renderRpcHealth()}
+                </div>
+              )}
+              
               {activeTab === 'faq' && (
                 <div className="faq-section">
                   <h2>Frequently Asked Questions</h2>
@@ -551,28 +1453,80 @@ const App: React.FC = () => {
           request={selectedRequest} 
           onClose={() => { 
             setSelectedRequest(null); 
-            setDecryptedData({ amount: null, note: null }); 
+            setDecryptedData(EMPTY_DECRYPTION); 
+            if (routeRequestId) navigate("/", { replace: true });
           }} 
           decryptedData={decryptedData} 
           setDecryptedData={setDecryptedData} 
           isDecrypting={isDecrypting} 
           decryptWithSignature={decryptWithSignature}
           payRequest={payRequest}
+          changeRequestStatus={changeRequestStatus}
+          splitShares={selectedRequest.splitId !== 0 ? requests.filter(r => r.splitId === selectedRequest.splitId) : []}
+          lineItems={selectedLineItems}
+          shareLocation={network.contracts.ledger ? { chainId: network.chainId, contract: network.contracts.ledger, requestId: selectedRequest.id } : null}
           isConnected={isConnected}
           address={address}
+          onError={message => {
+            setTransactionStatus({ visible: true, status: "error", message });
+            setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+          }}
         />
       )}
       
-      {transactionStatus.visible && (
-        <div className="transaction-modal">
-          <div className="transaction-content">
-            <div className={`transaction-icon ${transactionStatus.status}`}>
-              {transactionStatus.status === "pending" && <div className="fhe-spinner"></div>}
-              {transactionStatus.status === "success" && <div className="success-icon">✓</div>}
-              {transactionStatus.status === "error" && <div className="error-icon">✗</div>}
+      {toasts.length > 0 && (
+        <div className="toast-stack">
+          {toasts.map(toast => (
+            <div key={toast.id} className="toast" onClick={() => dismissToast(toast.id)}>
+              {toast.message}
             </div>
-            <div className="transaction-message">{transactionStatus.message}</div>
-          </div>
+          ))}
+        </div>
+      )}
+
+      {(transactionStatus.visible || trackedTxs.length > 0) && (
+        <div className="transaction-tray">
+          {transactionStatus.visible && (
+            <div className="tray-item">
+              <div className={`transaction-icon ${transactionStatus.status}`}>
+                {transactionStatus.status === "pending" && <div className="fhe-spinner"></div>}
+                {transactionStatus.status === "success" && <div className="success-icon">✓</div>}
+                {transactionStatus.status === "error" && <div className="error-icon">✗</div>}
+              </div>
+              <div className="transaction-message">{transactionStatus.message}</div>
+            </div>
+          )}
+          {trackedTxs.map(tx => {
+            const icon = transactionIcon(tx);
+            // Only the newest transaction at a nonce can be sped up or cancelled again
+            const replaceable = tx.status === "pending" && !!address && normAddr(tx.from) === normAddr(address)
+              && !trackedTxs.some(other => other.replaces === tx.hash && other.status === "pending");
+            return (
+              <div key={tx.hash} className="tray-item">
+                <div className={`transaction-icon ${icon}`}>
+                  {icon === "pending" && <div className="fhe-spinner"></div>}
+                  {icon === "success" && <div className="success-icon">✓</div>}
+                  {icon === "error" && <div className="error-icon">✗</div>}
+                </div>
+                <div className="tray-body">
+                  <div className="transaction-message">{tx.label}</div>
+                  <div className="tray-status">
+                    <span>{describeTransaction(tx)}</span>
+                    {network.explorerUrl && <a href={`${network.explorerUrl}/tx/${tx.hash}`} target="_blank" rel="noreferrer">View</a>}
+                  </div>
+                  {replaceable && (
+                    <div className="tray-actions">
+                      <button className="tray-button" onClick={() => replaceTransaction(tx.hash, "speedUp")}>Speed up</button>
+                      <button className="tray-button" onClick={() => replaceTransaction(tx.hash, "cancel")}>Cancel</button>
+                    </div>
+                  )}
+                </div>
+                {icon !== "pending" && (
+                  <button className="tray-dismiss" onClick={() => transactionsRef.current?.dismiss(tx.hash)}>×</button>
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
       
@@ -618,10 +1572,33 @@ interface ModalCreateRequestProps {
 }
 
 const ModalCreateRequest: React.FC<ModalCreateRequestProps> = ({ onSubmit, onClose, creating, requestData, setRequestData }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const { token, tokenSymbol } = activeNetwork().contracts;
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setRequestData({ ...requestData, [name]: value });
   };
+  const today = new Date().toISOString().split("T")[0];
+  // A series needs an end, either a date or an occurrence count
+  const missingEnd = requestData.repeat && !requestData.endDate && !requestData.occurrences;
+  const splitPayers = splitPayerList(requestData.splitPayers);
+  const setShare = (index: number, value: string) => {
+    const shares = [...requestData.splitShares];
+    shares[index] = value;
+    setRequestData({ ...requestData, splitShares: shares });
+  };
+  // Custom shares only have to be filled in for the payers listed
+  const draftTotal = lineTotal(1, requestData.lineItems.reduce((sum: number, line: LineItemDraft) => sum + Number(line.quantity) * Number(line.unitPrice || 0), 0));
+  const setLine = (index: number, change: Partial<LineItemDraft>) => {
+    const lines = requestData.lineItems.map((line: LineItemDraft, i: number) => i === index ? { ...line, ...change } : line);
+    setRequestData({ ...requestData, lineItems: lines });
+  };
+  const badQuantity = requestData.itemized && requestData.lineItems.some((line: LineItemDraft) => line.quantity !== "" && !isWholeQuantity(line.quantity));
+  const missingAmount = requestData.itemized
+    ? requestData.lineItems.some((line: LineItemDraft) => !line.description || !isWholeQuantity(line.quantity) || !line.unitPrice)
+    : requestData.split && requestData.splitMode === "custom"
+    ? splitPayers.length < 2 || splitPayers.some((_, i) => !requestData.splitShares[i])
+    : !requestData.amount;
+  const missingPayer = requestData.split ? splitPayers.length < 2 : !requestData.payer;
 
   return (
     <div className="modal-overlay">
@@ -640,26 +1617,242 @@ const ModalCreateRequest: React.FC<ModalCreateRequestProps> = ({ onSubmit, onClo
             </div>
           </div>
           
-          <div className="form-group">
-            <label>Amount (ETH) *</label>
-            <input 
-              type="number" 
-              name="amount" 
-              value={requestData.amount} 
-              onChange={handleChange} 
-              placeholder="Enter amount in ETH..." 
-              step="0.01"
-              min="0"
-            />
+          <div className="form-group checkbox-group">
+            <label>
+              <input 
+                type="checkbox" 
+                checked={requestData.split} 
+                onChange={(e) => setRequestData({ ...requestData, split: e.target.checked, itemized: false, repeat: "" })} 
+              />
+              Split between several payers
+            </label>
+            <label>
+              <input 
+                type="checkbox" 
+                checked={requestData.itemized} 
+                onChange={(e) => setRequestData({ ...requestData, itemized: e.target.checked, split: false, repeat: "" })} 
+              />
+              Itemize as an invoice
+            </label>
           </div>
           
+          {requestData.split ? (
+            <>
+              <div className="form-group">
+                <label>Payer Addresses * (one per line)</label>
+                <textarea 
+                  name="splitPayers" 
+                  value={requestData.splitPayers} 
+                  onChange={handleChange} 
+                  placeholder={"0x...\n0x..."} 
+                  rows={3}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Shares</label>
+                <select name="splitMode" value={requestData.splitMode} onChange={handleChange}>
+                  <option value="equal">Split the total equally</option>
+                  <option value="custom">Custom share per payer</option>
+                </select>
+                <small>Each payer can only decrypt their own share</small>
+              </div>
+              
+              {requestData.splitMode === "custom" && splitPayers.map((payer, i) => (
+                <div className="form-group" key={payer + i}>
+                  <label>Share for {payer.substring(0, 6)}...{payer.substring(38)} ({currencyOf(requestData.token)}) *</label>
+                  <input 
+                    type="number" 
+                    value={requestData.splitShares[i] ?? ""} 
+                    onChange={(e) => setShare(i, e.target.value)} 
+                    step="0.01"
+                    min="0"
+                  />
+                </div>
+              ))}
+            </>
+          ) : (
+            <div className="form-group">
+              <label>Payer Address *</label>
+              <input 
+                type="text" 
+                name="payer" 
+                value={requestData.payer} 
+                onChange={handleChange} 
+                placeholder="0x..." 
+              />
+            </div>
+          )}
+          
+          {token && (
+            <div className="form-group">
+              <label>Settle In *</label>
+              <select name="token" value={requestData.token} onChange={handleChange}>
+                <option value={ethers.ZeroAddress}>ETH (amount revealed on payment)</option>
+                <option value={token}>{tokenSymbol} (amount stays encrypted)</option>
+              </select>
+            </div>
+          )}
+          
+          {requestData.itemized && (
+            <div className="form-group">
+              <label>Line Items *</label>
+              <table className="line-items">
+                <thead>
+                  <tr>
+                    <th>Description</th>
+                    <th>Qty</th>
+                    <th>Unit Price ({currencyOf(requestData.token)})</th>
+                    <th>Total</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {requestData.lineItems.map((line: LineItemDraft, i: number) => (
+                    <tr key={i}>
+                      <td><input type="text" value={line.description} onChange={(e) => setLine(i, { description: e.target.value })} placeholder="Item" /></td>
+                      <td><input type="number" value={line.quantity} onChange={(e) => setLine(i, { quantity: e.target.value })} step="1" min="1" /></td>
+                      <td><input type="number" value={line.unitPrice} onChange={(e) => setLine(i, { unitPrice: e.target.value })} step="0.01" min="0" /></td>
+                      <td>{lineTotal(line.quantity, line.unitPrice || 0)}</td>
+                      <td>
+                        <button 
+                          className="action-btn danger" 
+                          onClick={() => setRequestData({ ...requestData, lineItems: requestData.lineItems.filter((_: LineItemDraft, j: number) => j !== i) })} 
+                          disabled={requestData.lineItems.length === 1}
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button 
+                className="action-btn" 
+                onClick={() => setRequestData({ ...requestData, lineItems: [...requestData.lineItems, { description: "", quantity: "1", unitPrice: "" }] })}
+              >
+                + Add Line
+              </button>
+              {badQuantity && <small className="field-error">Quantities must be whole numbers of at least 1</small>}
+              <small>
+                Total: {draftTotal} {currencyOf(requestData.token)}.
+                Quantities and unit prices are encrypted; the contract computes the encrypted total
+              </small>
+            </div>
+          )}
+          
+          {!(requestData.split && requestData.splitMode === "custom") && !requestData.itemized && (
+            <div className="form-group">
+              <label>{requestData.split ? "Total" : "Amount"} ({currencyOf(requestData.token)}) *</label>
+              <input 
+                type="number" 
+                name="amount" 
+                value={requestData.amount} 
+                onChange={handleChange} 
+                placeholder={`Enter amount in ${currencyOf(requestData.token)}...`} 
+                step="0.01"
+                min="0"
+              />
+            </div>
+          )}
+          
+          {!requestData.split && !requestData.itemized && (
+            <div className="form-group">
+              <label>Repeat</label>
+              <select name="repeat" value={requestData.repeat} onChange={handleChange}>
+                <option value="">Does not repeat</option>
+                {REPEAT_INTERVALS.map(option => (
+                  <option key={option.seconds} value={option.seconds}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
+          {requestData.repeat ? (
+            <>
+              <div className="form-group">
+                <label>Starts</label>
+                <input 
+                  type="date" 
+                  name="startDate" 
+                  value={requestData.startDate} 
+                  onChange={handleChange} 
+                  min={today}
+                />
+                <small>Each occurrence becomes its own request with the same encrypted amount</small>
+              </div>
+              
+              <div className="form-group">
+                <label>Ends On</label>
+                <input 
+                  type="date" 
+                  name="endDate" 
+                  value={requestData.endDate} 
+                  onChange={handleChange} 
+                  min={requestData.startDate || today}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Or After (occurrences)</label>
+                <input 
+                  type="number" 
+                  name="occurrences" 
+                  value={requestData.occurrences} 
+                  onChange={handleChange} 
+                  placeholder="e.g. 12" 
+                  step="1"
+                  min="1"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Due (days after each occurrence)</label>
+                <input 
+                  type="number" 
+                  name="dueAfterDays" 
+                  value={requestData.dueAfterDays} 
+                  onChange={handleChange} 
+                  placeholder="No due date" 
+                  step="1"
+                  min="0"
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="form-group">
+                <label>Due Date</label>
+                <input 
+                  type="date" 
+                  name="dueDate" 
+                  value={requestData.dueDate} 
+                  onChange={handleChange} 
+                  min={today}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Expires</label>
+                <input 
+                  type="date" 
+                  name="expiresAt" 
+                  value={requestData.expiresAt} 
+                  onChange={handleChange} 
+                  min={requestData.dueDate || today}
+                />
+                <small>After this date the request can no longer be paid</small>
+              </div>
+            </>
+          )}
+          
           <div className="form-group">
             <label>Private Note *</label>
             <textarea 
               name="note" 
               value={requestData.note} 
               onChange={handleChange} 
-              placeholder="Enter private note (only visible to recipient)..." 
+              placeholder="Enter private note (only visible to you and the payer)..." 
               rows={4}
             />
           </div>
@@ -669,7 +1862,7 @@ const ModalCreateRequest: React.FC<ModalCreateRequestProps> = ({ onSubmit, onClo
           <button onClick={onClose} className="cancel-btn">Cancel</button>
           <button 
             onClick={onSubmit} 
-            disabled={creating || !requestData.amount || !requestData.note} 
+            disabled={creating || missingPayer || missingAmount || !requestData.note || missingEnd} 
             className="submit-btn"
           >
             {creating ? "Creating with FHE..." : "Create Request"}
@@ -680,16 +1873,48 @@ const ModalCreateRequest: React.FC<ModalCreateRequestProps> = ({ onSubmit, onClo
   );
 };
 
+interface RequestActionsProps {
+  request: PaymentRequest;
+  address?: `0x${string}`;
+  payRequest: (request: PaymentRequest) => void;
+  changeRequestStatus: (request: PaymentRequest, action: Exclude<RequestAction, 'pay'>) => void;
+}
+
+// Quick actions on a list item; partial payments are made from the detail modal
+const RequestActions: React.FC<RequestActionsProps> = ({ request, address, payRequest, changeRequestStatus }) => {
+  const actions = availableActions(request, address);
+  if (actions.length === 0) return null;
+
+  return (
+    <div className="request-actions" onClick={(e) => e.stopPropagation()}>
+      {actions.map(action => (
+        <button 
+          key={action} 
+          className={`action-btn ${action === 'cancel' || action === 'reject' ? 'danger' : ''}`}
+          onClick={() => action === 'pay' ? payRequest(request) : changeRequestStatus(request, action)}
+        >
+          {ACTION_LABELS[action]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
 interface RequestDetailModalProps {
   request: PaymentRequest;
   onClose: () => void;
-  decryptedData: { amount: number | null; note: string | null };
-  setDecryptedData: (value: { amount: number | null; note: string | null }) => void;
+  decryptedData: DecryptedData;
+  setDecryptedData: (value: DecryptedData) => void;
   isDecrypting: boolean;
-  decryptWithSignature: (encryptedAmount: string, encryptedNote: string) => Promise<{ amount: number | null; note: string | null }>;
-  payRequest: (requestId: number) => void;
+  decryptWithSignature: (request: PaymentRequest) => Promise<DecryptedData>;
+  payRequest: (request: PaymentRequest, amount?: string) => void;
+  changeRequestStatus: (request: PaymentRequest, action: Exclude<RequestAction, 'pay'>) => void;
+  splitShares: PaymentRequest[]; // every share of the same split bill, empty for other requests
+  lineItems: LineItem[]; // empty unless the request is an invoice
+  shareLocation: RequestLocation | null;
   isConnected: boolean;
   address?: `0x${string}`;
+  onError: (message: string) => void;
 }
 
 const RequestDetailModal: React.FC<RequestDetailModalProps> = ({ 
@@ -700,16 +1925,41 @@ const RequestDetailModal: React.FC<RequestDetailModalProps> = ({
   isDecrypting, 
   decryptWithSignature,
   payRequest,
+  changeRequestStatus,
+  splitShares,
+  lineItems,
+  shareLocation,
   isConnected,
-  address
+  address,
+  onError
 }) => {
+  const [partialAmount, setPartialAmount] = useState("");
+  const [showQr, setShowQr] = useState(false);
+  const [copied, setCopied] = useState<'link' | 'uri' | null>(null);
+  const actions = availableActions(request, address);
+  const shareUrl = shareLocation && requestUrl(shareLocation, window.location.origin);
+  const shareUri = shareLocation && formatRequestUri(shareLocation);
+
+  const copy = async (kind: 'link' | 'uri') => {
+    const text = kind === 'link' ? shareUrl : shareUri;
+    if (!text) return;
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (e) {
+      onError(errorMessage(e, "Could not copy to the clipboard"));
+      return;
+    }
+    setCopied(kind);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
   const handleDecrypt = async () => {
     if (decryptedData.amount !== null) { 
-      setDecryptedData({ amount: null, note: null }); 
+      setDecryptedData(EMPTY_DECRYPTION); 
       return; 
     }
     
-    const decrypted = await decryptWithSignature(request.encryptedAmount, request.encryptedNote);
+    const decrypted = await decryptWithSignature(request);
     if (decrypted.amount !== null) {
       setDecryptedData(decrypted);
     }
@@ -727,24 +1977,110 @@ const RequestDetailModal: React.FC<RequestDetailModalProps> = ({
           <div className="request-info">
             <div className="info-item">
               <span>Amount:</span>
-              <strong>{request.amount} ETH</strong>
+              <strong>{request.amount !== null ? `${request.amount} ${currencyOf(request.token)}` : "Encrypted"}</strong>
             </div>
             <div className="info-item">
               <span>Requester:</span>
               <strong>{request.requester.substring(0, 6)}...{request.requester.substring(38)}</strong>
             </div>
+            <div className="info-item">
+              <span>Payer:</span>
+              <strong>{request.payer.substring(0, 6)}...{request.payer.substring(38)}</strong>
+            </div>
             <div className="info-item">
               <span>Date Created:</span>
               <strong>{new Date(request.timestamp * 1000).toLocaleDateString()}</strong>
             </div>
+            {request.dueDate !== 0 && (
+              <div className="info-item">
+                <span>Due Date:</span>
+                <strong>{new Date(request.dueDate * 1000).toLocaleDateString()}</strong>
+                {dueLabel(request) && (
+                  <div className={`due-indicator ${isOverdue(request) ? "overdue" : ""}`}>{dueLabel(request)}</div>
+                )}
+              </div>
+            )}
+            {request.expiresAt !== 0 && (
+              <div className="info-item">
+                <span>Expires:</span>
+                <strong>{new Date(request.expiresAt * 1000).toLocaleDateString()}</strong>
+              </div>
+            )}
             <div className="info-item">
               <span>Status:</span>
-              <strong className={`status ${request.paid ? "paid" : "unpaid"}`}>
-                {request.paid ? "Paid" : "Unpaid"}
+              <strong className={`status ${STATUS_CLASSES[request.status]}`}>
+                {STATUS_LABELS[request.status]}
               </strong>
             </div>
           </div>
           
+          {splitShares.length > 0 && (
+            <div className="detail-section">
+              <h3>Split Bill</h3>
+              {splitShares.map(share => (
+                <div className="data-row" key={share.id}>
+                  <span>{share.payer.substring(0, 6)}...{share.payer.substring(38)}{share.id === request.id ? " (this share)" : ""}</span>
+                  <strong className={`status ${STATUS_CLASSES[share.status]}`}>{STATUS_LABELS[share.status]}</strong>
+                </div>
+              ))}
+              <div className="data-row">
+                <span>Shares paid:</span>
+                <strong>
+                  {splitShares.filter(share => share.status === RequestStatus.Paid).length} of {splitShares.length}
+                </strong>
+              </div>
+            </div>
+          )}
+          
+          {shareUrl && shareUri && (
+            <div className="detail-section">
+              <h3>Share</h3>
+              <div className="share-link">{shareUrl}</div>
+              <div className="share-link">{shareUri}</div>
+              <div className="request-actions">
+                <button className="action-btn" onClick={() => copy('link')}>{copied === 'link' ? "Copied!" : "Copy Link"}</button>
+                <button className="action-btn" onClick={() => copy('uri')}>{copied === 'uri' ? "Copied!" : "Copy URI"}</button>
+                <button className="action-btn" onClick={() => setShowQr(!showQr)}>{showQr ? "Hide QR Code" : "Show QR Code"}</button>
+              </div>
+              {showQr && <QrCode value={shareUrl} />}
+            </div>
+          )}
+          
+          {lineItems.length > 0 && (
+            <div className="detail-section">
+              <h3>Invoice</h3>
+              <table className="line-items">
+                <thead>
+                  <tr>
+                    <th>Description</th>
+                    <th>Qty</th>
+                    <th>Unit Price</th>
+                    <th>Line Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {decryptedData.lines
+                    ? decryptedData.lines.map((line, i) => (
+                        <tr key={i}>
+                          <td>{line.description}</td>
+                          <td>{line.quantity}</td>
+                          <td>{`${line.unitPrice} ${currencyOf(request.token)}`}</td>
+                          <td>{`${lineTotal(line.quantity, line.unitPrice)} ${currencyOf(request.token)}`}</td>
+                        </tr>
+                      ))
+                    : lineItems.map((_, i) => (
+                        <tr key={i}>
+                          <td>🔒</td>
+                          <td>🔒</td>
+                          <td>🔒</td>
+                          <td>🔒</td>
+                        </tr>
+                      ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          
           <div className="encrypted-section">
             <h3>Encrypted Data</h3>
             <div className="encrypted-data">
@@ -782,12 +2118,22 @@ const RequestDetailModal: React.FC<RequestDetailModalProps> = ({
               <div className="decrypted-values">
                 <div className="data-row">
                   <span>Amount:</span>
-                  <strong>{decryptedData.amount} ETH</strong>
+                  <strong>{decryptedData.amount} {currencyOf(request.token)}</strong>
+                </div>
+                <div className="data-row">
+                  <span>Paid so far:</span>
+                  <strong>{decryptedData.paidAmount} {currencyOf(request.token)}</strong>
                 </div>
                 <div className="data-row">
                   <span>Note:</span>
                   <strong>{decryptedData.note}</strong>
                 </div>
+                {decryptedData.paidShares !== null && (
+                  <div className="data-row">
+                    <span>Paid shares (encrypted counter):</span>
+                    <strong>{decryptedData.paidShares} of {splitShares.length}</strong>
+                  </div>
+                )}
               </div>
               <div className="decryption-notice">
                 <div className="warning-icon"></div>
@@ -798,15 +2144,36 @@ const RequestDetailModal: React.FC<RequestDetailModalProps> = ({
         </div>
         
         <div className="modal-footer">
-          {!request.paid && address !== request.requester && (
+          {actions.includes('pay') && (
+            <>
+              <input 
+                type="number" 
+                className="partial-payment" 
+                value={partialAmount} 
+                onChange={(e) => setPartialAmount(e.target.value)} 
+                placeholder={`Partial amount in ${currencyOf(request.token)} (empty pays the rest)`} 
+                step="0.01"
+                min="0"
+              />
+              <button 
+                className="pay-btn" 
+                onClick={() => payRequest(request, partialAmount || undefined)}
+                disabled={!isConnected}
+              >
+                {partialAmount ? "Pay Amount" : "Pay Request"}
+              </button>
+            </>
+          )}
+          {actions.filter((action): action is Exclude<RequestAction, 'pay'> => action !== 'pay').map(action => (
             <button 
-              className="pay-btn" 
-              onClick={() => payRequest(request.id)}
+              key={action} 
+              className={`action-btn ${action === 'cancel' || action === 'reject' ? 'danger' : ''}`}
+              onClick={() => changeRequestStatus(request, action)}
               disabled={!isConnected}
             >
-              Pay Request
+              {ACTION_LABELS[action]}
             </button>
-          )}
+          ))}
           <button onClick={onClose} className="close-btn">Close</button>
         </div>
       </div>
@@ -0,0 +1,159 @@
+// cache.ts
+// IndexedDB cache so a reload does not start from scratch. Everything is scoped to a chain and ledger;
+// action logs and decrypted values are scoped to an account as well. Decrypted values never reach
+// IndexedDB in the clear: they are sealed with AES-GCM under a key derived from a wallet signature.
+import { ethers } from "ethers";
+import type { CachedDecryption } from "./fhe";
+import type { LedgerSnapshot } from "./indexer";
+import type { TrackedTransaction } from "./transactions";
+
+const DB_NAME = "confidentialpay";
+const LEDGERS = "ledgers";
+const ACTIONS = "actions";
+const DECRYPTIONS = "decryptions";
+const TRANSACTIONS = "transactions";
+const MAX_ACTIONS = 200;
+const MAX_TRANSACTIONS = 50;
+
+export interface CacheScope {
+  chainId: number;
+  contract: string;
+  account?: string;
+}
+
+// migrations[i] upgrades the database from version i to i + 1. Append new steps; never edit shipped ones.
+const migrations: ((db: IDBDatabase) => void)[] = [
+  db => {
+    db.createObjectStore(LEDGERS);
+    db.createObjectStore(ACTIONS);
+    db.createObjectStore(DECRYPTIONS);
+  },
+  db => {
+    db.createObjectStore(TRANSACTIONS);
+  }
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export function openCache(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, migrations.length);
+      request.onupgradeneeded = event => {
+        for (let version = event.oldVersion; version < migrations.length; version++) migrations[version](request.result);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error("Cache upgrade is blocked by another open tab"));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// The next call opens the database again, e.g. after it was deleted
+export async function closeCache() {
+  const db = await dbPromise?.catch(() => null);
+  db?.close();
+  dbPromise = null;
+}
+
+export const scopeKey = (scope: CacheScope) =>
+  [scope.chainId, scope.contract.toLowerCase(), scope.account?.toLowerCase() ?? ""].join(":");
+
+async function read<T>(store: string, key: string): Promise<T | undefined> {
+  const db = await openCache();
+  return promisify<T | undefined>(db.transaction(store).objectStore(store).get(key));
+}
+
+async function write(store: string, key: string, value: unknown) {
+  const db = await openCache();
+  await promisify(db.transaction(store, "readwrite").objectStore(store).put(value, key));
+}
+
+// Ledger snapshots hold public data, so every account on a ledger shares one
+export const loadLedgerSnapshot = (scope: CacheScope) =>
+  read<LedgerSnapshot>(LEDGERS, scopeKey({ ...scope, account: undefined }));
+
+export const saveLedgerSnapshot = (scope: CacheScope, snapshot: LedgerSnapshot) =>
+  write(LEDGERS, scopeKey({ ...scope, account: undefined }), snapshot);
+
+export async function loadActions<T>(scope: CacheScope): Promise<T[]> {
+  return (await read<T[]>(ACTIONS, scopeKey(scope))) ?? [];
+}
+
+// Prepends in one transaction so two actions recorded back to back cannot overwrite each other
+export async function appendAction<T>(scope: CacheScope, action: T) {
+  const db = await openCache();
+  const store = db.transaction(ACTIONS, "readwrite").objectStore(ACTIONS);
+  const key = scopeKey(scope);
+  const actions = (await promisify<T[] | undefined>(store.get(key))) ?? [];
+  await promisify(store.put([action, ...actions].slice(0, MAX_ACTIONS), key));
+}
+
+export async function loadTransactions(scope: CacheScope): Promise<TrackedTransaction[]> {
+  return (await read<TrackedTransaction[]>(TRANSACTIONS, scopeKey(scope))) ?? [];
+}
+
+// Keeps the newest ones; the manager lists them newest first
+export const saveTransactions = (scope: CacheScope, transactions: TrackedTransaction[]) =>
+  write(TRANSACTIONS, scopeKey(scope), transactions.slice(0, MAX_TRANSACTIONS));
+
+// The wallet signs this to unlock its decrypted values. EOA signatures are deterministic, so the same
+// wallet derives the same key on every visit; a wallet that signs differently just starts a new cache.
+export const cacheKeyMessage = (scope: CacheScope) =>
+  `Unlock saved ConfidentialPay values for ${ethers.getAddress(scope.contract)} on chain ${scope.chainId}.\n\n` +
+  "This signature never leaves your browser and does not authorize any transaction.";
+
+export async function deriveCacheKey(scope: CacheScope, signature: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new Uint8Array(ethers.getBytes(signature)), "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: utf8(scopeKey(scope)),
+      info: utf8("decryption-cache")
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+interface SealedDecryptions {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+const encodeValues = (entries: CachedDecryption[]) =>
+  JSON.stringify(entries, (_, value) => (typeof value === "bigint" ? { bigint: value.toString() } : value));
+
+const decodeValues = (json: string): CachedDecryption[] =>
+  JSON.parse(json, (_, value) => (typeof value?.bigint === "string" ? BigInt(value.bigint) : value));
+
+export async function saveDecryptions(scope: CacheScope, key: CryptoKey, entries: CachedDecryption[]) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, utf8(encodeValues(entries)));
+  const sealed: SealedDecryptions = { iv, data };
+  await write(DECRYPTIONS, scopeKey(scope), sealed);
+}
+
+// Values sealed under another key read as an empty cache and are replaced on the next save
+export async function loadDecryptions(scope: CacheScope, key: CryptoKey): Promise<CachedDecryption[]> {
+  const sealed = await read<SealedDecryptions>(DECRYPTIONS, scopeKey(scope));
+  if (!sealed) return [];
+  try {
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: sealed.iv }, key, sealed.data);
+    return decodeValues(new TextDecoder().decode(plain));
+  } catch {
+    return [];
+  }
+}
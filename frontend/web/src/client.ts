@@ -0,0 +1,100 @@
+// client.ts
+// Typing on top of the TypeChain factories in /types for the parts they leave loose: parsed events
+// typed by name, log filters built without a provider, and one decoder for custom errors raised by
+// any project contract. Kept free of DOM APIs so it can be tested under node.
+import { ethers } from "ethers";
+import type { TypedContractEvent, TypedLogDescription } from "../../../types/common";
+import { ConfidentialToken__factory } from "../../../types/factories/contracts/ConfidentialToken__factory";
+import { PaymentRequestLedger__factory } from "../../../types/factories/contracts/PaymentRequestLedger__factory";
+import { PaymentRequestFHE__factory } from "../../../types/factories/contracts/Payment_Request_Fhe.sol/PaymentRequestFHE__factory";
+import { UniversalAdapter__factory } from "../../../types/factories/contracts/UniversalAdapter__factory";
+import type { PaymentRequestLedger } from "../../../types/contracts/PaymentRequestLedger";
+
+// Event names, without the "Name(type,...)" aliases TypeChain also lists under `filters`
+export type EventName<C extends ethers.BaseContract> = {
+  [K in keyof C["filters"] & string]: K extends `${string}(${string}` ? never : K
+}[keyof C["filters"] & string];
+
+type EventOf<C extends ethers.BaseContract, K extends EventName<C>> =
+  C["filters"][K] extends infer E extends TypedContractEvent ? E : never;
+
+export type EventArgs<C extends ethers.BaseContract, K extends EventName<C>> = TypedLogDescription<EventOf<C, K>>["args"];
+
+export interface ParsedEvent<C extends ethers.BaseContract, K extends EventName<C> = EventName<C>> {
+  name: K;
+  args: EventArgs<C, K>;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export type LedgerEventName = EventName<PaymentRequestLedger>;
+export type LedgerEvent<K extends LedgerEventName = LedgerEventName> = ParsedEvent<PaymentRequestLedger, K>;
+
+const ledgerInterface = PaymentRequestLedger__factory.createInterface();
+
+export function parseLedgerLog(log: ethers.Log): LedgerEvent | null {
+  const parsed = ledgerInterface.parseLog(log);
+  if (!parsed) return null;
+  return {
+    name: parsed.name as LedgerEventName,
+    args: parsed.args as unknown as LedgerEvent["args"],
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash
+  };
+}
+
+// Narrows an event to the given names, so their common arguments can be read with their types
+export function isEvent<C extends ethers.BaseContract, K extends EventName<C>>(
+  event: ParsedEvent<C>,
+  ...names: K[]
+): event is ParsedEvent<C, K> {
+  return (names as string[]).includes(event.name);
+}
+
+// A log filter for one event of `contract`; indexed arguments left out or undefined match anything
+export function eventFilter<C extends ethers.BaseContract, K extends EventName<C>>(
+  contract: C,
+  name: K,
+  ...args: Parameters<EventOf<C, K>>
+): ethers.Filter {
+  if (typeof contract.target !== "string") throw new Error("Event filters need a contract connected by address");
+  return { address: contract.target, topics: contract.interface.encodeFilterTopics(name, args) };
+}
+
+// Errors from a nested call surface in the caller's revert data, e.g. a token error during a ledger
+// payment, so every project ABI is tried whichever contract was called
+const ERROR_INTERFACES = [
+  PaymentRequestLedger__factory,
+  ConfidentialToken__factory,
+  PaymentRequestFHE__factory,
+  UniversalAdapter__factory
+].map(factory => factory.createInterface());
+
+const NESTED_ERROR_KEYS = ["data", "error", "info", "cause"];
+
+// ethers puts revert data on `data`; wallets and nodes often nest it under `error`, `info` or `cause`
+export function findRevertData(error: unknown, depth = 0): string | null {
+  if (depth > 4 || error === null || typeof error !== "object") return null;
+  const { data } = error as { data?: unknown };
+  if (typeof data === "string" && ethers.isHexString(data) && data.length >= 10) return data;
+  for (const key of NESTED_ERROR_KEYS) {
+    const found = findRevertData((error as Record<string, unknown>)[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+// The custom error, Error(string) or Panic(uint256) behind a failed call or transaction, if any
+export function decodeContractError(error: unknown): ethers.ErrorDescription | null {
+  const data = findRevertData(error);
+  if (!data) return null;
+  for (const contractInterface of ERROR_INTERFACES) {
+    try {
+      const decoded = contractInterface.parseError(data);
+      if (decoded) return decoded;
+    } catch {
+      // The selector matched but the arguments did not decode; try the next ABI
+    }
+  }
+  return null;
+}
@@ -0,0 +1,26 @@
+import React, { useMemo } from 'react';
+import { encodeQr, qrPath, qrSvg, QR_QUIET_ZONE } from '../qr';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// Renders `value` as an inline SVG QR code with a link to download it
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 200 }) => {
+  const modules = useMemo(() => encodeQr(value), [value]);
+  const viewBox = modules.length + QR_QUIET_ZONE * 2;
+  const download = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrSvg(value))}`, [value]);
+
+  return (
+    <div className="qr-code">
+      <svg width={size} height={size} viewBox={`0 0 ${viewBox} ${viewBox}`} shapeRendering="crispEdges">
+        <rect width="100%" height="100%" fill="#ffffff" />
+        <path d={qrPath(modules)} fill="#000000" />
+      </svg>
+      <a href={download} download="payment-request.svg">Download SVG</a>
+    </div>
+  );
+};
+
+export default QrCode;
@@ -1,10 +1,19 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { parseLedgerLog, type LedgerEvent } from "./client";
+import { activeNetwork, type NetworkConfig } from "./networks";
+import { MulticallRunner } from "./multicall";
+import { RpcPool } from "./rpcPool";
+import { PaymentRequestLedger__factory } from "../../../types/factories/contracts/PaymentRequestLedger__factory";
+import type { PaymentRequestLedger } from "../../../types/contracts/PaymentRequestLedger";
+import { ConfidentialToken__factory } from "../../../types/factories/contracts/ConfidentialToken__factory";
+import type { ConfidentialToken } from "../../../types/contracts/ConfidentialToken";
+import { UniversalAdapter__factory } from "../../../types/factories/contracts/UniversalAdapter__factory";
+import type { UniversalAdapter } from "../../../types/contracts/UniversalAdapter";
+import { PaymentRequestFHE__factory } from "../../../types/factories/contracts/Payment_Request_Fhe.sol/PaymentRequestFHE__factory";
+import type { PaymentRequestFHE } from "../../../types/contracts/Payment_Request_Fhe.sol/PaymentRequestFHE";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export type { LedgerEvent } from "./client";
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,43 +27,49 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+// Thrown instead of signing while the wallet is on another chain than the app, whose addresses would be wrong there.
+// Carries EIP-1193's "chain disconnected" code so translateError explains it like the wallet's own error.
+export class WrongNetworkError extends Error {
+  readonly code = 4901;
+
+  constructor(readonly walletChainId: number, readonly expected: NetworkConfig) {
+    super(`The wallet is on chain ${walletChainId}, not ${expected.name} (${expected.chainId})`);
+    this.name = "WrongNetworkError";
   }
-  
-  throw new Error("All RPC providers failed");
-};
+}
+
+const pools = new Map<number, RpcPool>();
+
+// One pool per chain for the whole session, so endpoint health carries over from read to read
+export function getRpcPool(network: NetworkConfig = activeNetwork()): RpcPool {
+  let pool = pools.get(network.chainId);
+  if (!pool) {
+    pool = new RpcPool(network.rpcUrls, { name: network.name.toLowerCase(), chainId: network.chainId });
+    pools.set(network.chainId, pool);
+  }
+  return pool;
+}
 
-export async function getContractReadOnly() {
+const runners = new Map<number, MulticallRunner>();
+
+// Read-only contracts share this runner, so view calls made in the same tick become one aggregate3 call
+export function getReadRunner(network: NetworkConfig = activeNetwork()): MulticallRunner {
+  let runner = runners.get(network.chainId);
+  if (!runner) {
+    runner = new MulticallRunner(getRpcPool(network), { address: network.contracts.multicall });
+    runners.set(network.chainId, runner);
+  }
+  return runner;
+}
+
+export async function getAdapterReadOnly(): Promise<UniversalAdapter | null> {
+  const { adapter } = activeNetwork().contracts;
+  if (!adapter) return null;
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = getRpcPool();
+    const contract = UniversalAdapter__factory.connect(adapter, getReadRunner());
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(adapter));
     if (code === "0x") {
       return null;
     }
@@ -66,19 +81,185 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getAdapterWithSigner(): Promise<UniversalAdapter> {
+  try {
+    return UniversalAdapter__factory.connect(activeNetwork().contracts.adapter, await getWalletSigner());
+  } catch (error) {
+    console.error("Failed to create contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function getPaymentRequestFheReadOnly(): Promise<PaymentRequestFHE | null> {
+  const { paymentRequestFhe } = activeNetwork().contracts;
+  if (!paymentRequestFhe) return null;
+  try {
+    const provider = getRpcPool();
+    const code = await retry(() => provider.getCode(paymentRequestFhe));
+    if (code === "0x") {
+      return null;
+    }
+
+    return PaymentRequestFHE__factory.connect(paymentRequestFhe, getReadRunner());
+  } catch (error) {
+    console.error("Failed to create read-only PaymentRequestFHE:", error);
+    return null;
+  }
+}
+
+export async function getPaymentRequestFheWithSigner(): Promise<PaymentRequestFHE> {
+  const { paymentRequestFhe } = activeNetwork().contracts;
+  if (!paymentRequestFhe) {
+    throw new Error(`PaymentRequestFHE is not deployed on ${activeNetwork().name}`);
+  }
+  try {
+    return PaymentRequestFHE__factory.connect(paymentRequestFhe, await getWalletSigner());
+  } catch (error) {
+    console.error("Failed to create PaymentRequestFHE with signer:", error);
+    throw error;
+  }
+}
+
+export async function getLedgerReadOnly(): Promise<PaymentRequestLedger | null> {
+  const { ledger } = activeNetwork().contracts;
+  if (!ledger) return null;
+  try {
+    const provider = getRpcPool();
+    const code = await retry(() => provider.getCode(ledger));
+    if (code === "0x") {
+      return null;
+    }
+    
+    return PaymentRequestLedger__factory.connect(ledger, getReadRunner());
+  } catch (error) {
+    console.error("Failed to create read-only ledger:", error);
+    return null;
+  }
+}
+
+export async function getLedgerWithSigner(): Promise<PaymentRequestLedger> {
+  const { ledger } = activeNetwork().contracts;
+  if (!ledger) {
+    throw new Error(`Payment request ledger is not deployed on ${activeNetwork().name}`);
+  }
+  try {
+    return PaymentRequestLedger__factory.connect(ledger, await getWalletSigner());
+  } catch (error) {
+    console.error("Failed to create ledger with signer:", error);
+    throw error;
+  }
+}
+
+export async function getTokenWithSigner(): Promise<ConfidentialToken> {
+  const { token } = activeNetwork().contracts;
+  if (!token) {
+    throw new Error(`Confidential token is not deployed on ${activeNetwork().name}`);
+  }
+  try {
+    return ConfidentialToken__factory.connect(token, await getWalletSigner());
+  } catch (error) {
+    console.error("Failed to create token with signer:", error);
+    throw error;
+  }
+}
+
+// The injected wallet's signer, once it is on the active network. Used directly for transactions that are not
+// contract calls, such as speed-ups and cancellations.
+export async function getWalletSigner(): Promise<ethers.JsonRpcSigner> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const network = activeNetwork();
+  const walletChainId = Number((await provider.getNetwork()).chainId);
+  if (walletChainId !== network.chainId) {
+    throw new WrongNetworkError(walletChainId, network);
+  }
+  return provider.getSigner();
+}
+
+const ledgerFilter = (network: NetworkConfig) => ({ address: network.contracts.ledger });
+
+// Resolves with a function that closes the socket; `onClose` fires if the socket drops on its own
+const subscribeWebSocket = async (network: NetworkConfig, onLog: (log: ethers.Log) => void, onClose: () => void) => {
+  const provider = new ethers.WebSocketProvider(network.wsUrl!, network.chainId);
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    await Promise.race([
+      provider.getBlockNumber(),
+      new Promise((_, reject) => setTimeout(() => reject(new Error("Websocket timeout")), 10000))
+    ]);
+    await provider.on(ledgerFilter(network), onLog);
   } catch (error) {
-    console.error("Failed to create contract with signer:", error);
+    provider.destroy();
     throw error;
   }
+  // ethers does not reconnect dropped sockets
+  (provider.websocket as unknown as WebSocket).addEventListener("close", onClose);
+  return () => provider.destroy();
+};
+
+const pollLogs = (network: NetworkConfig, provider: ethers.Provider, onLog: (log: ethers.Log) => void, interval: number) => {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let nextBlock: number | null = null;
+  const tick = async () => {
+    try {
+      const head = await provider.getBlockNumber();
+      nextBlock ??= head + 1;
+      if (head >= nextBlock) {
+        const logs = await provider.getLogs({ ...ledgerFilter(network), fromBlock: nextBlock, toBlock: head });
+        if (stopped) return;
+        logs.forEach(onLog);
+        nextBlock = head + 1;
+      }
+    } catch (error) {
+      console.warn("Polling ledger events failed:", error);
+    }
+    if (!stopped) timer = setTimeout(tick, interval);
+  };
+  tick();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
+
+// Calls `onEvent` for every PaymentRequestLedger event on the active network from now on, over a
+// websocket when the network has one and it is reachable, otherwise by polling eth_getLogs.
+// Returns an unsubscribe function.
+export function subscribeLedgerEvents(
+  onEvent: (event: LedgerEvent) => void,
+  pollInterval = 4000,
+  network: NetworkConfig = activeNetwork()
+): () => void {
+  if (!network.contracts.ledger) return () => {};
+  const onLog = (log: ethers.Log) => {
+    const event = parseLedgerLog(log);
+    if (event) onEvent(event);
+  };
+
+  let stopped = false;
+  let stop = () => {};
+  const poll = () => {
+    if (stopped) return;
+    stop = pollLogs(network, getRpcPool(network), onLog, pollInterval);
+  };
+
+  if (network.wsUrl) {
+    subscribeWebSocket(network, onLog, poll)
+      .then(close => { if (stopped) close(); else stop = close; })
+      .catch(error => {
+        console.warn("Websocket unavailable, polling for ledger events:", error);
+        poll();
+      });
+  } else {
+    poll();
+  }
+
+  return () => {
+    stopped = true;
+    stop();
+  };
 }
 
 export function normAddr(a: string) { 
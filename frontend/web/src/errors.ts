@@ -0,0 +1,262 @@
+// errors.ts
+// Turns whatever a wallet, RPC node or contract throws into a message the user can act on. Contract
+// reverts are decoded against every project ABI; everything else is classified by the codes and
+// messages that ethers, EIP-1193 wallets and nodes use. Kept free of DOM APIs so it can be tested
+// under node.
+import { decodeContractError } from "./client";
+
+export type ErrorKind =
+  | "rejected" // the user declined in their wallet
+  | "contract" // the contract reverted
+  | "funds"
+  | "gas"
+  | "nonce"
+  | "wallet"
+  | "network"
+  | "unknown";
+
+export interface TranslatedError {
+  kind: ErrorKind;
+  message: string;
+  hint?: string; // what to do next
+  retryable: boolean; // whether sending the same thing again can succeed
+  contractError?: string; // name of the decoded custom error
+}
+
+interface ContractErrorText {
+  message: string;
+  hint?: string;
+  retryable?: boolean;
+}
+
+// Custom errors of PaymentRequestLedger, ConfidentialToken, PaymentRequestFHE and the FHE library
+const CONTRACT_ERRORS: Record<string, ContractErrorText> = {
+  RequestNotFound: { message: "This payment request does not exist.", hint: "Check the request ID and network." },
+  SeriesNotFound: { message: "This recurring request does not exist.", hint: "Check the series ID and network." },
+  SplitNotFound: { message: "This split request does not exist.", hint: "Check the split ID and network." },
+  InvalidState: {
+    message: "The request is no longer in a state that allows this.",
+    hint: "Refresh to see its current status."
+  },
+  InvalidPayer: { message: "The payer must be another, non-zero address." },
+  InvalidDueDate: { message: "The due date must be in the future." },
+  InvalidExpiry: { message: "The expiry must be in the future and after the due date." },
+  InvalidSchedule: {
+    message: "The schedule is invalid.",
+    hint: "Set an interval, and an end date in the future or a number of occurrences."
+  },
+  InvalidShares: { message: "Each payer in a split needs exactly one share, with 2 to the maximum number of payers." },
+  InvalidLineItems: { message: "Each invoice line needs a description, a quantity above zero and a price." },
+  InvalidPaymentValue: {
+    message: "The amount sent does not match how this request is paid.",
+    hint: "ETH requests take a whole number of gwei; token requests take no ETH."
+  },
+  NotPayer: { message: "Only the payer of this request can do this.", hint: "Switch to the payer's account." },
+  NotRequester: { message: "Only the requester can do this.", hint: "Switch to the requester's account." },
+  NotExpired: { message: "This request has not expired yet." },
+  RequestExpired: { message: "This request has expired and can no longer be paid." },
+  SeriesInactive: { message: "This recurring request is paused or cancelled." },
+  NothingDue: {
+    message: "No occurrence of this recurring request is due yet.",
+    hint: "Try again after the next due date.",
+    retryable: true
+  },
+  BacklogNotIssued: {
+    message: "Occurrences from before the pause are still waiting to be issued.",
+    hint: "Issue the due occurrences, then resume."
+  },
+  NothingToWithdraw: { message: "There is nothing to withdraw." },
+  TransferFailed: { message: "The ETH transfer to your account failed.", hint: "Withdraw to an account that accepts ETH." },
+  ReplayDetected: { message: "This result was already processed." },
+  DecryptionFailed: {
+    message: "The decryption result could not be verified.",
+    hint: "Wait for the oracle to deliver it again.",
+    retryable: true
+  },
+  NotOwner: { message: "Only the contract owner can do this." },
+  NotProvider: { message: "Only approved providers can do this.", hint: "Ask the owner to add your account as a provider." },
+  Paused: { message: "The contract is paused.", hint: "Try again once it is resumed.", retryable: true },
+  CooldownActive: {
+    message: "You acted too recently; a cooldown is still running.",
+    hint: "Wait a minute and try again.",
+    retryable: true
+  },
+  InvalidBatch: { message: "No batch is open, or the batch has changed.", hint: "Refresh and use the current batch." },
+  AlreadyInitialized: { message: "You already submitted a note for this batch." },
+  NotInitialized: { message: "There is no note for this batch and provider." },
+  NotOperator: {
+    message: "The ledger is not allowed to move your tokens.",
+    hint: "Approve the ledger as an operator of your tokens, then pay again."
+  },
+  UnauthorizedHandle: {
+    message: "The encrypted amount was not accepted.",
+    hint: "Encrypt the amount again and retry.",
+    retryable: true
+  },
+  InvalidReceiver: { message: "Tokens cannot be sent to the zero address." },
+  SupplyOverflow: { message: "Minting this much would exceed the token's supply cap." },
+  // Raised by the FHE library inside the contracts
+  HandlesAlreadySavedForRequestID: { message: "A decryption was already requested for this." },
+  NoHandleFoundForRequestID: { message: "The decryption result does not match any pending request." },
+  InvalidKMSSignatures: {
+    message: "The decryption result carried invalid signatures.",
+    hint: "Wait for the oracle to deliver it again.",
+    retryable: true
+  }
+};
+
+// Panic(uint256) codes from the Solidity docs
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "an internal check failed",
+  0x11: "a number overflowed",
+  0x12: "a division by zero",
+  0x32: "an index out of range"
+};
+
+// EIP-1193 provider error codes and the JSON-RPC codes wallets pass through
+const WALLET_CODES: Record<number, ContractErrorText> = {
+  4100: { message: "The wallet has not authorised this site.", hint: "Connect your wallet and try again.", retryable: true },
+  4200: { message: "The wallet does not support this request.", hint: "Try a different wallet." },
+  4900: { message: "The wallet is disconnected.", hint: "Reconnect your wallet and try again.", retryable: true },
+  4901: { message: "The wallet is not connected to this network.", hint: "Switch networks in your wallet.", retryable: true },
+  [-32002]: {
+    message: "The wallet already has a request waiting.",
+    hint: "Open your wallet and finish or dismiss it first.",
+    retryable: true
+  }
+};
+
+// [pattern, kind, message, hint], checked in order against every message in the error chain
+const MESSAGE_RULES: [RegExp, ErrorKind, string, string][] = [
+  [/insufficient funds/i, "funds", "Your account cannot cover the amount plus gas.", "Add funds or lower the amount."],
+  [
+    /replacement (transaction|fee too low|underpriced)/i,
+    "nonce",
+    "Another transaction from your account is still pending.",
+    "Wait for it to confirm, or speed it up from your wallet."
+  ],
+  [
+    /nonce (too low|has already been used|expired)|invalid nonce/i,
+    "nonce",
+    "Your wallet used an outdated nonce.",
+    "Wait for pending transactions to confirm, or reset your wallet's activity data, then try again."
+  ],
+  [/nonce too high/i, "nonce", "Your wallet is ahead of the network.", "Wait for earlier transactions to arrive, then try again."],
+  [
+    /max fee per gas less than block base fee|fee cap less than block base fee|underpriced/i,
+    "gas",
+    "The gas price was too low for the network.",
+    "Try again; your wallet will pick a current fee."
+  ],
+  [
+    /out of gas|intrinsic gas too low|gas required exceeds allowance|exceeds block gas limit/i,
+    "gas",
+    "The transaction ran out of gas.",
+    "Try again with a higher gas limit."
+  ],
+  [
+    /rate limit|too many requests|limit exceeded|failed to fetch|network error|timeout|timed out|ECONNREFUSED|could not detect network/i,
+    "network",
+    "The network could not be reached.",
+    "Check your connection and try again in a moment."
+  ],
+  [/no injected wallet|wallet not connected/i, "wallet", "No wallet is connected.", "Connect a wallet and try again."]
+];
+
+// ethers error codes and JSON-RPC codes, by a node message that MESSAGE_RULES classifies the same way
+const CODE_MESSAGES: Record<string, string> = {
+  INSUFFICIENT_FUNDS: "insufficient funds",
+  NONCE_EXPIRED: "nonce expired",
+  REPLACEMENT_UNDERPRICED: "replacement transaction underpriced",
+  NETWORK_ERROR: "network error",
+  SERVER_ERROR: "network error",
+  TIMEOUT: "timeout",
+  "-32005": "limit exceeded",
+  "429": "too many requests"
+};
+
+const RETRYABLE_KINDS = new Set<ErrorKind>(["gas", "nonce", "network"]);
+
+// ethers wraps wallet and node errors; the original sits under `error`, `info.error` or `cause`
+function errorChain(error: unknown): Record<string, unknown>[] {
+  const chain: Record<string, unknown>[] = [];
+  const visit = (value: unknown, depth: number) => {
+    if (depth > 4 || value === null || typeof value !== "object" || chain.includes(value as Record<string, unknown>)) return;
+    const entry = value as Record<string, unknown>;
+    chain.push(entry);
+    for (const key of ["error", "info", "cause", "data"]) visit(entry[key], depth + 1);
+  };
+  visit(error, 0);
+  return chain;
+}
+
+function translateContractError(error: unknown): TranslatedError | null {
+  const decoded = decodeContractError(error);
+  if (!decoded) return null;
+  if (decoded.name === "Error") {
+    return { kind: "contract", message: `The contract rejected this: ${decoded.args[0]}.`, retryable: false, contractError: "Error" };
+  }
+  if (decoded.name === "Panic") {
+    const reason = PANIC_REASONS[Number(decoded.args[0])] ?? "an internal error";
+    return { kind: "contract", message: `The contract stopped because of ${reason}.`, retryable: false, contractError: "Panic" };
+  }
+  const text = CONTRACT_ERRORS[decoded.name] ?? { message: `The contract rejected this (${decoded.name}).` };
+  return {
+    kind: "contract",
+    message: text.message,
+    hint: text.hint,
+    retryable: text.retryable ?? false,
+    contractError: decoded.name
+  };
+}
+
+export function translateError(error: unknown): TranslatedError {
+  const chain = errorChain(error);
+  const codes = chain.map(entry => entry.code);
+  const messages = chain
+    .flatMap(entry => [entry.shortMessage, entry.message, entry.reason])
+    .filter((message): message is string => typeof message === "string");
+  if (typeof error === "string") messages.push(error);
+
+  if (codes.includes("ACTION_REJECTED") || codes.includes(4001) || messages.some(m => /user (rejected|denied)/i.test(m))) {
+    return { kind: "rejected", message: "You declined the request in your wallet.", retryable: true };
+  }
+
+  const contractError = translateContractError(error);
+  if (contractError) return contractError;
+
+  for (const code of codes) {
+    const text = typeof code === "number" ? WALLET_CODES[code] : undefined;
+    if (text) return { kind: "wallet", message: text.message, hint: text.hint, retryable: text.retryable ?? false };
+  }
+
+  for (const message of [...codes.map(code => CODE_MESSAGES[String(code)]), ...messages]) {
+    const translated = message ? translateMessage(message) : null;
+    if (translated) return translated;
+  }
+
+  if (codes.includes("CALL_EXCEPTION")) {
+    return {
+      kind: "contract",
+      message: "The contract rejected this without giving a reason.",
+      hint: "Refresh and check that the action is still allowed.",
+      retryable: false
+    };
+  }
+
+  return { kind: "unknown", message: messages[0] ?? "Unknown error", retryable: false };
+}
+
+function translateMessage(message: string): TranslatedError | null {
+  const rule = MESSAGE_RULES.find(([pattern]) => pattern.test(message));
+  if (!rule) return null;
+  const [, kind, text, hint] = rule;
+  return { kind, message: text, hint, retryable: RETRYABLE_KINDS.has(kind) };
+}
+
+// One line for a status banner, e.g. errorMessage(e, "Payment failed")
+export function errorMessage(error: unknown, action: string): string {
+  const { kind, message, hint } = translateError(error);
+  if (kind === "unknown") return `${action}: ${message}`;
+  return hint ? `${message} ${hint}` : message;
+}
@@ -0,0 +1,359 @@
+// fhe.ts
+// Encryption, decryption sessions and the per-handle decrypt cache. The relayer SDK itself is loaded by
+// relayer.ts, so this module stays free of DOM APIs and can be tested under node with a mock backend.
+import { ethers } from "ethers";
+import { activeNetwork, type NetworkConfig } from "./networks";
+
+// Amounts are encrypted as euint64 in gwei so that values above ~18 ETH still fit.
+export const AMOUNT_DECIMALS = 9;
+
+export type DecryptedValue = bigint | boolean | string;
+
+// The typed data a user-decrypt authorization signs, as the relayer SDK builds it
+export interface EIP712 {
+  domain: { chainId: number; name: string; verifyingContract: string; version: string };
+  message: Record<string, unknown>;
+  primaryType: string;
+  types: { [key: string]: { name: string; type: string }[] };
+}
+
+export interface EncryptedInput {
+  add64(value: number | bigint): EncryptedInput;
+  add256(value: number | bigint): EncryptedInput;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+// The part of the relayer SDK's FhevmInstance used here
+export interface FheBackend {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInput;
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(publicKey: string, contractAddresses: string[], startTimestamp: string | number, durationDays: string | number): EIP712;
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<Record<string, DecryptedValue>>;
+}
+
+export type FheBackendLoader = (network: NetworkConfig) => Promise<FheBackend>;
+
+// A signed user-decrypt authorization, reusable until it expires.
+export interface DecryptionSession {
+  userAddress: string;
+  contractAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface CachedDecryption {
+  handle: string;
+  value: DecryptedValue;
+  expiresAt: number; // when the session that decrypted it expires
+}
+
+// Lets callers postpone the EIP-712 signature until a handle is not already cached.
+export interface DeferredSession {
+  userAddress: string;
+  open: () => Promise<DecryptionSession>;
+}
+
+export interface EncryptedPaymentInput {
+  amountHandle: string;
+  noteKeyHandle: string;
+  noteCiphertext: string;
+  inputProof: string;
+}
+
+export interface EncryptedAmountsInput {
+  amountHandles: string[];
+  noteKeyHandle: string;
+  noteCiphertext: string;
+  inputProof: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+}
+
+export interface EncryptedInvoiceInput {
+  lineDetails: string[]; // each line's description, sealed with the note key
+  quantityHandles: string[];
+  unitPriceHandles: string[];
+  noteKeyHandle: string;
+  noteCiphertext: string;
+  inputProof: string;
+}
+
+let backendPromise: Promise<FheBackend> | null = null;
+let backendChainId: number | null = null; // null for a backend installed with setFheBackend
+const sessions = new Map<string, DecryptionSession>();
+const decryptedCache = new Map<string, { value: DecryptedValue; expiresAt: number }>();
+
+let loadBackend: FheBackendLoader = async network => {
+  throw new Error(`No FHE backend is configured for ${network.name}`);
+};
+
+// Chooses how each network's backend is created; the app installs loadRelayerBackend at startup
+export function setFheBackendLoader(loader: FheBackendLoader) {
+  loadBackend = loader;
+  setFheBackend(null);
+}
+
+// Replaces the relayer-sdk instance, e.g. with an offline mock in tests. Pass null to reset.
+export function setFheBackend(backend: FheBackend | null) {
+  backendPromise = backend ? Promise.resolve(backend) : null;
+  backendChainId = null;
+  sessions.clear();
+  decryptedCache.clear();
+}
+
+// The relayer instance belongs to one chain, so a network switch loads a new one
+export async function getFheBackend(): Promise<FheBackend> {
+  const network = activeNetwork();
+  if (!backendPromise || (backendChainId !== null && backendChainId !== network.chainId)) {
+    const loading = loadBackend(network);
+    backendPromise = loading;
+    backendChainId = network.chainId;
+    loading.catch(() => { if (backendPromise === loading) backendPromise = null; });
+  }
+  return backendPromise;
+}
+
+export function parseAmount(value: string): bigint {
+  return ethers.parseUnits(value, AMOUNT_DECIMALS);
+}
+
+export function formatAmount(value: bigint): string {
+  return ethers.formatUnits(value, AMOUNT_DECIMALS);
+}
+
+// Notes do not fit in a single ciphertext, so they are sealed with a random AES-GCM key
+// and only that key goes through FHE (as a euint256).
+export async function sealNote(note: string): Promise<{ key: bigint; ciphertext: string }> {
+  const key = ethers.toBigInt(crypto.getRandomValues(new Uint8Array(32)));
+  return { key, ciphertext: await sealWithKey(key, note) };
+}
+
+// Each seal draws its own IV, so one key can seal a note and all of its invoice lines
+async function sealWithKey(key: bigint, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const aesKey = await crypto.subtle.importKey("raw", Uint8Array.from(ethers.getBytes(ethers.toBeHex(key, 32))), "AES-GCM", false, ["encrypt"]);
+  const sealed = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, aesKey, Uint8Array.from(ethers.toUtf8Bytes(text)));
+  return ethers.hexlify(ethers.concat([iv, new Uint8Array(sealed)]));
+}
+
+export async function openNote(key: bigint, ciphertext: string): Promise<string> {
+  const bytes = Uint8Array.from(ethers.getBytes(ciphertext));
+  const aesKey = await crypto.subtle.importKey("raw", Uint8Array.from(ethers.getBytes(ethers.toBeHex(key, 32))), "AES-GCM", false, ["decrypt"]);
+  const opened = await crypto.subtle.decrypt({ name: "AES-GCM", iv: bytes.slice(0, 12) }, aesKey, bytes.slice(12));
+  return ethers.toUtf8String(new Uint8Array(opened));
+}
+
+export async function encryptPaymentRequest(
+  contractAddress: string,
+  userAddress: string,
+  amount: bigint,
+  note: string
+): Promise<EncryptedPaymentInput> {
+  const backend = await getFheBackend();
+  const { key, ciphertext } = await sealNote(note);
+  const { handles, inputProof } = await backend
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(amount)
+    .add256(key)
+    .encrypt();
+
+  return {
+    amountHandle: ethers.hexlify(handles[0]),
+    noteKeyHandle: ethers.hexlify(handles[1]),
+    noteCiphertext: ciphertext,
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Several encrypted amounts sharing one note, e.g. split shares
+export async function encryptRequestAmounts(
+  contractAddress: string,
+  userAddress: string,
+  amounts: bigint[],
+  note: string
+): Promise<EncryptedAmountsInput> {
+  const backend = await getFheBackend();
+  const { key, ciphertext } = await sealNote(note);
+  const input = backend.createEncryptedInput(contractAddress, userAddress);
+  amounts.forEach(amount => input.add64(amount));
+  const { handles, inputProof } = await input.add256(key).encrypt();
+
+  return {
+    amountHandles: handles.slice(0, amounts.length).map(handle => ethers.hexlify(handle)),
+    noteKeyHandle: ethers.hexlify(handles[amounts.length]),
+    noteCiphertext: ciphertext,
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Quantities, then unit prices, then the note key; the contract totals the lines itself and the
+// sealed descriptions share the note key
+export async function encryptInvoice(
+  contractAddress: string,
+  userAddress: string,
+  lines: (InvoiceLine & { unitPrice: bigint })[],
+  note: string
+): Promise<EncryptedInvoiceInput> {
+  const backend = await getFheBackend();
+  const { key, ciphertext } = await sealNote(note);
+  const lineDetails = await Promise.all(lines.map(line => sealWithKey(key, line.description)));
+  const input = backend.createEncryptedInput(contractAddress, userAddress);
+  lines.forEach(line => input.add64(BigInt(line.quantity)));
+  lines.forEach(line => input.add64(line.unitPrice));
+  const { handles, inputProof } = await input.add256(key).encrypt();
+
+  return {
+    lineDetails,
+    quantityHandles: handles.slice(0, lines.length).map(handle => ethers.hexlify(handle)),
+    unitPriceHandles: handles.slice(lines.length, 2 * lines.length).map(handle => ethers.hexlify(handle)),
+    noteKeyHandle: ethers.hexlify(handles[2 * lines.length]),
+    noteCiphertext: ciphertext,
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// A single encrypted amount, e.g. a partial token payment
+export async function encryptAmount(
+  contractAddress: string,
+  userAddress: string,
+  amount: bigint
+): Promise<{ handle: string; inputProof: string }> {
+  const backend = await getFheBackend();
+  const { handles, inputProof } = await backend.createEncryptedInput(contractAddress, userAddress).add64(amount).encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+const sessionKey = (userAddress: string, contractAddress: string) =>
+  `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+
+const cacheKey = (userAddress: string, handle: string) => `${userAddress.toLowerCase()}:${handle.toLowerCase()}`;
+
+const sessionExpiry = (session: DecryptionSession) =>
+  (session.startTimestamp + session.durationDays * 24 * 60 * 60) * 1000;
+
+// Returns a still-valid session for this user and contract, asking for a new EIP-712 signature only when needed.
+export async function getDecryptionSession(
+  userAddress: string,
+  contractAddress: string,
+  signTypedData: (typedData: EIP712) => Promise<string>,
+  durationDays = 30
+): Promise<DecryptionSession> {
+  const key = sessionKey(userAddress, contractAddress);
+  const existing = sessions.get(key);
+  if (existing && sessionExpiry(existing) > Date.now()) return existing;
+
+  const backend = await getFheBackend();
+  const { publicKey, privateKey } = backend.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const typedData = backend.createEIP712(publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await signTypedData(typedData);
+
+  const session: DecryptionSession = {
+    userAddress,
+    contractAddress,
+    publicKey,
+    privateKey,
+    signature,
+    startTimestamp,
+    durationDays
+  };
+  sessions.set(key, session);
+  return session;
+}
+
+export function deferDecryptionSession(
+  userAddress: string,
+  contractAddress: string,
+  signTypedData: (typedData: EIP712) => Promise<string>
+): DeferredSession {
+  return { userAddress, open: () => getDecryptionSession(userAddress, contractAddress, signTypedData) };
+}
+
+export function getCachedDecryption(userAddress: string, handle: string): DecryptedValue | undefined {
+  const entry = decryptedCache.get(cacheKey(userAddress, handle));
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    decryptedCache.delete(cacheKey(userAddress, handle));
+    return undefined;
+  }
+  return entry.value;
+}
+
+// Still-valid cached values of one user, e.g. to persist them across reloads
+export function exportDecryptions(userAddress: string): CachedDecryption[] {
+  const prefix = cacheKey(userAddress, "");
+  const now = Date.now();
+  return [...decryptedCache]
+    .filter(([key, entry]) => key.startsWith(prefix) && entry.expiresAt > now)
+    .map(([key, entry]) => ({ handle: key.slice(prefix.length), ...entry }));
+}
+
+export function importDecryptions(userAddress: string, entries: CachedDecryption[]) {
+  const now = Date.now();
+  for (const { handle, value, expiresAt } of entries) {
+    if (expiresAt > now) decryptedCache.set(cacheKey(userAddress, handle), { value, expiresAt });
+  }
+}
+
+export async function userDecrypt(
+  source: DecryptionSession | DeferredSession,
+  handles: string[]
+): Promise<Record<string, DecryptedValue>> {
+  const results: Record<string, DecryptedValue> = {};
+  const missing: string[] = [];
+  for (const handle of handles) {
+    const cached = getCachedDecryption(source.userAddress, handle);
+    if (cached === undefined) missing.push(handle);
+    else results[handle] = cached;
+  }
+  if (missing.length === 0) return results;
+
+  const session = "open" in source ? await source.open() : source;
+  const backend = await getFheBackend();
+  const decrypted = await backend.userDecrypt(
+    missing.map(handle => ({ handle, contractAddress: session.contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature.replace("0x", ""),
+    [session.contractAddress],
+    session.userAddress,
+    session.startTimestamp,
+    session.durationDays
+  );
+
+  const expiresAt = sessionExpiry(session);
+  for (const handle of missing) {
+    const value = decrypted[handle] ?? decrypted[handle.toLowerCase()];
+    if (value === undefined) throw new Error(`Relayer returned no value for handle ${handle}`);
+    decryptedCache.set(cacheKey(session.userAddress, handle), { value, expiresAt });
+    results[handle] = value;
+  }
+  return results;
+}
+
+export async function decryptPaymentRequest(
+  session: DecryptionSession | DeferredSession,
+  request: { amountHandle: string; paidHandle: string; noteKeyHandle: string; noteCiphertext: string }
+): Promise<{ amount: bigint; paid: bigint; note: string }> {
+  const values = await userDecrypt(session, [request.amountHandle, request.paidHandle, request.noteKeyHandle]);
+  return {
+    amount: BigInt(values[request.amountHandle]),
+    paid: BigInt(values[request.paidHandle]),
+    note: await openNote(BigInt(values[request.noteKeyHandle]), request.noteCiphertext)
+  };
+}
@@ -0,0 +1,241 @@
+// indexer.ts
+// Follows PaymentRequestLedger events instead of re-reading every request on each refresh.
+// Events name the records they change but not their encrypted handles, so each event marks a
+// request, series or split as stale and only those are re-read. That keeps re-applying a block
+// harmless, which lets every sync overlap the previous one to pick up short reorgs. The records named
+// by those overlapping blocks are remembered and read again too, so an event the new chain dropped
+// does not leave its change behind.
+import { ethers } from "ethers";
+import type { PaymentRequestLedger } from "../../../types/contracts/PaymentRequestLedger";
+
+const REQUEST_EVENTS = new Set([
+  "PaymentRequestCreated",
+  "PaymentSubmitted",
+  "PaymentRequestPartiallyPaid",
+  "PaymentRequestPaid",
+  "PaymentFailed",
+  "PaymentRequestCancelled",
+  "PaymentRequestRejected",
+  "PaymentRequestExpired",
+  "OccurrenceIssued"
+]);
+const SERIES_EVENTS = new Set(["SeriesCreated", "SeriesPaused", "SeriesResumed", "SeriesCancelled", "OccurrenceIssued"]);
+const SPLIT_EVENTS = new Set(["SplitCreated", "SplitPaid"]);
+
+// Blocks re-scanned on every sync
+const REORG_DEPTH = 5;
+
+// The records one block's events named
+export interface TouchedBlock {
+  block: number;
+  requests: number[];
+  series: number[];
+  splits: number[];
+}
+
+export interface LedgerState {
+  requests: Map<number, PaymentRequestLedger.PaymentRequestStructOutput>;
+  series: Map<number, PaymentRequestLedger.SeriesStructOutput>;
+  splits: Map<number, PaymentRequestLedger.SplitStructOutput>;
+  lastBlock: number; // last block whose events are applied
+}
+
+// LedgerState in a form that survives structured cloning: each record is its ABI-encoded getter result
+export interface LedgerSnapshot {
+  lastBlock: number;
+  requests: [number, string][];
+  series: [number, string][];
+  splits: [number, string][];
+  recent?: TouchedBlock[]; // blocks the next sync re-scans
+}
+
+export interface IndexerOptions {
+  startBlock: number; // usually the ledger's deployment block
+  snapshot?: LedgerSnapshot; // resume from a saved state instead of replaying from startBlock
+  batchSize?: number; // blocks per eth_getLogs call
+  pollInterval?: number; // ms between syncs once started
+}
+
+type Listener = (state: LedgerState) => void;
+
+const fingerprint = (record: readonly unknown[]) =>
+  JSON.stringify(record, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+
+// Returns `store` itself when every record is unchanged, so callers can tell whether anything moved
+function merge<T extends readonly unknown[]>(store: Map<number, T>, ids: number[], records: T[], removed: number[]): Map<number, T> {
+  const changed = ids.filter((id, i) => {
+    const current = store.get(id);
+    return !current || fingerprint(current) !== fingerprint(records[i]);
+  });
+  const gone = removed.filter(id => store.has(id));
+  if (changed.length === 0 && gone.length === 0) return store;
+  const next = new Map(store);
+  ids.forEach((id, i) => next.set(id, records[i]));
+  gone.forEach(id => next.delete(id));
+  return next;
+}
+
+// Takes the ids above `count` out of `ids` and returns them
+function dropAbove(ids: Set<number>, count: bigint): number[] {
+  const dropped = [...ids].filter(id => BigInt(id) > count);
+  dropped.forEach(id => ids.delete(id));
+  return dropped;
+}
+
+export class LedgerIndexer {
+  private state: LedgerState;
+  private readonly listeners = new Set<Listener>();
+  private readonly provider: ethers.Provider;
+  private syncing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private synced = false;
+  private recent: TouchedBlock[];
+
+  constructor(private readonly ledger: PaymentRequestLedger, private readonly options: IndexerOptions) {
+    const provider = ledger.runner?.provider;
+    if (!provider) throw new Error("Ledger is not connected to a provider");
+    this.provider = provider;
+    this.recent = options.snapshot?.recent ?? [];
+    this.state = options.snapshot
+      ? this.restore(options.snapshot)
+      : { requests: new Map(), series: new Map(), splits: new Map(), lastBlock: options.startBlock - 1 };
+  }
+
+  getState(): LedgerState {
+    return this.state;
+  }
+
+  snapshot(): LedgerSnapshot {
+    const abi: ethers.Interface = this.ledger.interface;
+    const encode = <T extends readonly unknown[]>(getter: string, records: Map<number, T>): [number, string][] =>
+      [...records].map(([id, record]) => [id, abi.encodeFunctionResult(getter, [record])]);
+    return {
+      lastBlock: this.state.lastBlock,
+      requests: encode("getRequest", this.state.requests),
+      series: encode("getSeries", this.state.series),
+      splits: encode("getSplit", this.state.splits),
+      recent: this.recent
+    };
+  }
+
+  private restore(snapshot: LedgerSnapshot): LedgerState {
+    const abi: ethers.Interface = this.ledger.interface;
+    const decode = <T>(getter: string, records: [number, string][]) =>
+      new Map(records.map(([id, data]) => [id, abi.decodeFunctionResult(getter, data)[0] as T]));
+    return {
+      lastBlock: snapshot.lastBlock,
+      requests: decode<PaymentRequestLedger.PaymentRequestStructOutput>("getRequest", snapshot.requests),
+      series: decode<PaymentRequestLedger.SeriesStructOutput>("getSeries", snapshot.series),
+      splits: decode<PaymentRequestLedger.SplitStructOutput>("getSplit", snapshot.splits)
+    };
+  }
+
+  // Listeners get a new state object after every sync that changed something
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Concurrent callers share the sync in flight
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.catchUp().finally(() => { this.syncing = null; });
+    }
+    return this.syncing;
+  }
+
+  // Resolves once every block up to `block` is applied. The sync in flight may have read the head before
+  // that block, and endpoints can lag the one that reported it, so this syncs again until it gets there.
+  async syncTo(block: number, retryDelay = 1000, maxTries = 10): Promise<void> {
+    for (let tries = 0; this.state.lastBlock < block; tries++) {
+      if (tries === maxTries) throw new Error(`Indexer did not reach block ${block}`);
+      // The first retry follows a sync that may simply have started too early; later ones wait for the endpoint
+      if (tries > 1) await new Promise(resolve => setTimeout(resolve, retryDelay));
+      await this.sync();
+    }
+  }
+
+  start() {
+    if (this.timer) return;
+    const sync = () => this.sync().catch(e => console.error("Indexer sync failed:", e));
+    sync();
+    this.timer = setInterval(sync, this.options.pollInterval ?? 12_000);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async catchUp() {
+    const head = await this.provider.getBlockNumber();
+    const address = await this.ledger.getAddress();
+    const batchSize = this.options.batchSize ?? 5_000;
+    let changed = !this.synced;
+
+    // A reorg can also leave the chain shorter than what was applied
+    const start = Math.max(this.options.startBlock, Math.min(this.state.lastBlock, head) + 1 - REORG_DEPTH);
+    let orphans = this.recent.filter(touched => touched.block >= start);
+    this.recent = this.recent.filter(touched => touched.block < start);
+    for (let from = start; from <= head; from += batchSize) {
+      const to = Math.min(head, from + batchSize - 1);
+      const logs = await this.provider.getLogs({ address, fromBlock: from, toBlock: to });
+      changed = (await this.apply(logs, orphans)) || changed;
+      orphans = [];
+      this.state = { ...this.state, lastBlock: to };
+    }
+    this.recent = this.recent.filter(touched => touched.block > head - REORG_DEPTH);
+
+    this.synced = true;
+    if (changed) this.listeners.forEach(listener => listener(this.state));
+  }
+
+  // Re-reads every record the logs or the orphaned blocks touch; returns whether any of them differ from the store
+  private async apply(logs: ethers.Log[], orphans: TouchedBlock[]): Promise<boolean> {
+    const blocks = new Map<number, TouchedBlock>();
+    for (const log of logs) {
+      const event = this.ledger.interface.parseLog(log);
+      if (!event) continue;
+      let touched = blocks.get(log.blockNumber);
+      if (!touched) {
+        touched = { block: log.blockNumber, requests: [], series: [], splits: [] };
+        blocks.set(log.blockNumber, touched);
+      }
+      if (REQUEST_EVENTS.has(event.name)) touched.requests.push(Number(event.args.requestId));
+      if (SERIES_EVENTS.has(event.name)) touched.series.push(Number(event.args.seriesId));
+      if (SPLIT_EVENTS.has(event.name)) touched.splits.push(Number(event.args.splitId));
+    }
+    this.recent.push(...blocks.values());
+
+    const touched = [...orphans, ...blocks.values()];
+    const requestIds = new Set(touched.flatMap(block => block.requests));
+    const seriesIds = new Set(touched.flatMap(block => block.series));
+    const splitIds = new Set(touched.flatMap(block => block.splits));
+    // Records created in a block the chain dropped no longer exist
+    const removed = { requests: [] as number[], series: [] as number[], splits: [] as number[] };
+    if (orphans.length > 0) {
+      const [requestCount, seriesCount, splitCount] = await Promise.all([
+        this.ledger.requestCount(),
+        this.ledger.seriesCount(),
+        this.ledger.splitCount()
+      ]);
+      removed.requests = dropAbove(requestIds, requestCount);
+      removed.series = dropAbove(seriesIds, seriesCount);
+      removed.splits = dropAbove(splitIds, splitCount);
+    }
+
+    const requestRecords = await Promise.all([...requestIds].map(id => this.ledger.getRequest(id)));
+    // Settling a share moves the split's counters without a split event
+    requestRecords.forEach(record => { if (record.splitId !== 0n) splitIds.add(Number(record.splitId)); });
+    const seriesRecords = await Promise.all([...seriesIds].map(id => this.ledger.getSeries(id)));
+    const splitRecords = await Promise.all([...splitIds].map(id => this.ledger.getSplit(id)));
+
+    const requests = merge(this.state.requests, [...requestIds], requestRecords, removed.requests);
+    const series = merge(this.state.series, [...seriesIds], seriesRecords, removed.series);
+    const splits = merge(this.state.splits, [...splitIds], splitRecords, removed.splits);
+    if (requests === this.state.requests && series === this.state.series && splits === this.state.splits) return false;
+
+    this.state = { ...this.state, requests, series, splits };
+    return true;
+  }
+}
@@ -0,0 +1,26 @@
+// links.ts
+// Links carry the chain and ledger so one opened against another deployment is refused
+// instead of showing an unrelated request with the same id. Kept free of DOM APIs so it can be
+// tested under node.
+import { ethers } from "ethers";
+import type { RequestLocation } from "./requestUri";
+
+// e.g. /request/12?chain=11155111&contract=0x...
+export function requestPath(location: RequestLocation): string {
+  const query = new URLSearchParams({ chain: String(location.chainId), contract: location.contract });
+  return `/request/${location.requestId}?${query}`;
+}
+
+export function requestUrl(location: RequestLocation, origin: string): string {
+  return origin + requestPath(location);
+}
+
+// Reads the /request/:id route; null when any part is missing or malformed
+export function parseRequestRoute(id: string | undefined, search: URLSearchParams): RequestLocation | null {
+  const chain = search.get("chain");
+  const contract = search.get("contract");
+  if (!id || !/^[1-9]\d*$/.test(id) || !chain || !/^[1-9]\d*$/.test(chain) || !contract || !ethers.isAddress(contract)) {
+    return null;
+  }
+  return { chainId: Number(chain), contract: ethers.getAddress(contract), requestId: Number(id) };
+}
@@ -5,15 +5,34 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
-import { BrowserRouter } from 'react-router-dom';
+import { defineChain, type Chain } from 'viem';
+import { BrowserRouter, Route, Routes } from 'react-router-dom';
+import { DEFAULT_NETWORK, NETWORKS } from './networks';
+import { setFheBackendLoader } from './fhe';
+import { loadRelayerBackend } from './relayer';
+import { loadMockBackend } from './mockBackend';
+
+// Networks without a relayer are local Hardhat nodes running the fhevm mock
+setFheBackendLoader(network => (network.fhe ? loadRelayerBackend(network) : loadMockBackend(network)));
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+// Every registry network, default first so RainbowKit offers it when the wallet is elsewhere
+const chains = [...NETWORKS]
+  .sort((a, b) => Number(b === DEFAULT_NETWORK) - Number(a === DEFAULT_NETWORK))
+  .map((network): Chain => defineChain({
+    id: network.chainId,
+    name: network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls: { default: { http: network.rpcUrls } },
+    blockExplorers: network.explorerUrl ? { default: { name: 'Explorer', url: network.explorerUrl } } : undefined,
+    testnet: true,
+  })) as [Chain, ...Chain[]];
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains,
 });
 
 const queryClient = new QueryClient();
@@ -122,7 +141,11 @@ createRoot(document.getElementById('root')!).render(
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            <Routes>
+              <Route path="/request/:id" element={<App />} />
+              <Route path="/open" element={<App />} />
+              <Route path="*" element={<App />} />
+            </Routes>
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
@@ -0,0 +1,41 @@
+// mockBackend.ts
+// FHE backend for a local Hardhat node, which runs the fhevm mock instead of a relayer. The node
+// reports its mock contracts through fhevm_relayer_metadata, and @fhevm/mock-utils encrypts and
+// decrypts against them. The package is imported only when such a network is used.
+import { ethers } from "ethers";
+import type { FheBackend } from "./fhe";
+import type { NetworkConfig } from "./networks";
+
+interface RelayerMetadata {
+  ACLAddress: string;
+  KMSVerifierAddress: string;
+  InputVerifierAddress: string;
+}
+
+const EIP712_DOMAIN_ABI = ["function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])"];
+
+export async function loadMockBackend(network: NetworkConfig): Promise<FheBackend> {
+  const provider = new ethers.JsonRpcProvider(network.rpcUrls[0], network.chainId, { staticNetwork: true });
+  let metadata: RelayerMetadata;
+  try {
+    metadata = await provider.send("fhevm_relayer_metadata", []);
+  } catch (error) {
+    provider.destroy();
+    throw new Error(`${network.name} is not running the fhevm mock; start it with npx hardhat node`, { cause: error });
+  }
+
+  // Signatures are checked against the gateway domains the verifier contracts were set up with
+  const domain = (address: string) => new ethers.Contract(address, EIP712_DOMAIN_ABI, provider).eip712Domain();
+  const [decryption, inputVerification] = await Promise.all([domain(metadata.KMSVerifierAddress), domain(metadata.InputVerifierAddress)]);
+
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: network.chainId,
+    gatewayChainId: Number(decryption[3]),
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: decryption[4],
+    verifyingContractAddressInputVerification: inputVerification[4]
+  });
+}
@@ -0,0 +1,106 @@
+// multicall.ts
+// A contract runner that batches view calls. Calls made in the same tick are sent as one Multicall3
+// aggregate3 eth_call, so reading N records costs one round trip instead of N. Where Multicall3 is
+// not deployed, or a batch fails as a whole, calls go out one by one. Kept free of DOM APIs so it can
+// be tested under node.
+import { ethers } from "ethers";
+
+// Where Multicall3 lives on most public chains; a local node needs the copy from the deploy script
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const multicall3 = new ethers.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+]);
+
+export interface MulticallOptions {
+  address?: string;
+  maxBatchSize?: number; // calls per aggregate3, to stay under the node's eth_call gas cap
+}
+
+interface PendingCall {
+  tx: { to: string; data: string };
+  resolve: (result: string) => void;
+  reject: (error: unknown) => void;
+}
+
+export class MulticallRunner implements ethers.ContractRunner {
+  readonly provider: ethers.Provider;
+  private readonly address: string;
+  private readonly maxBatchSize: number;
+  private queue: PendingCall[] = [];
+  private deployed: Promise<boolean> | null = null;
+
+  constructor(provider: ethers.Provider, options: MulticallOptions = {}) {
+    this.provider = provider;
+    this.address = options.address || MULTICALL3_ADDRESS;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+  }
+
+  async call(tx: ethers.TransactionRequest): Promise<string> {
+    // Inside a batch the call runs at the latest block with Multicall3 as msg.sender, so only plain
+    // reads qualify
+    const plain = typeof tx.to === "string" && tx.data && !tx.from && !tx.value && (tx.blockTag ?? "latest") === "latest";
+    if (!plain) return this.provider.call(tx);
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ tx: { to: tx.to as string, data: tx.data! }, resolve, reject });
+      if (this.queue.length === 1) setTimeout(() => this.flush(), 0);
+    });
+  }
+
+  private isDeployed(): Promise<boolean> {
+    if (!this.deployed) {
+      this.deployed = this.provider.getCode(this.address).then(code => code !== "0x");
+      // Ask again next time rather than remember a failed lookup
+      this.deployed.catch(() => { this.deployed = null; });
+    }
+    return this.deployed;
+  }
+
+  private async flush() {
+    const queue = this.queue;
+    this.queue = [];
+    const deployed = await this.isDeployed().catch(() => false);
+    if (!deployed) {
+      queue.forEach(call => this.callDirectly(call));
+      return;
+    }
+    for (let i = 0; i < queue.length; i += this.maxBatchSize) {
+      this.sendBatch(queue.slice(i, i + this.maxBatchSize));
+    }
+  }
+
+  private callDirectly(call: PendingCall) {
+    this.provider.call(call.tx).then(call.resolve, call.reject);
+  }
+
+  private async sendBatch(batch: PendingCall[]) {
+    if (batch.length === 1) {
+      this.callDirectly(batch[0]);
+      return;
+    }
+
+    let results: ethers.Result;
+    try {
+      const data = await this.provider.call({
+        to: this.address,
+        data: multicall3.encodeFunctionData("aggregate3", [batch.map(call => [call.tx.to, true, call.tx.data])])
+      });
+      [results] = multicall3.decodeFunctionResult("aggregate3", data);
+    } catch (error) {
+      console.warn("Multicall batch failed, sending its calls one by one:", error);
+      batch.forEach(call => this.callDirectly(call));
+      return;
+    }
+
+    batch.forEach((call, i) => {
+      const [success, returnData] = results[i];
+      if (success) {
+        call.resolve(returnData);
+      } else {
+        // The same error a direct eth_call would raise, so contracts still decode custom errors
+        call.reject(ethers.AbiCoder.getBuiltinCallException("call", call.tx, returnData));
+      }
+    });
+  }
+}
@@ -0,0 +1,120 @@
+// networks.ts
+// Registry of the chains the app can run on. Chain metadata, RPC endpoints and FHE relayer settings
+// live here; contract addresses come from config.json, which the deploy script fills in per chain ID.
+import deployments from "./config.json";
+import { MULTICALL3_ADDRESS } from "./multicall";
+
+// Arguments for the relayer SDK's createInstance, minus the wallet provider
+export interface FheRelayerConfig {
+  relayerUrl: string;
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+}
+
+export interface NetworkContracts {
+  adapter: string; // legacy UniversalAdapter
+  paymentRequestFhe: string; // batch-based PaymentRequestFHE
+  ledger: string;
+  ledgerStartBlock: number;
+  token: string;
+  tokenSymbol: string;
+  multicall: string; // Multicall3, for batching view calls
+}
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[]; // tried in order
+  wsUrl?: string;
+  explorerUrl?: string;
+  // null when there is no relayer, e.g. a local hardhat node, which mockBackend.ts talks to instead
+  fhe: FheRelayerConfig | null;
+  contracts: NetworkContracts;
+}
+
+const SEPOLIA: Omit<NetworkConfig, "contracts"> = {
+  chainId: 11155111,
+  name: "Sepolia",
+  nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+  rpcUrls: [
+    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
+    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
+    "https://rpc.sepolia.org",
+    "https://rpc2.sepolia.org",
+    "https://eth-sepolia.public.blastapi.io"
+  ],
+  wsUrl: "wss://sepolia.infura.io/ws/v3/96406da962744120afbe0cf64c8bd7b3",
+  explorerUrl: "https://sepolia.etherscan.io",
+  fhe: {
+    relayerUrl: "https://relayer.testnet.zama.cloud",
+    gatewayChainId: 55815,
+    aclContractAddress: "0x687820221192C5B662b25367F70076A37bc79b6c",
+    kmsContractAddress: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+    inputVerifierContractAddress: "0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4",
+    verifyingContractAddressDecryption: "0xb6E160B1ff80D67Bfe90A85eE06Ce0A2613607D1",
+    verifyingContractAddressInputVerification: "0x7048C39f048125eDa9d678AEbaDfB22F7900a29F"
+  }
+};
+
+const HARDHAT: Omit<NetworkConfig, "contracts"> = {
+  chainId: 31337,
+  name: "Hardhat",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: ["http://127.0.0.1:8545"],
+  wsUrl: "ws://127.0.0.1:8545",
+  fhe: null
+};
+
+const NO_CONTRACTS: NetworkContracts = {
+  adapter: "",
+  paymentRequestFhe: "",
+  ledger: "",
+  ledgerStartBlock: 0,
+  token: "",
+  tokenSymbol: "cPAY",
+  multicall: MULTICALL3_ADDRESS
+};
+
+const deployedContracts = (chainId: number): NetworkContracts => ({
+  ...NO_CONTRACTS,
+  ...(deployments.networks as Record<string, Partial<NetworkContracts> | undefined>)[chainId]
+});
+
+export const NETWORKS: NetworkConfig[] = [SEPOLIA, HARDHAT].map(network => ({
+  ...network,
+  contracts: deployedContracts(network.chainId)
+}));
+
+export const DEFAULT_CHAIN_ID = deployments.defaultChainId;
+
+export function getNetwork(chainId: number | undefined): NetworkConfig | undefined {
+  return NETWORKS.find(network => network.chainId === chainId);
+}
+
+export const DEFAULT_NETWORK = getNetwork(DEFAULT_CHAIN_ID) ?? NETWORKS[0];
+
+let active = DEFAULT_NETWORK;
+
+export function activeNetwork(): NetworkConfig {
+  return active;
+}
+
+// Follows the wallet's chain; chains missing from the registry fall back to the default network
+export function setActiveNetwork(chainId: number | undefined): NetworkConfig {
+  active = getNetwork(chainId) ?? DEFAULT_NETWORK;
+  return active;
+}
+
+// Parameters for wallet_addEthereumChain (EIP-3085)
+export const addChainParams = (network: NetworkConfig) => ({
+  chainId: "0x" + network.chainId.toString(16),
+  chainName: network.name,
+  nativeCurrency: network.nativeCurrency,
+  rpcUrls: network.rpcUrls,
+  blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
+});
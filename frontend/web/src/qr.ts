@@ -0,0 +1,323 @@
+// qr.ts
+// Minimal QR code encoder for request links: byte mode, error correction level M, versions 1-10
+// (up to 213 bytes). Follows ISO/IEC 18004; no dependency so links can be rendered as inline SVG.
+
+// Per version: EC codewords per block, then [block count, data codewords per block] for each group
+const VERSIONS_M: [number, [number, number][]][] = [
+  [10, [[1, 16]]],
+  [16, [[1, 28]]],
+  [26, [[1, 44]]],
+  [18, [[2, 32]]],
+  [24, [[2, 43]]],
+  [16, [[4, 27]]],
+  [18, [[4, 31]]],
+  [22, [[2, 38], [2, 39]]],
+  [22, [[3, 36], [2, 37]]],
+  [26, [[4, 43], [1, 44]]]
+];
+
+const ALIGNMENT_POSITIONS: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50]
+];
+
+const EC_LEVEL_M = 0; // format bits for level M
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor); });
+  }
+  return result;
+};
+
+const dataCapacity = (version: number) =>
+  VERSIONS_M[version - 1][1].reduce((sum, [count, length]) => sum + count * length, 0);
+
+// Mode indicator, length, payload, terminator and padding, split into codewords
+const encodeData = (bytes: Uint8Array, version: number): number[] => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  const capacityBits = dataCapacity(version) * 8;
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+};
+
+// Splits data into blocks, appends their error correction and interleaves both parts
+const addErrorCorrection = (data: number[], version: number): number[] => {
+  const [ecLength, groups] = VERSIONS_M[version - 1];
+  const divisor = reedSolomonDivisor(ecLength);
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (const [count, length] of groups) {
+    for (let i = 0; i < count; i++) {
+      blocks.push(data.slice(offset, offset + length));
+      offset += length;
+    }
+  }
+  const ecBlocks = blocks.map(block => reedSolomonRemainder(block, divisor));
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map(block => block.length));
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach(block => { if (i < block.length) result.push(block[i]); });
+  }
+  for (let i = 0; i < ecLength; i++) {
+    ecBlocks.forEach(block => result.push(block[i]));
+  }
+  return result;
+};
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = ALIGNMENT_POSITIONS[this.version - 1];
+    const last = positions.length - 1;
+    positions.forEach((x, i) => positions.forEach((y, j) => {
+      // Skip the three corners taken by finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    }));
+
+    this.drawFormat(0); // reserves the format area; redrawn once the mask is chosen
+    this.drawVersion();
+  }
+
+  private drawFinder(cx: number, cy: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= this.size || y >= this.size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  drawFormat(mask: number) {
+    const data = (EC_LEVEL_M << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true); // always-dark module
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  // Zigzag placement from the bottom-right corner, two columns at a time, skipping the timing column
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (this.reserved[y][x] || i >= codewords.length * 8) continue;
+          this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+          i++;
+        }
+      }
+    }
+  }
+
+  // Masks are self-inverse, so applying the same mask twice restores the matrix
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penalty(): number {
+    let score = 0;
+    const lines = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map(row => row[x]))
+    ];
+    for (const line of lines) {
+      // Runs of five or more modules of one colour
+      let run = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+      // Finder-like 1:1:3:1:1 patterns with four light modules on one side
+      const text = line.map(dark => (dark ? "1" : "0")).join("");
+      score += 40 * ((text.match(/(?=10111010000)/g)?.length ?? 0) + (text.match(/(?=00001011101)/g)?.length ?? 0));
+    }
+    // 2x2 blocks of one colour
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const colour = this.modules[y][x];
+        if (colour === this.modules[y][x + 1] && colour === this.modules[y + 1][x] && colour === this.modules[y + 1][x + 1]) {
+          score += 3;
+        }
+      }
+    }
+    // Balance of dark and light modules
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    score += 10 * Math.floor(Math.abs((dark * 100) / (this.size * this.size) - 50) / 5);
+    return score;
+  }
+}
+
+// Encodes `text` as UTF-8 and returns the module matrix, modules[y][x] true for dark
+export function encodeQr(text: string, mask?: number): boolean[][] {
+  const bytes = new TextEncoder().encode(text);
+  const version = VERSIONS_M.findIndex((_, i) => dataCapacity(i + 1) * 8 >= 4 + (i + 1 < 10 ? 8 : 16) + bytes.length * 8) + 1;
+  if (version === 0) throw new Error(`Text too long for a QR code: ${bytes.length} bytes`);
+
+  const matrix = new QrMatrix(version);
+  matrix.drawCodewords(addErrorCorrection(encodeData(bytes, version), version));
+
+  let chosen = mask ?? 0;
+  if (mask === undefined) {
+    let best = Infinity;
+    for (let candidate = 0; candidate < MASKS.length; candidate++) {
+      matrix.applyMask(candidate);
+      matrix.drawFormat(candidate);
+      const score = matrix.penalty();
+      if (score < best) {
+        best = score;
+        chosen = candidate;
+      }
+      matrix.applyMask(candidate);
+    }
+  }
+  matrix.applyMask(chosen);
+  matrix.drawFormat(chosen);
+  return matrix.modules;
+}
+
+// Light border around the code that scanners need, in modules
+export const QR_QUIET_ZONE = 4;
+
+// One SVG path for all dark modules, offset by the quiet zone
+export function qrPath(modules: boolean[][]): string {
+  return modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QR_QUIET_ZONE},${y + QR_QUIET_ZONE}h1v1h-1z` : "")))
+    .join("");
+}
+
+// Standalone SVG document, e.g. for downloading
+export function qrSvg(text: string, moduleSize = 4): string {
+  const modules = encodeQr(text);
+  const viewBox = modules.length + QR_QUIET_ZONE * 2;
+  const size = viewBox * moduleSize;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${viewBox} ${viewBox}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/><path d="${qrPath(modules)}" fill="#000000"/></svg>`;
+}
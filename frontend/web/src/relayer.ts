@@ -0,0 +1,12 @@
+// relayer.ts
+// Loads the Zama relayer SDK as the FHE backend of networks that have a relayer. Kept apart from
+// fhe.ts because the SDK needs the browser.
+import type { FheBackend } from "./fhe";
+import type { NetworkConfig } from "./networks";
+
+export async function loadRelayerBackend(network: NetworkConfig): Promise<FheBackend> {
+  if (!network.fhe) throw new Error(`No FHE relayer is configured for ${network.name}`);
+  const { initSDK, createInstance } = await import("@zama-fhe/relayer-sdk/web");
+  await initSDK();
+  return createInstance({ ...network.fhe, chainId: network.chainId, network: window.ethereum });
+}
@@ -0,0 +1,70 @@
+// requestUri.ts
+// Payment request URIs, modelled on EIP-681:
+//
+//   confidentialpay:<contract>@<chainId>/request/<id>
+//
+// <contract> is the PaymentRequestLedger address (checksummed when mixed case), <chainId> and <id>
+// are positive decimals without leading zeros. Nothing else is allowed: no query, fragment,
+// trailing slash or whitespace. The scheme is matched case-insensitively, as RFC 3986 requires.
+// Kept free of DOM APIs so other tools can reuse it.
+import { ethers } from "ethers";
+
+export const REQUEST_URI_SCHEME = "confidentialpay";
+
+// Where a request lives: a request id is only meaningful for one ledger on one chain
+export interface RequestLocation {
+  chainId: number;
+  contract: string;
+  requestId: number;
+}
+
+export class InvalidRequestUriError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRequestUriError";
+  }
+}
+
+const URI_PATTERN = /^([A-Za-z][A-Za-z0-9+.-]*):(0x[0-9A-Fa-f]{40})@(\d+)\/request\/(\d+)$/;
+
+const parsePositive = (value: string, name: string): number => {
+  if (!/^[1-9]\d*$/.test(value)) throw new InvalidRequestUriError(`${name} must be a positive decimal without leading zeros`);
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed)) throw new InvalidRequestUriError(`${name} is too large`);
+  return parsed;
+};
+
+const checkPositive = (value: number, name: string) => {
+  if (!Number.isSafeInteger(value) || value <= 0) throw new InvalidRequestUriError(`${name} must be a positive integer`);
+};
+
+export function formatRequestUri(location: RequestLocation): string {
+  checkPositive(location.chainId, "Chain ID");
+  checkPositive(location.requestId, "Request ID");
+  if (!ethers.isAddress(location.contract)) throw new InvalidRequestUriError("Contract must be an address");
+  return `${REQUEST_URI_SCHEME}:${ethers.getAddress(location.contract)}@${location.chainId}/request/${location.requestId}`;
+}
+
+// Throws InvalidRequestUriError naming the first part that does not match the format
+export function parseRequestUri(uri: string): RequestLocation {
+  const match = URI_PATTERN.exec(uri);
+  if (!match) throw new InvalidRequestUriError(`Not a ${REQUEST_URI_SCHEME} request URI`);
+  const [, scheme, contract, chainId, requestId] = match;
+  if (scheme.toLowerCase() !== REQUEST_URI_SCHEME) throw new InvalidRequestUriError(`Unsupported scheme "${scheme}"`);
+  if (!ethers.isAddress(contract)) throw new InvalidRequestUriError("Contract address has an invalid checksum");
+
+  return {
+    chainId: parsePositive(chainId, "Chain ID"),
+    contract: ethers.getAddress(contract),
+    requestId: parsePositive(requestId, "Request ID")
+  };
+}
+
+export function isRequestUri(value: string): boolean {
+  try {
+    parseRequestUri(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
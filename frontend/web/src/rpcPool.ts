@@ -0,0 +1,180 @@
+// rpcPool.ts
+// A long-lived ethers provider over several RPC endpoints of one chain. Every request goes to the
+// healthiest endpoint, ranked by a moving average of its latency weighted by its recent error rate.
+// Endpoints that keep failing sit out a growing cooldown, and read-only calls that fail on one
+// endpoint are retried on the next. Kept free of DOM APIs so it can be tested under node.
+import { ethers } from "ethers";
+
+// Calls that return the same answer however often they are sent
+const IDEMPOTENT_METHODS = new Set([
+  "eth_blockNumber",
+  "eth_call",
+  "eth_chainId",
+  "eth_estimateGas",
+  "eth_feeHistory",
+  "eth_gasPrice",
+  "eth_getBalance",
+  "eth_getBlockByHash",
+  "eth_getBlockByNumber",
+  "eth_getCode",
+  "eth_getLogs",
+  "eth_getStorageAt",
+  "eth_getTransactionByHash",
+  "eth_getTransactionCount",
+  "eth_getTransactionReceipt",
+  "eth_maxPriorityFeePerGas",
+  "net_version"
+]);
+
+// JSON-RPC errors that describe the endpoint rather than the call, e.g. "limit exceeded"
+const ENDPOINT_ERROR_CODES = new Set([-32005, 429]);
+
+const SMOOTHING = 0.3;
+
+export interface EndpointHealth {
+  url: string;
+  latencyMs: number | null; // moving average of successful calls, null until one succeeds
+  errorRate: number; // moving average between 0 and 1
+  requests: number;
+  failures: number;
+  healthy: boolean; // false while cooling down
+  lastError: string | null;
+}
+
+export interface RpcPoolOptions {
+  timeout?: number; // ms per attempt
+  failureThreshold?: number; // consecutive failures before an endpoint cools down
+  cooldownMs?: number; // first cooldown; doubles with every further failure
+  maxCooldownMs?: number;
+  maxAttempts?: number; // endpoints tried per idempotent call
+}
+
+interface Endpoint {
+  url: string;
+  latency: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastError: string | null;
+}
+
+type RpcResponse = ethers.JsonRpcResult | ethers.JsonRpcError;
+
+export class RpcPool extends ethers.JsonRpcApiProvider {
+  private readonly endpoints: Endpoint[];
+  private readonly settings: Required<RpcPoolOptions>;
+
+  constructor(urls: string[], network: ethers.Networkish, options: RpcPoolOptions = {}) {
+    if (urls.length === 0) throw new Error("RpcPool needs at least one endpoint");
+    const staticNetwork = ethers.Network.from(network);
+    super(staticNetwork, { staticNetwork });
+    this.endpoints = urls.map(url => ({
+      url,
+      latency: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+      lastError: null
+    }));
+    this.settings = {
+      timeout: 10_000,
+      failureThreshold: 2,
+      cooldownMs: 15_000,
+      maxCooldownMs: 5 * 60_000,
+      maxAttempts: 3,
+      ...options
+    };
+  }
+
+  health(): EndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => ({
+      url: endpoint.url,
+      latencyMs: endpoint.latency === null ? null : Math.round(endpoint.latency),
+      errorRate: endpoint.errorRate,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      healthy: endpoint.cooldownUntil <= now,
+      lastError: endpoint.lastError
+    }));
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<RpcResponse[]> {
+    const calls = Array.isArray(payload) ? payload : [payload];
+    const idempotent = calls.every(call => IDEMPOTENT_METHODS.has(call.method));
+    const candidates = this.ranked().slice(0, idempotent ? this.settings.maxAttempts : 1);
+
+    let lastError: unknown;
+    for (const endpoint of candidates) {
+      try {
+        return await this.attempt(endpoint, payload);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  // Healthy endpoints by score; if all are cooling down, the one that recovers first
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    const healthy = this.endpoints.filter(endpoint => endpoint.cooldownUntil <= now);
+    if (healthy.length === 0) return [...this.endpoints].sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    // Unmeasured endpoints score 0 so each gets tried once
+    const score = (endpoint: Endpoint) => (endpoint.latency ?? 0) * (1 + 4 * endpoint.errorRate);
+    return healthy.sort((a, b) => score(a) - score(b));
+  }
+
+  private async attempt(endpoint: Endpoint, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) {
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.body = payload;
+    request.setHeader("content-type", "application/json");
+    request.timeout = this.settings.timeout;
+    // Throttled endpoints are rotated away from instead of retried in place
+    request.setThrottleParams({ maxAttempts: 1 });
+
+    endpoint.requests++;
+    const started = Date.now();
+    try {
+      const response = await request.send();
+      response.assertOk();
+      const body = response.bodyJson;
+      const results: RpcResponse[] = Array.isArray(body) ? body : [body];
+      const endpointError = results.find(result => "error" in result && ENDPOINT_ERROR_CODES.has(result.error.code));
+      if (endpointError && "error" in endpointError) throw new Error(endpointError.error.message);
+      this.recordSuccess(endpoint, Date.now() - started);
+      return results;
+    } catch (error) {
+      this.recordFailure(endpoint, error);
+      throw error;
+    }
+  }
+
+  private recordSuccess(endpoint: Endpoint, latency: number) {
+    endpoint.latency = endpoint.latency === null
+      ? latency
+      : endpoint.latency + SMOOTHING * (latency - endpoint.latency);
+    endpoint.errorRate *= 1 - SMOOTHING;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+  }
+
+  private recordFailure(endpoint: Endpoint, error: unknown) {
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.errorRate += SMOOTHING * (1 - endpoint.errorRate);
+    // ethers' full messages repeat the request, URL included
+    endpoint.lastError = error instanceof Error
+      ? (error as { shortMessage?: string }).shortMessage ?? error.message
+      : String(error);
+    const excess = endpoint.consecutiveFailures - this.settings.failureThreshold;
+    if (excess >= 0) {
+      const cooldown = Math.min(this.settings.cooldownMs * 2 ** excess, this.settings.maxCooldownMs);
+      endpoint.cooldownUntil = Date.now() + cooldown;
+    }
+  }
+}
@@ -0,0 +1,349 @@
+// transactions.ts
+// Follows submitted transactions until they settle. Each poll reads the sender's nonce and every open
+// transaction's receipt, which tells mined, reverted, replaced and dropped transactions apart without
+// watching the mempool. Pending transactions can be sped up or cancelled by sending a replacement at
+// the same nonce with higher fees. The list is plain data so the app can persist it and pick up
+// where it left off after a reload. Kept free of DOM APIs so it can be tested under node.
+import { ethers } from "ethers";
+
+export type TransactionStatus =
+  | "pending" // not in a block yet
+  | "mined" // in a block, short of the wanted confirmations
+  | "confirmed"
+  | "failed" // reverted
+  | "replaced" // another transaction took its nonce
+  | "cancelled" // a cancellation took its nonce
+  | "dropped"; // the network no longer knows it
+
+export interface TrackedTransaction {
+  hash: string;
+  label: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: bigint;
+  gasLimit: bigint;
+  gasPrice: bigint | null;
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  submittedAt: number; // ms
+  status: TransactionStatus;
+  blockNumber: number | null;
+  confirmations: number;
+  replaces: string | null; // hash of the transaction this one speeds up or cancels
+  cancel: boolean;
+  replacedBy: string | null;
+}
+
+export interface TransactionManagerOptions {
+  confirmations?: number; // blocks before a transaction counts as confirmed
+  pollInterval?: number; // ms
+  dropAfterMs?: number; // how long an unknown transaction may stay pending before it counts as dropped
+  transactions?: TrackedTransaction[]; // restored from an earlier session
+}
+
+// Percent of the original fees a replacement pays; nodes want at least 110
+const FEE_BUMP_PERCENT = 120n;
+
+// How far back a replacement sent from outside is looked for; full nodes keep about this much recent state
+const REPLACEMENT_SEARCH_BLOCKS = 128;
+
+const OPEN: TransactionStatus[] = ["pending", "mined"];
+
+const maxOf = (a: bigint, b: bigint) => (a > b ? a : b);
+
+// wait() rejects with this when the manager is stopped before the transaction settles
+export class TrackingStoppedError extends Error {
+  constructor(readonly hash: string) {
+    super("Stopped following the transaction before it settled");
+    this.name = "TrackingStoppedError";
+  }
+}
+
+const toTracked = (
+  response: ethers.TransactionResponse,
+  label: string,
+  links: { replaces?: string; cancel?: boolean } = {}
+): TrackedTransaction => ({
+  hash: response.hash,
+  label,
+  chainId: Number(response.chainId),
+  from: response.from,
+  nonce: response.nonce,
+  to: response.to,
+  data: response.data,
+  value: response.value,
+  gasLimit: response.gasLimit,
+  gasPrice: response.maxFeePerGas === null ? response.gasPrice : null,
+  maxFeePerGas: response.maxFeePerGas,
+  maxPriorityFeePerGas: response.maxPriorityFeePerGas,
+  submittedAt: Date.now(),
+  status: "pending",
+  blockNumber: null,
+  confirmations: 0,
+  replaces: links.replaces ?? null,
+  cancel: links.cancel ?? false,
+  replacedBy: null
+});
+
+export class TransactionManager {
+  private readonly provider: ethers.Provider;
+  private readonly settings: Required<Omit<TransactionManagerOptions, "transactions">>;
+  private transactions: TrackedTransaction[];
+  private readonly listeners = new Set<(transactions: TrackedTransaction[]) => void>();
+  // Transactions whose nonce was used while they had no receipt; a second sighting settles them
+  private readonly nonceUsed = new Set<string>();
+  // Rejects each unsettled wait() when the manager stops
+  private readonly waiters = new Set<() => void>();
+  private refreshing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(provider: ethers.Provider, options: TransactionManagerOptions = {}) {
+    this.provider = provider;
+    this.settings = {
+      confirmations: options.confirmations ?? 2,
+      pollInterval: options.pollInterval ?? 4000,
+      dropAfterMs: options.dropAfterMs ?? 5 * 60_000
+    };
+    this.transactions = options.transactions ?? [];
+  }
+
+  // Newest first
+  list(): TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  get(hash: string): TrackedTransaction | undefined {
+    return this.transactions.find(tx => tx.hash === hash);
+  }
+
+  subscribe(listener: (transactions: TrackedTransaction[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  track(response: ethers.TransactionResponse, label: string, links: { replaces?: string; cancel?: boolean } = {}) {
+    const tracked = toTracked(response, label, links);
+    this.update([tracked, ...this.transactions.filter(tx => tx.hash !== tracked.hash)]);
+    return tracked;
+  }
+
+  // Adds transactions saved by an earlier session that this one does not know yet
+  restore(saved: TrackedTransaction[]) {
+    const known = new Set(this.transactions.map(tx => tx.hash));
+    const added = saved.filter(tx => !known.has(tx.hash));
+    if (added.length > 0) this.update([...this.transactions, ...added].sort((a, b) => b.submittedAt - a.submittedAt));
+  }
+
+  dismiss(hash: string) {
+    this.update(this.transactions.filter(tx => tx.hash !== hash));
+  }
+
+  // Resolves once the transaction, or the speed-up that replaced it, is in a block; rejects if it
+  // reverted, will never be mined, or the manager stops first
+  wait(hash: string): Promise<TrackedTransaction> {
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        let tx = this.get(hash);
+        while (tx?.status === "replaced" && tx.replacedBy) tx = this.get(tx.replacedBy);
+        if (!tx) reject(new Error("Transaction is no longer tracked"));
+        else if (tx.status === "mined" || tx.status === "confirmed") resolve(tx);
+        else if (tx.status === "failed") reject(new Error("Transaction reverted"));
+        else if (tx.status === "cancelled") reject(new Error("Transaction was cancelled"));
+        else if (tx.status === "replaced") reject(new Error("Transaction was replaced by another one from the same account"));
+        else if (tx.status === "dropped") reject(new Error("Transaction was dropped by the network"));
+        else return false;
+        return true;
+      };
+      if (settle()) return;
+      const stopped = () => {
+        unsubscribe();
+        reject(new TrackingStoppedError(hash));
+      };
+      const unsubscribe = this.subscribe(() => {
+        if (!settle()) return;
+        unsubscribe();
+        this.waiters.delete(stopped);
+      });
+      this.waiters.add(stopped);
+    });
+  }
+
+  // Sends the same transaction again at the same nonce with higher fees
+  async speedUp(hash: string, signer: ethers.Signer): Promise<TrackedTransaction> {
+    const original = this.pendingTransaction(hash);
+    const response = await signer.sendTransaction({
+      to: original.to,
+      data: original.data,
+      value: original.value,
+      nonce: original.nonce,
+      gasLimit: original.gasLimit,
+      chainId: original.chainId,
+      ...(await this.bumpedFees(original))
+    });
+    return this.trackReplacement(original, response, original.label, false);
+  }
+
+  // Takes the nonce with an empty transfer to the sender, so the original can no longer be mined
+  async cancel(hash: string, signer: ethers.Signer): Promise<TrackedTransaction> {
+    const original = this.pendingTransaction(hash);
+    const response = await signer.sendTransaction({
+      to: original.from,
+      data: "0x",
+      value: 0n,
+      nonce: original.nonce,
+      gasLimit: 21_000n,
+      chainId: original.chainId,
+      ...(await this.bumpedFees(original))
+    });
+    return this.trackReplacement(original, response, `Cancel: ${original.label}`, true);
+  }
+
+  // Concurrent callers share one pass
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.check().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    const tick = async () => {
+      try {
+        await this.refresh();
+      } catch (error) {
+        console.warn("Checking transactions failed:", error);
+      }
+      if (this.running) this.timer = setTimeout(tick, this.settings.pollInterval);
+    };
+    tick();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.waiters.forEach(stopped => stopped());
+    this.waiters.clear();
+  }
+
+  private pendingTransaction(hash: string): TrackedTransaction {
+    const tx = this.get(hash);
+    if (!tx || tx.status !== "pending") throw new Error("Only pending transactions can be sped up or cancelled");
+    return tx;
+  }
+
+  private trackReplacement(original: TrackedTransaction, response: ethers.TransactionResponse, label: string, cancel: boolean) {
+    // Some wallets ignore the nonce a site asks for and send a new transaction instead
+    if (response.nonce !== original.nonce) {
+      this.track(response, label);
+      throw new Error("The wallet sent a new transaction instead of replacing the pending one");
+    }
+    return this.track(response, label, { replaces: original.hash, cancel });
+  }
+
+  private async bumpedFees(tx: TrackedTransaction) {
+    const current = await this.provider.getFeeData();
+    const bump = (fee: bigint) => (fee * FEE_BUMP_PERCENT + 99n) / 100n;
+    if (tx.maxFeePerGas !== null) {
+      const maxPriorityFeePerGas = maxOf(bump(tx.maxPriorityFeePerGas ?? 0n), current.maxPriorityFeePerGas ?? 0n);
+      const maxFeePerGas = maxOf(maxOf(bump(tx.maxFeePerGas), current.maxFeePerGas ?? 0n), maxPriorityFeePerGas);
+      return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+    return { gasPrice: maxOf(bump(tx.gasPrice ?? 0n), current.gasPrice ?? 0n) };
+  }
+
+  private async check() {
+    const open = this.transactions.filter(tx => OPEN.includes(tx.status));
+    if (open.length === 0) return;
+
+    // Nonces before receipts: a transaction mined in between then shows up with its receipt
+    const head = await this.provider.getBlockNumber();
+    const senders = [...new Set(open.map(tx => tx.from))];
+    const nonces = new Map(await Promise.all(senders.map(async from =>
+      [from, await this.provider.getTransactionCount(from, "latest")] as const)));
+    const receipts = new Map(await Promise.all(open.map(async tx =>
+      [tx.hash, await this.provider.getTransactionReceipt(tx.hash)] as const)));
+
+    const changes = new Map<string, Partial<TrackedTransaction>>();
+    const found: TrackedTransaction[] = []; // outside replacements that carry on a tracked transaction
+    for (const tx of open) {
+      const receipt = receipts.get(tx.hash);
+      if (receipt) {
+        const confirmations = Math.max(0, head - receipt.blockNumber + 1);
+        const status = receipt.status === 0 ? "failed" : confirmations >= this.settings.confirmations ? "confirmed" : "mined";
+        changes.set(tx.hash, { status, blockNumber: receipt.blockNumber, confirmations });
+      } else if (tx.status === "mined") {
+        // Its block was reorged away
+        changes.set(tx.hash, { status: "pending", blockNumber: null, confirmations: 0 });
+      } else if (nonces.get(tx.from)! > tx.nonce) {
+        // The winner may have settled in an earlier poll, e.g. while this one was restored from another session
+        const winner = this.transactions.find(other =>
+          other !== tx && other.from === tx.from && other.nonce === tx.nonce && (receipts.get(other.hash) || other.blockNumber !== null));
+        if (winner) {
+          changes.set(tx.hash, { status: winner.cancel ? "cancelled" : "replaced", replacedBy: winner.hash });
+        } else if (this.nonceUsed.has(tx.hash)) {
+          // Replaced from outside, e.g. by the wallet's own speed-up or cancel
+          const replacement = await this.findReplacement(tx, head);
+          if (replacement && replacement.to === tx.to && replacement.data === tx.data && replacement.value === tx.value) {
+            // Same call at a new price; follow it in the original's place
+            const receipt = await this.provider.getTransactionReceipt(replacement.hash);
+            const confirmations = receipt ? Math.max(0, head - receipt.blockNumber + 1) : 0;
+            found.push({
+              ...toTracked(replacement, tx.label, { replaces: tx.hash }),
+              status: !receipt ? "pending" : receipt.status === 0 ? "failed" : confirmations >= this.settings.confirmations ? "confirmed" : "mined",
+              blockNumber: receipt?.blockNumber ?? null,
+              confirmations
+            });
+            changes.set(tx.hash, { status: "replaced", replacedBy: replacement.hash });
+          } else {
+            const cancelled = replacement?.to?.toLowerCase() === tx.from.toLowerCase() && replacement.data === "0x" && replacement.value === 0n;
+            changes.set(tx.hash, { status: cancelled ? "cancelled" : "replaced" });
+          }
+        } else {
+          // Endpoints can lag each other; wait one more poll before calling it replaced
+          this.nonceUsed.add(tx.hash);
+        }
+      } else if (Date.now() - tx.submittedAt >= this.settings.dropAfterMs && !(await this.provider.getTransaction(tx.hash))) {
+        changes.set(tx.hash, { status: "dropped" });
+      }
+    }
+
+    const changed = this.transactions.map(tx => {
+      const change = changes.get(tx.hash);
+      if (!change || Object.entries(change).every(([key, value]) => tx[key as keyof TrackedTransaction] === value)) return tx;
+      this.nonceUsed.delete(tx.hash);
+      return { ...tx, ...change };
+    });
+    const known = new Set(changed.map(tx => tx.hash));
+    const added = found.filter(tx => !known.has(tx.hash));
+    if (added.length > 0 || changed.some((tx, i) => tx !== this.transactions[i])) this.update([...added, ...changed]);
+  }
+
+  // The transaction mined at this one's nonce: the sender's nonce first moves past it in that block
+  private async findReplacement(tx: TrackedTransaction, head: number): Promise<ethers.TransactionResponse | null> {
+    let before = Math.max(0, head - REPLACEMENT_SEARCH_BLOCKS);
+    if ((await this.provider.getTransactionCount(tx.from, before)) > tx.nonce) return null;
+    let after = head;
+    while (after - before > 1) {
+      const middle = Math.floor((before + after) / 2);
+      if ((await this.provider.getTransactionCount(tx.from, middle)) > tx.nonce) after = middle;
+      else before = middle;
+    }
+    const block = await this.provider.getBlock(after, true);
+    return block?.prefetchedTransactions.find(other =>
+      other.from.toLowerCase() === tx.from.toLowerCase() && other.nonce === tx.nonce) ?? null;
+  }
+
+  private update(transactions: TrackedTransaction[]) {
+    this.transactions = transactions;
+    this.listeners.forEach(listener => listener(transactions));
+  }
+}
@@ -1,8 +1,17 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // TypeChain bindings are imported from the repo root and must share our ethers copy
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../types"]
+    }
+  },
   define: {
     'process.env': process.env
   },
@@ -8,6 +8,10 @@ const config: HardhatUserConfig = {
   networks: {
     hardhat: {
       chainId: 31337,
+      // Estimate gas before sending, so a reverting transaction fails during estimation. Sent with the fixed
+      // block gas limit, it fails in eth_sendTransaction instead, and when Hardhat cannot trace the revert
+      // (it sometimes cannot with viaIR) the fhevm plugin asserts instead of reporting the custom error
+      gas: "auto",
     },
     sepolia: {
       chainId: 11155111,
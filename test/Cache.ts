@@ -0,0 +1,153 @@
+/// <reference lib="dom" />
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+  appendAction,
+  closeCache,
+  deriveCacheKey,
+  loadActions,
+  loadDecryptions,
+  loadLedgerSnapshot,
+  loadTransactions,
+  openCache,
+  saveDecryptions,
+  saveLedgerSnapshot,
+  saveTransactions,
+  scopeKey,
+} from "../frontend/web/src/cache";
+import { CachedDecryption, exportDecryptions, getCachedDecryption, importDecryptions, setFheBackend } from "../frontend/web/src/fhe";
+import { LedgerSnapshot } from "../frontend/web/src/indexer";
+import { TrackedTransaction } from "../frontend/web/src/transactions";
+
+const LEDGER = "0x079C5f2595C761Aa2A57782CF1c03C031C3dE4a1";
+const ALICE = "0x00000000000000000000000000000000000000a1";
+const BOB = "0x00000000000000000000000000000000000000b0";
+const HANDLE = ethers.zeroPadValue("0x01", 32);
+const OTHER_HANDLE = ethers.zeroPadValue("0x02", 32);
+
+const scope = (account?: string) => ({ chainId: 31337, contract: LEDGER, account });
+const snapshot = (lastBlock: number): LedgerSnapshot => ({ lastBlock, requests: [[1, "0x1234"]], series: [], splits: [] });
+const later = () => Date.now() + 60_000;
+
+describe("cache", function () {
+  beforeEach(async function () {
+    await closeCache();
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  after(async function () {
+    await closeCache();
+  });
+
+  describe("migrations", function () {
+    it("creates every store in a new database", async function () {
+      const db = await openCache();
+      expect(db.version).to.eq(2);
+      expect(Array.from(db.objectStoreNames)).to.have.members(["ledgers", "actions", "decryptions", "transactions"]);
+    });
+
+    it("upgrades a version 1 database and keeps its data", async function () {
+      const old = await new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open("confidentialpay", 1);
+        request.onupgradeneeded = () => ["ledgers", "actions", "decryptions"].forEach(name => request.result.createObjectStore(name));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      await new Promise((resolve, reject) => {
+        const put = old.transaction("ledgers", "readwrite").objectStore("ledgers").put(snapshot(7), scopeKey(scope()));
+        put.onsuccess = resolve;
+        put.onerror = reject;
+      });
+      old.close();
+
+      expect(await loadLedgerSnapshot(scope())).to.deep.eq(snapshot(7));
+      expect(await loadTransactions(scope(ALICE))).to.deep.eq([]);
+    });
+  });
+
+  it("shares ledger snapshots between accounts", async function () {
+    await saveLedgerSnapshot(scope(ALICE), snapshot(9));
+
+    expect(await loadLedgerSnapshot(scope(BOB))).to.deep.eq(snapshot(9));
+    expect(await loadLedgerSnapshot({ ...scope(), chainId: 1 })).to.eq(undefined);
+  });
+
+  it("keeps the newest actions of each account", async function () {
+    await Promise.all(Array.from({ length: 205 }, (_, i) => appendAction(scope(ALICE), i)));
+    // Scopes ignore address case
+    await appendAction(scope(BOB.toUpperCase().replace("0X", "0x")), "bob");
+
+    const actions = await loadActions<number>(scope(ALICE));
+    expect(actions).to.have.length(200);
+    expect(actions[0]).to.eq(204);
+    expect(await loadActions(scope(BOB))).to.deep.eq(["bob"]);
+  });
+
+  it("keeps the newest transactions", async function () {
+    const transactions = Array.from({ length: 60 }, (_, i) => ({ hash: `0x${i}`, value: BigInt(i) })) as unknown as TrackedTransaction[];
+
+    await saveTransactions(scope(ALICE), transactions);
+
+    const saved = await loadTransactions(scope(ALICE));
+    expect(saved).to.have.length(50);
+    expect(saved[49]).to.deep.eq({ hash: "0x49", value: 49n });
+  });
+
+  describe("decryptions", function () {
+    const signature = ethers.hexlify(ethers.randomBytes(65));
+    const entries: CachedDecryption[] = [
+      { handle: HANDLE, value: 1_500n, expiresAt: later() },
+      { handle: OTHER_HANDLE, value: true, expiresAt: later() },
+    ];
+
+    it("opens sealed values with a key derived from the same signature", async function () {
+      await saveDecryptions(scope(ALICE), await deriveCacheKey(scope(ALICE), signature), entries);
+
+      expect(await loadDecryptions(scope(ALICE), await deriveCacheKey(scope(ALICE), signature))).to.deep.eq(entries);
+    });
+
+    it("never stores the values in the clear", async function () {
+      await saveDecryptions(scope(ALICE), await deriveCacheKey(scope(ALICE), signature), [
+        { handle: HANDLE, value: "a secret note", expiresAt: later() },
+      ]);
+
+      const db = await openCache();
+      const stored = await new Promise<{ data: ArrayBuffer }>((resolve, reject) => {
+        const get = db.transaction("decryptions").objectStore("decryptions").get(scopeKey(scope(ALICE)));
+        get.onsuccess = () => resolve(get.result);
+        get.onerror = reject;
+      });
+      expect(new TextDecoder().decode(stored.data)).not.to.contain("a secret note");
+    });
+
+    it("reads as empty under another signature or scope", async function () {
+      await saveDecryptions(scope(ALICE), await deriveCacheKey(scope(ALICE), signature), entries);
+      const otherSignature = ethers.hexlify(ethers.randomBytes(65));
+
+      expect(await loadDecryptions(scope(ALICE), await deriveCacheKey(scope(ALICE), otherSignature))).to.deep.eq([]);
+      // The scope salts the key, so a key for another ledger does not open these either
+      const otherLedger = { ...scope(ALICE), contract: BOB };
+      await saveDecryptions(otherLedger, await deriveCacheKey(scope(ALICE), signature), entries);
+      expect(await loadDecryptions(otherLedger, await deriveCacheKey(otherLedger, signature))).to.deep.eq([]);
+    });
+
+    it("carries fhe.ts decryptions across a reload", async function () {
+      const key = await deriveCacheKey(scope(ALICE), signature);
+      importDecryptions(ALICE, [...entries, { handle: ethers.zeroPadValue("0x03", 32), value: 3n, expiresAt: Date.now() - 1 }]);
+      importDecryptions(BOB, [{ handle: HANDLE, value: 9n, expiresAt: later() }]);
+      expect(exportDecryptions(ALICE)).to.have.deep.members(entries);
+
+      await saveDecryptions(scope(ALICE), key, exportDecryptions(ALICE));
+      // Replacing the backend is as empty as a fresh page
+      setFheBackend(null);
+      expect(getCachedDecryption(ALICE, HANDLE)).to.eq(undefined);
+      importDecryptions(ALICE, await loadDecryptions(scope(ALICE), key));
+
+      expect(getCachedDecryption(ALICE, HANDLE)).to.eq(1_500n);
+      expect(getCachedDecryption(ALICE, OTHER_HANDLE)).to.eq(true);
+      expect(getCachedDecryption(BOB, HANDLE)).to.eq(undefined);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ConfidentialToken, ConfidentialToken__factory, PaymentRequestLedger, PaymentRequestLedger__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// PaymentRequestLedger.Status
+const PENDING = 0n;
+const PARTIALLY_PAID = 2n;
+const PAID = 3n;
+
+async function deployFixture() {
+  const tokenFactory = (await ethers.getContractFactory("ConfidentialToken")) as ConfidentialToken__factory;
+  const token = (await tokenFactory.deploy("Confidential Pay Token", "cPAY")) as ConfidentialToken;
+  const ledgerFactory = (await ethers.getContractFactory("PaymentRequestLedger")) as PaymentRequestLedger__factory;
+  const ledger = (await ledgerFactory.deploy()) as PaymentRequestLedger;
+  return { token, tokenAddress: await token.getAddress(), ledger, ledgerAddress: await ledger.getAddress() };
+}
+
+describe("ConfidentialToken", function () {
+  let signers: Signers;
+  let token: ConfidentialToken;
+  let tokenAddress: string;
+  let ledger: PaymentRequestLedger;
+  let ledgerAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    ({ token, tokenAddress, ledger, ledgerAddress } = await deployFixture());
+  });
+
+  async function balanceOf(signer: HardhatEthersSigner) {
+    const handle = await token.confidentialBalanceOf(signer.address);
+    if (handle === ethers.ZeroHash) return 0n;
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, tokenAddress, signer);
+  }
+
+  async function transfer(from: HardhatEthersSigner, to: string, amount: number) {
+    const input = await fhevm.createEncryptedInput(tokenAddress, from.address).add64(amount).encrypt();
+    const tx = await token.connect(from).confidentialTransfer(to, input.handles[0], input.inputProof);
+    await tx.wait();
+  }
+
+  async function createTokenRequest(requester: HardhatEthersSigner, payer: HardhatEthersSigner, amount: number) {
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, requester.address)
+      .add64(amount)
+      .add256(ethers.toBigInt(ethers.randomBytes(32)))
+      .encrypt();
+    const tx = await ledger
+      .connect(requester)
+      .createRequest(payer.address, tokenAddress, 0, 0, input.handles[0], input.handles[1], "0x", input.inputProof);
+    await tx.wait();
+    return ledger.requestCount();
+  }
+
+  it("mints publicly and keeps balances encrypted", async function () {
+    await (await token.mint(signers.alice.address, 1_000)).wait();
+
+    expect(await token.totalSupply()).to.eq(1_000n);
+    expect(await balanceOf(signers.alice)).to.eq(1_000n);
+  });
+
+  it("only lets the owner mint", async function () {
+    await expect(token.connect(signers.alice).mint(signers.alice.address, 1)).to.be.revertedWithCustomError(
+      token,
+      "NotOwner",
+    );
+  });
+
+  it("transfers an encrypted amount", async function () {
+    await (await token.mint(signers.alice.address, 1_000)).wait();
+    await transfer(signers.alice, signers.bob.address, 300);
+
+    expect(await balanceOf(signers.alice)).to.eq(700n);
+    expect(await balanceOf(signers.bob)).to.eq(300n);
+  });
+
+  it("transfers nothing when the balance is insufficient", async function () {
+    await (await token.mint(signers.alice.address, 100)).wait();
+    await transfer(signers.alice, signers.bob.address, 101);
+
+    expect(await balanceOf(signers.alice)).to.eq(100n);
+    expect(await balanceOf(signers.bob)).to.eq(0n);
+  });
+
+  it("requires an operator approval for transferFrom", async function () {
+    await (await token.mint(signers.alice.address, 100)).wait();
+    const handle = await token.confidentialBalanceOf(signers.alice.address);
+
+    await expect(
+      token.connect(signers.bob).confidentialTransferFrom(signers.alice.address, signers.bob.address, handle),
+    ).to.be.revertedWithCustomError(token, "NotOperator");
+  });
+
+  it("settles a payment request in the token", async function () {
+    await (await token.mint(signers.bob.address, 1_000)).wait();
+    const requestId = await createTokenRequest(signers.alice, signers.bob, 250);
+
+    await (await token.connect(signers.bob).setOperator(ledgerAddress, true)).wait();
+    await (await ledger.connect(signers.bob).payRequest(requestId)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await ledger.getRequest(requestId)).status).to.eq(PAID);
+    expect(await balanceOf(signers.alice)).to.eq(250n);
+    expect(await balanceOf(signers.bob)).to.eq(750n);
+  });
+
+  it("leaves the request pending when the payer cannot cover it", async function () {
+    await (await token.mint(signers.bob.address, 100)).wait();
+    const requestId = await createTokenRequest(signers.alice, signers.bob, 250);
+
+    await (await token.connect(signers.bob).setOperator(ledgerAddress, true)).wait();
+    await expect(ledger.connect(signers.bob).payRequest(requestId)).to.emit(ledger, "PaymentSubmitted");
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await ledger.getRequest(requestId)).status).to.eq(PENDING);
+    expect(await balanceOf(signers.bob)).to.eq(100n);
+  });
+
+  it("accepts a partial token payment", async function () {
+    await (await token.mint(signers.bob.address, 1_000)).wait();
+    const requestId = await createTokenRequest(signers.alice, signers.bob, 250);
+    await (await token.connect(signers.bob).setOperator(ledgerAddress, true)).wait();
+
+    const input = await fhevm.createEncryptedInput(ledgerAddress, signers.bob.address).add64(100).encrypt();
+    await (await ledger.connect(signers.bob).payRequestAmount(requestId, input.handles[0], input.inputProof)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await ledger.getRequest(requestId)).status).to.eq(PARTIALLY_PAID);
+    expect(await balanceOf(signers.alice)).to.eq(100n);
+
+    await (await ledger.connect(signers.bob).payRequest(requestId)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await ledger.getRequest(requestId)).status).to.eq(PAID);
+    expect(await balanceOf(signers.alice)).to.eq(250n);
+    expect(await balanceOf(signers.bob)).to.eq(750n);
+  });
+
+  it("rejects ETH sent along with a token payment", async function () {
+    const requestId = await createTokenRequest(signers.alice, signers.bob, 250);
+
+    await expect(
+      ledger.connect(signers.bob).payRequest(requestId, { value: ethers.parseUnits("1", "gwei") }),
+    ).to.be.revertedWithCustomError(ledger, "InvalidPaymentValue");
+  });
+});
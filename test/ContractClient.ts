@@ -0,0 +1,120 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { PaymentRequestFHE, PaymentRequestLedger } from "../types";
+import {
+  decodeContractError,
+  eventFilter,
+  findRevertData,
+  isEvent,
+  parseLedgerLog,
+} from "../frontend/web/src/client";
+
+// Resolves with the error a call fails with
+const failure = (call: Promise<unknown>) =>
+  call.then(
+    () => expect.fail("expected the call to fail"),
+    (error: unknown) => error,
+  );
+
+describe("Contract client", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let ledger: PaymentRequestLedger;
+  let requestFhe: PaymentRequestFHE;
+
+  before(async function () {
+    [, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    ledger = (await (await ethers.getContractFactory("PaymentRequestLedger")).deploy()) as PaymentRequestLedger;
+    requestFhe = (await (await ethers.getContractFactory("PaymentRequestFHE")).deploy()) as PaymentRequestFHE;
+  });
+
+  async function createRequest(payer: string) {
+    const ledgerAddress = await ledger.getAddress();
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, alice.address)
+      .add64(1000)
+      .add256(ethers.toBigInt(ethers.randomBytes(32)))
+      .encrypt();
+    return (
+      await ledger
+        .connect(alice)
+        .createRequest(payer, ethers.ZeroAddress, 0, 0, input.handles[0], input.handles[1], "0x", input.inputProof)
+    ).wait();
+  }
+
+  describe("error decoder", function () {
+    it("decodes PaymentRequestFHE custom errors", async function () {
+      const error = await failure(requestFhe.closeBatch());
+
+      expect(decodeContractError(error)?.name).to.eq("InvalidBatch");
+    });
+
+    it("decodes errors from a contract other than the one called", async function () {
+      // An untyped contract at the ledger's address knows none of its errors
+      const bare = new ethers.Contract(await ledger.getAddress(), ["function getRequest(uint256) view"], ethers.provider);
+      const error = await failure(bare.getRequest(9));
+
+      expect(decodeContractError(error)?.name).to.eq("RequestNotFound");
+    });
+
+    it("finds revert data nested the way wallets report it", function () {
+      const data = requestFhe.interface.encodeErrorResult("CooldownActive");
+      const walletError = { code: -32603, message: "Internal JSON-RPC error.", info: { error: { data: { data } } } };
+
+      expect(findRevertData(walletError)).to.eq(data);
+      expect(decodeContractError(walletError)?.name).to.eq("CooldownActive");
+    });
+
+    it("decodes require messages and panics", function () {
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      const reason = ethers.concat([ethers.id("Error(string)").slice(0, 10), coder.encode(["string"], ["nope"])]);
+      const panic = ethers.concat([ethers.id("Panic(uint256)").slice(0, 10), coder.encode(["uint256"], [0x11])]);
+
+      expect([...decodeContractError({ data: reason })!.args]).to.deep.eq(["nope"]);
+      expect(decodeContractError({ data: panic })?.name).to.eq("Panic");
+    });
+
+    it("returns null for errors without revert data", function () {
+      expect(decodeContractError(new Error("network down"))).to.eq(null);
+      expect(decodeContractError({ data: "0x" })).to.eq(null);
+      expect(decodeContractError({ data: "0xdeadbeef" })).to.eq(null);
+    });
+  });
+
+  describe("events", function () {
+    it("filters logs by event and indexed arguments", async function () {
+      await createRequest(bob.address);
+      await createRequest(carol.address);
+
+      const logs = await ethers.provider.getLogs({
+        ...eventFilter(ledger, "PaymentRequestCreated", undefined, undefined, bob.address),
+        fromBlock: 0,
+      });
+
+      expect(logs).to.have.length(1);
+      const event = parseLedgerLog(logs[0])!;
+      expect(isEvent(event, "PaymentRequestCreated")).to.eq(true);
+      if (isEvent(event, "PaymentRequestCreated")) {
+        expect(event.args.requestId).to.eq(1n);
+        expect(event.args.payer).to.eq(bob.address);
+      }
+    });
+
+    it("narrows events by name", async function () {
+      const receipt = await createRequest(bob.address);
+      const event = parseLedgerLog(receipt!.logs[receipt!.logs.length - 1])!;
+
+      expect(isEvent(event, "PaymentRequestPaid", "PaymentRequestCreated")).to.eq(true);
+      expect(isEvent(event, "SeriesCreated")).to.eq(false);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import {
+  ConfidentialToken__factory,
+  PaymentRequestFHE,
+  PaymentRequestFHE__factory,
+  PaymentRequestLedger__factory,
+} from "../types";
+import { ErrorKind, errorMessage, translateError } from "../frontend/web/src/errors";
+
+const requestFheErrors = PaymentRequestFHE__factory.createInterface();
+const ledgerErrors = PaymentRequestLedger__factory.createInterface();
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+const reason = (text: string) => ethers.concat([ethers.id("Error(string)").slice(0, 10), coder.encode(["string"], [text])]);
+const panic = (code: number) => ethers.concat([ethers.id("Panic(uint256)").slice(0, 10), coder.encode(["uint256"], [code])]);
+
+interface Case {
+  title: string;
+  error: unknown;
+  kind: ErrorKind;
+  retryable: boolean;
+  contractError?: string;
+  message?: RegExp;
+}
+
+const CASES: Case[] = [
+  {
+    title: "an ethers rejection",
+    error: { code: "ACTION_REJECTED", shortMessage: "user rejected action" },
+    kind: "rejected",
+    retryable: true,
+  },
+  {
+    title: "a raw EIP-1193 rejection",
+    error: { code: 4001, message: "MetaMask Tx Signature: User denied transaction signature." },
+    kind: "rejected",
+    retryable: true,
+  },
+  {
+    title: "a custom error on a failed call",
+    error: { code: "CALL_EXCEPTION", data: requestFheErrors.encodeErrorResult("NotProvider") },
+    kind: "contract",
+    retryable: false,
+    contractError: "NotProvider",
+    message: /approved providers/,
+  },
+  {
+    title: "a custom error nested in a wallet error",
+    error: {
+      code: "UNKNOWN_ERROR",
+      error: {
+        code: -32603,
+        message: "Internal JSON-RPC error.",
+        data: { code: 3, message: "execution reverted", data: requestFheErrors.encodeErrorResult("CooldownActive") },
+      },
+    },
+    kind: "contract",
+    retryable: true,
+    contractError: "CooldownActive",
+    message: /cooldown/,
+  },
+  {
+    title: "a custom error under info.error",
+    error: { code: "CALL_EXCEPTION", info: { error: { data: ledgerErrors.encodeErrorResult("ReplayDetected") } } },
+    kind: "contract",
+    retryable: false,
+    contractError: "ReplayDetected",
+  },
+  {
+    title: "a require message",
+    error: { code: "CALL_EXCEPTION", data: reason("Multicall3: call failed") },
+    kind: "contract",
+    retryable: false,
+    contractError: "Error",
+    message: /Multicall3: call failed/,
+  },
+  {
+    title: "a panic",
+    error: { code: "CALL_EXCEPTION", data: panic(0x11) },
+    kind: "contract",
+    retryable: false,
+    contractError: "Panic",
+    message: /overflowed/,
+  },
+  {
+    title: "a revert with unknown data",
+    error: { code: "CALL_EXCEPTION", data: "0x12345678" },
+    kind: "contract",
+    retryable: false,
+    message: /without giving a reason/,
+  },
+  {
+    title: "insufficient funds from ethers",
+    error: { code: "INSUFFICIENT_FUNDS", shortMessage: "insufficient funds for intrinsic transaction cost" },
+    kind: "funds",
+    retryable: false,
+  },
+  {
+    title: "a stale nonce from the node",
+    error: { code: "UNKNOWN_ERROR", error: { code: -32000, message: "nonce too low: next nonce 5, tx nonce 3" } },
+    kind: "nonce",
+    retryable: true,
+    message: /outdated nonce/,
+  },
+  {
+    title: "an underpriced replacement",
+    error: { code: "REPLACEMENT_UNDERPRICED", shortMessage: "replacement fee too low" },
+    kind: "nonce",
+    retryable: true,
+    message: /still pending/,
+  },
+  {
+    title: "a fee below the base fee",
+    error: new Error("max fee per gas less than block base fee: maxFeePerGas: 1, baseFee: 7"),
+    kind: "gas",
+    retryable: true,
+    message: /gas price/,
+  },
+  {
+    title: "a gas estimate above the cap",
+    error: { code: -32000, message: "gas required exceeds allowance (30000000)" },
+    kind: "gas",
+    retryable: true,
+    message: /ran out of gas/,
+  },
+  {
+    title: "an ethers network error",
+    error: { code: "NETWORK_ERROR", shortMessage: "could not coalesce error" },
+    kind: "network",
+    retryable: true,
+  },
+  {
+    title: "a rate-limited endpoint",
+    error: { code: "UNKNOWN_ERROR", error: { code: -32005, message: "request rejected" } },
+    kind: "network",
+    retryable: true,
+  },
+  {
+    title: "a disconnected wallet",
+    error: { code: 4900, message: "Disconnected" },
+    kind: "wallet",
+    retryable: true,
+  },
+  {
+    title: "a wallet with a request already open",
+    error: { code: -32002, message: "Request of type 'wallet_requestPermissions' already pending" },
+    kind: "wallet",
+    retryable: true,
+    message: /already has a request/,
+  },
+  {
+    title: "a missing wallet",
+    error: new Error("No injected wallet"),
+    kind: "wallet",
+    retryable: false,
+  },
+  {
+    title: "anything else",
+    error: new Error("relayer returned 502"),
+    kind: "unknown",
+    retryable: false,
+    message: /^relayer returned 502$/,
+  },
+  {
+    title: "a thrown string",
+    error: "boom",
+    kind: "unknown",
+    retryable: false,
+    message: /^boom$/,
+  },
+];
+
+describe("translateError", function () {
+  for (const { title, error, kind, retryable, contractError, message } of CASES) {
+    it(`classifies ${title}`, function () {
+      const translated = translateError(error);
+
+      expect(translated.kind).to.eq(kind);
+      expect(translated.retryable).to.eq(retryable);
+      expect(translated.contractError).to.eq(contractError);
+      if (message) expect(translated.message).to.match(message);
+    });
+  }
+
+  it("gives every custom error of the project its own message", function () {
+    const interfaces = [requestFheErrors, ledgerErrors, ConfidentialToken__factory.createInterface()];
+
+    for (const contractInterface of interfaces) {
+      contractInterface.forEachError(fragment => {
+        const data = contractInterface.encodeErrorResult(fragment);
+        expect(translateError({ data }).message, fragment.name).not.to.match(/rejected this \(/);
+      });
+    }
+  });
+
+  it("translates a revert from the node", async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    const requestFhe = (await (await ethers.getContractFactory("PaymentRequestFHE")).deploy()) as PaymentRequestFHE;
+
+    const error = await requestFhe.closeBatch().then(
+      () => expect.fail("expected closeBatch to revert"),
+      (e: unknown) => e,
+    );
+
+    expect(translateError(error)).to.include({ kind: "contract", contractError: "InvalidBatch" });
+  });
+});
+
+describe("errorMessage", function () {
+  it("adds the hint to known errors", function () {
+    const data = requestFheErrors.encodeErrorResult("CooldownActive");
+
+    expect(errorMessage({ data }, "Submission failed")).to.eq(
+      "You acted too recently; a cooldown is still running. Wait a minute and try again.",
+    );
+  });
+
+  it("prefixes unknown errors with the action", function () {
+    expect(errorMessage(new Error("relayer returned 502"), "Decryption failed")).to.eq(
+      "Decryption failed: relayer returned 502",
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+  decryptPaymentRequest,
+  deferDecryptionSession,
+  encryptPaymentRequest,
+  encryptAmount,
+  encryptInvoice,
+  encryptRequestAmounts,
+  FheBackend,
+  getCachedDecryption,
+  openNote,
+  sealNote,
+  setFheBackend,
+  setFheBackendLoader,
+  userDecrypt,
+} from "../frontend/web/src/fhe";
+
+const CONTRACT = "0x00000000000000000000000000000000000000c0";
+const USER = "0x00000000000000000000000000000000000000a1";
+
+// Offline stand-in for the relayer SDK: handles are counters and "decryption" looks them up
+class MockBackend implements FheBackend {
+  readonly values = new Map<string, bigint>();
+  readonly decrypted: string[][] = [];
+
+  createEncryptedInput() {
+    const added: bigint[] = [];
+    const input = {
+      add64: (value: number | bigint) => (added.push(BigInt(value)), input),
+      add256: (value: number | bigint) => (added.push(BigInt(value)), input),
+      encrypt: async () => {
+        const handles = added.map((value) => {
+          const handle = ethers.zeroPadValue(ethers.toBeHex(this.values.size + 1), 32);
+          this.values.set(handle, value);
+          return ethers.getBytes(handle);
+        });
+        return { handles, inputProof: ethers.toUtf8Bytes("proof") };
+      },
+    };
+    return input;
+  }
+
+  generateKeypair() {
+    return { publicKey: "0x01", privateKey: "0x02" };
+  }
+
+  createEIP712(publicKey: string, contractAddresses: string[]) {
+    return {
+      domain: { chainId: 31337, name: "Decryption", verifyingContract: CONTRACT, version: "1" },
+      types: {},
+      message: { publicKey, contractAddresses },
+      primaryType: "UserDecryptRequestVerification",
+    };
+  }
+
+  async userDecrypt(pairs: { handle: string }[]) {
+    this.decrypted.push(pairs.map((pair) => pair.handle));
+    return Object.fromEntries(pairs.map(({ handle }) => [handle, this.values.get(handle)!]));
+  }
+}
+
+describe("fhe", function () {
+  let backend: MockBackend;
+  let signatures: number;
+
+  const session = () =>
+    deferDecryptionSession(USER, CONTRACT, async () => {
+      signatures++;
+      return "0x1234";
+    });
+
+  beforeEach(function () {
+    backend = new MockBackend();
+    signatures = 0;
+    setFheBackend(backend);
+  });
+
+  after(function () {
+    setFheBackend(null);
+  });
+
+  it("seals a note that only its key opens", async function () {
+    const first = await sealNote("Invoice #7");
+    const second = await sealNote("Invoice #7");
+
+    expect(await openNote(first.key, first.ciphertext)).to.eq("Invoice #7");
+    expect(first.ciphertext).not.to.eq(second.ciphertext);
+    await openNote(second.key, first.ciphertext).then(
+      () => expect.fail("expected a wrong key to fail"),
+      () => undefined,
+    );
+  });
+
+  it("encrypts the amount and the note key in one input", async function () {
+    const encrypted = await encryptPaymentRequest(CONTRACT, USER, 1_500n, "Rent");
+
+    expect(backend.values.get(encrypted.amountHandle)).to.eq(1_500n);
+    expect(encrypted.inputProof).to.eq(ethers.hexlify(ethers.toUtf8Bytes("proof")));
+    expect(await openNote(backend.values.get(encrypted.noteKeyHandle)!, encrypted.noteCiphertext)).to.eq("Rent");
+  });
+
+  it("puts several amounts before the shared note key", async function () {
+    const encrypted = await encryptRequestAmounts(CONTRACT, USER, [1n, 2n, 3n], "Dinner");
+
+    expect(encrypted.amountHandles.map((handle) => backend.values.get(handle))).to.deep.eq([1n, 2n, 3n]);
+    expect(await openNote(backend.values.get(encrypted.noteKeyHandle)!, encrypted.noteCiphertext)).to.eq("Dinner");
+  });
+
+  it("encrypts invoice quantities and unit prices and seals descriptions with the note key", async function () {
+    const encrypted = await encryptInvoice(
+      CONTRACT,
+      USER,
+      [
+        { description: "Design", quantity: 3, unitPrice: 40n },
+        { description: "Hosting", quantity: 1, unitPrice: 25n },
+      ],
+      "March",
+    );
+    const key = backend.values.get(encrypted.noteKeyHandle)!;
+
+    expect(encrypted.quantityHandles.map((handle) => backend.values.get(handle))).to.deep.eq([3n, 1n]);
+    expect(encrypted.unitPriceHandles.map((handle) => backend.values.get(handle))).to.deep.eq([40n, 25n]);
+    expect(await openNote(key, encrypted.noteCiphertext)).to.eq("March");
+    expect(await Promise.all(encrypted.lineDetails.map((details) => openNote(key, details)))).to.deep.eq([
+      "Design",
+      "Hosting",
+    ]);
+    expect(ethers.toUtf8String(encrypted.lineDetails[0], ethers.Utf8ErrorFuncs.ignore)).not.to.contain("Design");
+  });
+
+  it("decrypts a request and opens its note", async function () {
+    const encrypted = await encryptPaymentRequest(CONTRACT, USER, 900n, "Groceries");
+    const paid = await encryptRequestAmounts(CONTRACT, USER, [300n], "");
+
+    const request = await decryptPaymentRequest(session(), {
+      amountHandle: encrypted.amountHandle,
+      paidHandle: paid.amountHandles[0],
+      noteKeyHandle: encrypted.noteKeyHandle,
+      noteCiphertext: encrypted.noteCiphertext,
+    });
+
+    expect(request).to.deep.eq({ amount: 900n, paid: 300n, note: "Groceries" });
+  });
+
+  it("only asks the relayer, and the wallet, for handles it has not decrypted", async function () {
+    const { amountHandles: [a, b, c] } = await encryptRequestAmounts(CONTRACT, USER, [1n, 2n, 3n], "");
+
+    expect(await userDecrypt(session(), [a, b])).to.deep.eq({ [a]: 1n, [b]: 2n });
+    expect(await userDecrypt(session(), [a, b])).to.deep.eq({ [a]: 1n, [b]: 2n });
+    expect(await userDecrypt(session(), [b, c])).to.deep.eq({ [b]: 2n, [c]: 3n });
+
+    expect(backend.decrypted).to.deep.eq([[a, b], [c]]);
+    expect(signatures).to.eq(1);
+    expect(getCachedDecryption(USER, c)).to.eq(3n);
+    expect(getCachedDecryption(CONTRACT, c)).to.eq(undefined);
+  });
+
+  it("loads the backend of the active network through the installed loader", async function () {
+    const loaded: string[] = [];
+    setFheBackendLoader(async (network) => {
+      loaded.push(network.name);
+      return backend;
+    });
+
+    const { handle } = await encryptAmount(CONTRACT, USER, 5n);
+    await encryptAmount(CONTRACT, USER, 6n);
+
+    expect(backend.values.get(handle)).to.eq(5n);
+    expect(loaded).to.have.length(1);
+  });
+
+  it("forgets cached values when the backend is replaced", async function () {
+    const { amountHandles: [a] } = await encryptRequestAmounts(CONTRACT, USER, [1n], "");
+    await userDecrypt(session(), [a]);
+
+    setFheBackend(backend);
+
+    expect(getCachedDecryption(USER, a)).to.eq(undefined);
+  });
+});
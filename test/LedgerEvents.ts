@@ -0,0 +1,112 @@
+/// <reference lib="dom" />
+import { AddressInfo } from "net";
+import { WebSocketServer } from "ws";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { PaymentRequestLedger, PaymentRequestLedger__factory } from "../types";
+import { subscribeLedgerEvents, LedgerEvent } from "../frontend/web/src/contract";
+import { getNetwork } from "../frontend/web/src/networks";
+import { answer, RpcRequest, RpcServer, startRpcServer } from "./helpers/rpcServer";
+
+const until = async (condition: () => boolean) => {
+  for (let i = 0; i < 200 && !condition(); i++) await new Promise(resolve => setTimeout(resolve, 25));
+  expect(condition()).to.eq(true);
+};
+
+describe("subscribeLedgerEvents", function () {
+  let ledger: PaymentRequestLedger;
+  let http: RpcServer;
+  let sockets: WebSocketServer;
+  let socketMethods: string[];
+
+  // getRpcPool keeps one pool per chain, so every test shares these servers
+  before(async function () {
+    // The app's endpoints, in front of the hardhat network: plain JSON-RPC over HTTP and a websocket
+    // that accepts subscriptions but never notifies, so only polling can deliver events
+    http = await startRpcServer();
+    sockets = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    sockets.on("connection", socket =>
+      socket.on("message", async data => {
+        const request = JSON.parse(data.toString()) as RpcRequest;
+        socketMethods.push(request.method);
+        const reply = request.method === "eth_subscribe" ? { jsonrpc: "2.0", id: request.id, result: "0x1" } : await answer(request);
+        socket.send(JSON.stringify(reply));
+      }),
+    );
+    await new Promise(resolve => sockets.once("listening", resolve));
+  });
+
+  after(async function () {
+    sockets.clients.forEach(socket => socket.terminate());
+    await new Promise(resolve => sockets.close(resolve));
+    await http.close();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    const factory = (await ethers.getContractFactory("PaymentRequestLedger")) as PaymentRequestLedger__factory;
+    ledger = (await factory.deploy()) as PaymentRequestLedger;
+    http.methods.length = 0;
+    socketMethods = [];
+  });
+
+  const localNetwork = async (withSocket: boolean) => {
+    const hardhat = getNetwork(31337)!;
+    return {
+      ...hardhat,
+      rpcUrls: [http.url],
+      wsUrl: withSocket ? `ws://127.0.0.1:${(sockets.address() as AddressInfo).port}` : undefined,
+      contracts: { ...hardhat.contracts, ledger: await ledger.getAddress() },
+    };
+  };
+
+  const createRequest = async () => {
+    const [, alice, bob] = await ethers.getSigners();
+    const address = await ledger.getAddress();
+    const input = await fhevm.createEncryptedInput(address, alice.address).add64(1000).add256(1n).encrypt();
+    await (
+      await ledger
+        .connect(alice)
+        .createRequest(bob.address, ethers.ZeroAddress, 0, 0, input.handles[0], input.handles[1], "0x", input.inputProof)
+    ).wait();
+  };
+
+  it("polls when the network has no websocket", async function () {
+    const events: LedgerEvent[] = [];
+    const unsubscribe = subscribeLedgerEvents(event => events.push(event), 25, await localNetwork(false));
+
+    try {
+      await until(() => http.methods.includes("eth_blockNumber"));
+      await createRequest();
+      await until(() => events.length > 0);
+
+      expect(events[0].name).to.eq("PaymentRequestCreated");
+      expect(socketMethods).to.deep.eq([]);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it("falls back to polling when the websocket drops", async function () {
+    const events: LedgerEvent[] = [];
+    const unsubscribe = subscribeLedgerEvents(event => events.push(event), 25, await localNetwork(true));
+
+    try {
+      await until(() => socketMethods.includes("eth_subscribe"));
+      expect(http.methods).to.deep.eq([]);
+
+      sockets.clients.forEach(socket => socket.terminate());
+      await until(() => http.methods.includes("eth_blockNumber"));
+      await createRequest();
+      await until(() => events.length > 0);
+
+      expect(events[0].name).to.eq("PaymentRequestCreated");
+      expect(http.methods).to.include("eth_getLogs");
+    } finally {
+      unsubscribe();
+    }
+  });
+});
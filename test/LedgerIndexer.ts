@@ -0,0 +1,234 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { PaymentRequestLedger, PaymentRequestLedger__factory } from "../types";
+import { LedgerIndexer, LedgerState } from "../frontend/web/src/indexer";
+
+// PaymentRequestLedger.Status
+const PENDING = 0n;
+const PAID = 3n;
+const CANCELLED = 4n;
+
+const gwei = (amount: number) => ethers.parseUnits(amount.toString(), "gwei");
+
+describe("LedgerIndexer", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let ledger: PaymentRequestLedger;
+  let ledgerAddress: string;
+  let deployBlock: number;
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    const factory = (await ethers.getContractFactory("PaymentRequestLedger")) as PaymentRequestLedger__factory;
+    ledger = (await factory.deploy()) as PaymentRequestLedger;
+    ledgerAddress = await ledger.getAddress();
+    deployBlock = (await ledger.deploymentTransaction()!.wait())!.blockNumber;
+  });
+
+  // Alice asks Bob for `amount` gwei
+  async function createRequest(amount: number) {
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, alice.address)
+      .add64(amount)
+      .add256(ethers.toBigInt(ethers.randomBytes(32)))
+      .encrypt();
+    await (
+      await ledger
+        .connect(alice)
+        .createRequest(bob.address, ethers.ZeroAddress, 0, 0, input.handles[0], input.handles[1], "0x", input.inputProof)
+    ).wait();
+    return ledger.requestCount();
+  }
+
+  it("replays requests created before it started", async function () {
+    await createRequest(1000);
+    await createRequest(2000);
+    const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock });
+
+    await indexer.sync();
+
+    const state = indexer.getState();
+    expect([...state.requests.keys()]).to.have.members([1, 2]);
+    expect(state.requests.get(2)!.requester).to.eq(alice.address);
+    expect(state.lastBlock).to.eq(await ethers.provider.getBlockNumber());
+  });
+
+  it("replays across several getLogs batches", async function () {
+    for (let i = 0; i < 4; i++) await createRequest(1000);
+    const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock, batchSize: 2 });
+
+    await indexer.sync();
+
+    expect(indexer.getState().requests.size).to.eq(4);
+  });
+
+  it("ignores events before the start block", async function () {
+    await createRequest(1000);
+    const indexer = new LedgerIndexer(ledger, { startBlock: (await ethers.provider.getBlockNumber()) + 1 });
+    await createRequest(2000);
+
+    await indexer.sync();
+
+    expect([...indexer.getState().requests.keys()]).to.deep.eq([2]);
+  });
+
+  it("follows status changes in new blocks", async function () {
+    const first = await createRequest(1000);
+    const second = await createRequest(1000);
+    const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock });
+    await indexer.sync();
+    expect(indexer.getState().requests.get(Number(first))!.status).to.eq(PENDING);
+
+    await (await ledger.connect(alice).cancelRequest(first)).wait();
+    await (await ledger.connect(bob).payRequest(second, { value: gwei(1000) })).wait();
+    await fhevm.awaitDecryptionOracle();
+    await indexer.sync();
+
+    const { requests } = indexer.getState();
+    expect(requests.get(Number(first))!.status).to.eq(CANCELLED);
+    expect(requests.get(Number(second))!.status).to.eq(PAID);
+  });
+
+  it("notifies subscribers only when something changed", async function () {
+    await createRequest(1000);
+    const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock });
+    const seen: LedgerState[] = [];
+    const unsubscribe = indexer.subscribe(state => seen.push(state));
+
+    await indexer.sync();
+    await ethers.provider.send("evm_mine", []);
+    await indexer.sync();
+    expect(seen).to.have.length(1);
+
+    await createRequest(2000);
+    await indexer.sync();
+    expect(seen).to.have.length(2);
+    expect(seen[1].requests.size).to.eq(2);
+    expect(seen[0].requests.size).to.eq(1);
+
+    unsubscribe();
+    await (await ledger.connect(alice).cancelRequest(1)).wait();
+    await indexer.sync();
+    expect(seen).to.have.length(2);
+  });
+
+  it("resumes from a snapshot", async function () {
+    const first = await createRequest(1000);
+    const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock });
+    await indexer.sync();
+    // Snapshots are stored through structured cloning
+    const snapshot = structuredClone(indexer.snapshot());
+
+    await (await ledger.connect(alice).cancelRequest(first)).wait();
+    const second = await createRequest(2000);
+    const resumed = new LedgerIndexer(ledger, { startBlock: deployBlock, snapshot });
+    expect(resumed.getState().lastBlock).to.eq(snapshot.lastBlock);
+    expect(resumed.getState().requests.get(Number(first))!.status).to.eq(PENDING);
+    expect(resumed.getState().requests.get(Number(first))!.requester).to.eq(alice.address);
+
+    await resumed.sync();
+
+    expect(resumed.getState().requests.get(Number(first))!.status).to.eq(CANCELLED);
+    expect(resumed.getState().requests.has(Number(second))).to.eq(true);
+  });
+
+  describe("reorgs", function () {
+    // Drops the blocks mined since `snapshot`, then mines `blocks` empty ones on the shorter chain
+    async function reorg(snapshot: string, blocks: number) {
+      await ethers.provider.send("evm_revert", [snapshot]);
+      for (let i = 0; i < blocks; i++) await ethers.provider.send("evm_mine", []);
+    }
+
+    it("reverts a change whose event the new chain dropped", async function () {
+      const first = await createRequest(1000);
+      const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock });
+      await indexer.sync();
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      await (await ledger.connect(alice).cancelRequest(first)).wait();
+      await indexer.sync();
+      expect(indexer.getState().requests.get(Number(first))!.status).to.eq(CANCELLED);
+
+      await reorg(snapshot, 2);
+      await indexer.sync();
+
+      expect(indexer.getState().requests.get(Number(first))!.status).to.eq(PENDING);
+      expect(indexer.getState().lastBlock).to.eq(await ethers.provider.getBlockNumber());
+    });
+
+    it("forgets requests created in dropped blocks", async function () {
+      const first = await createRequest(1000);
+      const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock });
+      await indexer.sync();
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      await createRequest(2000);
+      await indexer.sync();
+      expect(indexer.getState().requests.size).to.eq(2);
+
+      // The new chain is no longer than the one the indexer saw
+      await reorg(snapshot, 0);
+      await indexer.sync();
+
+      expect([...indexer.getState().requests.keys()]).to.deep.eq([Number(first)]);
+    });
+
+    it("keeps what it must re-read in snapshots", async function () {
+      const first = await createRequest(1000);
+      const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock });
+      await indexer.sync();
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      await (await ledger.connect(alice).cancelRequest(first)).wait();
+      await indexer.sync();
+      const resumed = new LedgerIndexer(ledger, { startBlock: deployBlock, snapshot: structuredClone(indexer.snapshot()) });
+
+      await reorg(snapshot, 2);
+      await resumed.sync();
+
+      expect(resumed.getState().requests.get(Number(first))!.status).to.eq(PENDING);
+    });
+  });
+
+  it("syncs again for a block mined after the sync in flight started", async function () {
+    const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock });
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, alice.address)
+      .add64(1000)
+      .add256(ethers.toBigInt(ethers.randomBytes(32)))
+      .encrypt();
+    await ethers.provider.send("evm_setAutomine", [false]);
+    try {
+      await ledger
+        .connect(alice)
+        .createRequest(bob.address, ethers.ZeroAddress, 0, 0, input.handles[0], input.handles[1], "0x", input.inputProof);
+      const block = (await ethers.provider.getBlockNumber()) + 1;
+
+      const inFlight = indexer.sync();
+      const reached = indexer.syncTo(block, 50);
+      await inFlight;
+      expect(indexer.getState().requests.size).to.eq(0);
+
+      await ethers.provider.send("evm_mine", []);
+      await reached;
+      expect(indexer.getState().requests.size).to.eq(1);
+      expect(indexer.getState().lastBlock).to.be.gte(block);
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+  });
+
+  it("shares one sync between concurrent callers", async function () {
+    await createRequest(1000);
+    const indexer = new LedgerIndexer(ledger, { startBlock: deployBlock });
+
+    const first = indexer.sync();
+    expect(indexer.sync()).to.eq(first);
+    await first;
+  });
+});
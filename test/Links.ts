@@ -0,0 +1,40 @@
+import { expect } from "chai";
+import { parseRequestRoute, requestPath, requestUrl } from "../frontend/web/src/links";
+
+const LEDGER = "0x079C5f2595C761Aa2A57782CF1c03C031C3dE4a1";
+
+describe("request links", function () {
+  const location = { chainId: 11155111, contract: LEDGER, requestId: 12 };
+
+  it("puts the chain and ledger in the query", function () {
+    expect(requestPath(location)).to.eq(`/request/12?chain=11155111&contract=${LEDGER}`);
+    expect(requestUrl(location, "https://pay.example")).to.eq(`https://pay.example/request/12?chain=11155111&contract=${LEDGER}`);
+  });
+
+  it("parses the route back", function () {
+    const url = new URL(requestUrl(location, "https://pay.example"));
+    expect(parseRequestRoute(url.pathname.split("/").pop(), url.searchParams)).to.deep.eq(location);
+  });
+
+  it("checksums the ledger address", function () {
+    const search = new URLSearchParams({ chain: "1", contract: LEDGER.toLowerCase() });
+    expect(parseRequestRoute("3", search)).to.deep.eq({ chainId: 1, contract: LEDGER, requestId: 3 });
+  });
+
+  const malformed: [string, string | undefined, Record<string, string>][] = [
+    ["a missing id", undefined, { chain: "1", contract: LEDGER }],
+    ["a zero id", "0", { chain: "1", contract: LEDGER }],
+    ["an id with leading zeros", "012", { chain: "1", contract: LEDGER }],
+    ["a non-numeric id", "abc", { chain: "1", contract: LEDGER }],
+    ["a missing chain", "1", { contract: LEDGER }],
+    ["a non-numeric chain", "1", { chain: "sepolia", contract: LEDGER }],
+    ["a missing contract", "1", { chain: "1" }],
+    ["an invalid contract", "1", { chain: "1", contract: "0x1234" }],
+  ];
+
+  for (const [name, id, query] of malformed) {
+    it(`rejects ${name}`, function () {
+      expect(parseRequestRoute(id, new URLSearchParams(query))).to.eq(null);
+    });
+  }
+});
@@ -0,0 +1,79 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { PaymentRequestLedger, PaymentRequestLedger__factory } from "../types";
+import { decryptPaymentRequest, deferDecryptionSession, EIP712, encryptPaymentRequest, setFheBackend } from "../frontend/web/src/fhe";
+import { loadMockBackend } from "../frontend/web/src/mockBackend";
+import { getNetwork, NetworkConfig } from "../frontend/web/src/networks";
+import { RpcServer, startRpcServer } from "./helpers/rpcServer";
+
+describe("loadMockBackend", function () {
+  let http: RpcServer;
+  let local: NetworkConfig;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    [, alice, bob] = await ethers.getSigners();
+    http = await startRpcServer();
+    local = { ...getNetwork(31337)!, rpcUrls: [http.url] };
+  });
+
+  after(async function () {
+    setFheBackend(null);
+    await http?.close();
+  });
+
+  // Signs with a hardhat account the way the wallet does in the app
+  const sign = (signer: HardhatEthersSigner) => async ({ domain, types, message }: EIP712) => {
+    const { EIP712Domain: _, ...fields } = types;
+    return signer.signTypedData(domain, fields, message);
+  };
+
+  it("encrypts and decrypts against the node's fhevm mock", async function () {
+    const factory = (await ethers.getContractFactory("PaymentRequestLedger")) as PaymentRequestLedger__factory;
+    const ledger = (await factory.deploy()) as PaymentRequestLedger;
+    const ledgerAddress = await ledger.getAddress();
+    setFheBackend(await loadMockBackend(local));
+
+    const encrypted = await encryptPaymentRequest(ledgerAddress, alice.address, 1_200n, "Rent");
+    await (
+      await ledger
+        .connect(alice)
+        .createRequest(
+          bob.address,
+          ethers.ZeroAddress,
+          0,
+          0,
+          encrypted.amountHandle,
+          encrypted.noteKeyHandle,
+          encrypted.noteCiphertext,
+          encrypted.inputProof,
+        )
+    ).wait();
+    const request = await ledger.getRequest(await ledger.requestCount());
+
+    const decrypted = await decryptPaymentRequest(deferDecryptionSession(bob.address, ledgerAddress, sign(bob)), {
+      amountHandle: request.amount,
+      paidHandle: request.paid,
+      noteKeyHandle: request.noteKey,
+      noteCiphertext: request.note,
+    });
+
+    expect(decrypted).to.deep.eq({ amount: 1_200n, paid: 0n, note: "Rent" });
+    expect(http.methods).to.include("fhevm_relayer_metadata");
+  });
+
+  it("explains that the node must run the fhevm mock", async function () {
+    const error = await loadMockBackend({ ...local, rpcUrls: ["http://127.0.0.1:1"] }).then(
+      () => expect.fail("expected loading to fail"),
+      (error: Error) => error,
+    );
+
+    expect(error.message).to.match(/not running the fhevm mock/);
+  });
+});
@@ -0,0 +1,112 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { TransactionRequest } from "ethers";
+import { PaymentRequestLedger, PaymentRequestLedger__factory } from "../types";
+import { MulticallRunner } from "../frontend/web/src/multicall";
+
+describe("MulticallRunner", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let ledger: PaymentRequestLedger;
+  let ledgerAddress: string;
+  let multicallAddress: string;
+  let sent: TransactionRequest[];
+  let provider: typeof ethers.provider;
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    const factory = (await ethers.getContractFactory("PaymentRequestLedger")) as PaymentRequestLedger__factory;
+    ledger = (await factory.deploy()) as PaymentRequestLedger;
+    ledgerAddress = await ledger.getAddress();
+    const multicall = await (await ethers.getContractFactory("Multicall3")).deploy();
+    multicallAddress = await multicall.getAddress();
+
+    // The hardhat provider, recording every eth_call that reaches it
+    sent = [];
+    provider = Object.create(ethers.provider);
+    provider.call = tx => {
+      sent.push(tx);
+      return ethers.provider.call(tx);
+    };
+  });
+
+  // Alice asks Bob for `amount` gwei
+  async function createRequest(amount: number) {
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, alice.address)
+      .add64(amount)
+      .add256(ethers.toBigInt(ethers.randomBytes(32)))
+      .encrypt();
+    await (
+      await ledger
+        .connect(alice)
+        .createRequest(bob.address, ethers.ZeroAddress, 0, 0, input.handles[0], input.handles[1], "0x", input.inputProof)
+    ).wait();
+  }
+
+  const readLedger = (runner: MulticallRunner) => PaymentRequestLedger__factory.connect(ledgerAddress, runner);
+
+  it("sends view calls made in the same tick as one aggregate3 call", async function () {
+    await createRequest(1000);
+    await createRequest(2000);
+    const batched = readLedger(new MulticallRunner(provider, { address: multicallAddress }));
+
+    const [first, second, count] = await Promise.all([batched.getRequest(1), batched.getRequest(2), batched.requestCount()]);
+
+    expect(sent.map(tx => tx.to)).to.deep.eq([multicallAddress]);
+    expect(first).to.deep.eq(await ledger.getRequest(1));
+    expect(second).to.deep.eq(await ledger.getRequest(2));
+    expect(count).to.eq(2n);
+  });
+
+  it("rejects a reverted call with its custom error and resolves the rest", async function () {
+    await createRequest(1000);
+    const batched = readLedger(new MulticallRunner(provider, { address: multicallAddress }));
+
+    const [found, missing] = await Promise.allSettled([batched.getRequest(1), batched.getRequest(7)]);
+
+    expect(sent).to.have.length(1);
+    expect(found.status).to.eq("fulfilled");
+    expect(missing.status).to.eq("rejected");
+    expect((missing as PromiseRejectedResult).reason.revert?.name).to.eq("RequestNotFound");
+  });
+
+  it("splits large batches", async function () {
+    const batched = readLedger(new MulticallRunner(provider, { address: multicallAddress, maxBatchSize: 2 }));
+
+    await Promise.all([batched.requestCount(), batched.seriesCount(), batched.splitCount(), batched.requestCount()]);
+
+    expect(sent.map(tx => tx.to)).to.deep.eq([multicallAddress, multicallAddress]);
+  });
+
+  it("calls one by one where Multicall3 is not deployed", async function () {
+    await createRequest(1000);
+    const batched = readLedger(new MulticallRunner(provider, { address: ethers.Wallet.createRandom().address }));
+
+    const [request, count] = await Promise.all([batched.getRequest(1), batched.requestCount()]);
+
+    expect(sent.map(tx => tx.to)).to.deep.eq([ledgerAddress, ledgerAddress]);
+    expect(request.requester).to.eq(alice.address);
+    expect(count).to.eq(1n);
+  });
+
+  it("does not batch calls made from an account", async function () {
+    const runner = new MulticallRunner(provider, { address: multicallAddress });
+    const data = ledger.interface.encodeFunctionData("requestCount");
+
+    await Promise.all([
+      runner.call({ to: ledgerAddress, data, from: alice.address }),
+      runner.call({ to: ledgerAddress, data, from: bob.address }),
+    ]);
+
+    expect(sent.map(tx => tx.to)).to.deep.eq([ledgerAddress, ledgerAddress]);
+  });
+});
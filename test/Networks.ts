@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { getAdapterReadOnly, getLedgerReadOnly, getPaymentRequestFheReadOnly } from "../frontend/web/src/contract";
+import { EncryptedInput, encryptAmount, FheBackend, setFheBackend, setFheBackendLoader } from "../frontend/web/src/fhe";
+import { MULTICALL3_ADDRESS } from "../frontend/web/src/multicall";
+import {
+  activeNetwork,
+  addChainParams,
+  DEFAULT_NETWORK,
+  getNetwork,
+  NETWORKS,
+  setActiveNetwork,
+} from "../frontend/web/src/networks";
+
+const CONTRACT = "0x00000000000000000000000000000000000000c0";
+const USER = "0x00000000000000000000000000000000000000a1";
+
+// Encrypts nothing; the tests only care which backend gets loaded
+const stubBackend = (): FheBackend => ({
+  createEncryptedInput() {
+    const input: EncryptedInput = {
+      add64: () => input,
+      add256: () => input,
+      encrypt: async () => ({ handles: [new Uint8Array(32)], inputProof: new Uint8Array() }),
+    };
+    return input;
+  },
+  generateKeypair: () => ({ publicKey: "", privateKey: "" }),
+  createEIP712: () => {
+    throw new Error("not needed");
+  },
+  userDecrypt: async () => ({}),
+});
+
+describe("networks", function () {
+  afterEach(function () {
+    setActiveNetwork(undefined);
+    setFheBackend(null);
+  });
+
+  it("looks chains up by ID", function () {
+    expect(getNetwork(11155111)?.name).to.eq("Sepolia");
+    expect(getNetwork(31337)?.name).to.eq("Hardhat");
+    expect(getNetwork(1)).to.be.undefined;
+    expect(getNetwork(undefined)).to.be.undefined;
+  });
+
+  it("follows the wallet's chain and falls back to the default network", function () {
+    expect(setActiveNetwork(31337).chainId).to.eq(31337);
+    expect(activeNetwork().chainId).to.eq(31337);
+
+    expect(setActiveNetwork(1)).to.eq(DEFAULT_NETWORK);
+    expect(activeNetwork()).to.eq(DEFAULT_NETWORK);
+  });
+
+  it("gives the local hardhat node no relayer, so the app loads the mock backend", async function () {
+    expect(getNetwork(31337)?.fhe).to.be.null;
+    expect(getNetwork(11155111)?.fhe?.relayerUrl).to.be.a("string");
+
+    // Same choice as main.tsx
+    const loaded: string[] = [];
+    setFheBackendLoader(async (network) => {
+      loaded.push(network.fhe ? "relayer" : "mock");
+      return stubBackend();
+    });
+    setActiveNetwork(31337);
+    await encryptAmount(CONTRACT, USER, 1n);
+    setActiveNetwork(11155111);
+    await encryptAmount(CONTRACT, USER, 1n);
+
+    expect(loaded).to.deep.eq(["mock", "relayer"]);
+  });
+
+  it("fills in contracts missing from config.json with empty addresses", function () {
+    const sepolia = getNetwork(11155111)!.contracts;
+    expect(sepolia.ledger).to.eq("");
+    expect(sepolia.token).to.eq("");
+
+    const hardhat = getNetwork(31337)!.contracts;
+    expect(hardhat).to.include({ adapter: "", paymentRequestFhe: "", ledger: "", ledgerStartBlock: 0, token: "", tokenSymbol: "cPAY" });
+    expect(hardhat.multicall).to.eq(MULTICALL3_ADDRESS);
+  });
+
+  it("has no ledger to read on a chain without one", async function () {
+    for (const network of NETWORKS.filter((n) => !n.contracts.ledger)) {
+      setActiveNetwork(network.chainId);
+      expect(await getLedgerReadOnly()).to.be.null;
+    }
+  });
+
+  it("has no adapter or PaymentRequestFHE to read on the local node until they are configured", async function () {
+    setActiveNetwork(31337);
+    expect(await getAdapterReadOnly()).to.be.null;
+    expect(await getPaymentRequestFheReadOnly()).to.be.null;
+  });
+
+  it("builds wallet_addEthereumChain parameters", function () {
+    const params = addChainParams(getNetwork(31337)!);
+    expect(params.chainId).to.eq("0x7a69");
+    expect(params.rpcUrls).to.deep.eq(["http://127.0.0.1:8545"]);
+    expect(params.blockExplorerUrls).to.be.undefined;
+  });
+});
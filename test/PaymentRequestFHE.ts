@@ -0,0 +1,332 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { PaymentRequestFHE, PaymentRequestFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const COOLDOWN = 60;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("PaymentRequestFHE")) as PaymentRequestFHE__factory;
+  const contract = (await factory.deploy()) as PaymentRequestFHE;
+  return { contract, contractAddress: await contract.getAddress() };
+}
+
+describe("PaymentRequestFHE", function () {
+  let signers: Signers;
+  let contract: PaymentRequestFHE;
+  let contractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  async function encryptNote(signer: HardhatEthersSigner, note: number) {
+    return fhevm.createEncryptedInput(contractAddress, signer.address).add32(note).encrypt();
+  }
+
+  async function submit(signer: HardhatEthersSigner, batchId: bigint, note: number) {
+    const input = await encryptNote(signer, note);
+    return contract.connect(signer).submitPaymentRequest(batchId, input.handles[0], input.inputProof);
+  }
+
+  async function requestDecryption(batchId: bigint, provider: string) {
+    const receipt = await (await contract.requestNoteDecryption(batchId, provider)).wait();
+    const event = receipt!.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    return event!.args.requestId as bigint;
+  }
+
+  // Storage slot of encryptedNotes[batchId][provider], found by probing for the mapping's base slot
+  async function noteSlot(batchId: bigint, provider: string) {
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const handle = await contract.encryptedNotes(batchId, provider);
+    for (let base = 0; base < 32; base++) {
+      const inner = ethers.keccak256(coder.encode(["uint256", "uint256"], [batchId, base]));
+      const slot = ethers.keccak256(coder.encode(["address", "bytes32"], [provider, inner]));
+      if ((await ethers.provider.getStorage(contractAddress, slot)) === handle) return slot;
+    }
+    throw new Error("encryptedNotes slot not found");
+  }
+
+  describe("deployment", function () {
+    it("makes the deployer owner and provider", async function () {
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+      expect(await contract.providers(signers.deployer.address)).to.eq(true);
+    });
+
+    it("starts with a closed batch 0 and a 60s cooldown", async function () {
+      expect(await contract.currentBatchId()).to.eq(0n);
+      expect(await contract.batchOpen()).to.eq(false);
+      expect(await contract.cooldownSeconds()).to.eq(BigInt(COOLDOWN));
+    });
+  });
+
+  describe("provider management", function () {
+    it("lets the owner add and remove providers", async function () {
+      await expect(contract.addProvider(signers.alice.address))
+        .to.emit(contract, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await contract.providers(signers.alice.address)).to.eq(true);
+
+      await expect(contract.removeProvider(signers.alice.address))
+        .to.emit(contract, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await contract.providers(signers.alice.address)).to.eq(false);
+    });
+
+    it("rejects provider changes from non-owners", async function () {
+      await expect(contract.connect(signers.alice).addProvider(signers.bob.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(
+        contract.connect(signers.alice).removeProvider(signers.deployer.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("rejects submissions from non-providers", async function () {
+      await (await contract.openBatch()).wait();
+      await expect(submit(signers.alice, 0n, 1)).to.be.revertedWithCustomError(contract, "NotProvider");
+    });
+
+    it("rejects submissions from removed providers", async function () {
+      await (await contract.addProvider(signers.alice.address)).wait();
+      await (await contract.removeProvider(signers.alice.address)).wait();
+      await (await contract.openBatch()).wait();
+      await expect(submit(signers.alice, 0n, 1)).to.be.revertedWithCustomError(contract, "NotProvider");
+    });
+  });
+
+  describe("owner settings", function () {
+    it("updates the cooldown", async function () {
+      await expect(contract.setCooldown(10)).to.emit(contract, "CooldownSet").withArgs(10);
+      expect(await contract.cooldownSeconds()).to.eq(10n);
+      await expect(contract.connect(signers.alice).setCooldown(0)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+    });
+
+    it("pauses and unpauses", async function () {
+      await expect(contract.setPaused(true)).to.emit(contract, "ContractPaused").withArgs(signers.deployer.address);
+      await expect(contract.openBatch()).to.be.revertedWithCustomError(contract, "Paused");
+
+      await expect(contract.setPaused(false))
+        .to.emit(contract, "ContractUnpaused")
+        .withArgs(signers.deployer.address);
+      await expect(contract.openBatch()).to.emit(contract, "BatchOpened");
+    });
+
+    it("blocks submissions while paused", async function () {
+      await (await contract.openBatch()).wait();
+      await (await contract.setPaused(true)).wait();
+      await expect(submit(signers.deployer, 0n, 1)).to.be.revertedWithCustomError(contract, "Paused");
+    });
+  });
+
+  describe("batch lifecycle", function () {
+    it("opens and closes the current batch", async function () {
+      await expect(contract.openBatch()).to.emit(contract, "BatchOpened").withArgs(0);
+      expect(await contract.batchOpen()).to.eq(true);
+
+      await expect(contract.closeBatch()).to.emit(contract, "BatchClosed").withArgs(0);
+      expect(await contract.batchOpen()).to.eq(false);
+    });
+
+    it("moves to a new batch when reopened while open", async function () {
+      await (await contract.openBatch()).wait();
+      await expect(contract.openBatch()).to.emit(contract, "BatchOpened").withArgs(1);
+      expect(await contract.currentBatchId()).to.eq(1n);
+    });
+
+    it("reverts closing a batch that is not open", async function () {
+      await expect(contract.closeBatch()).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+
+    it("only lets the owner manage batches", async function () {
+      await expect(contract.connect(signers.alice).openBatch()).to.be.revertedWithCustomError(contract, "NotOwner");
+      await (await contract.openBatch()).wait();
+      await expect(contract.connect(signers.alice).closeBatch()).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("rejects submissions to a closed or stale batch", async function () {
+      await expect(submit(signers.deployer, 0n, 1)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      await (await contract.openBatch()).wait();
+      await (await contract.openBatch()).wait();
+      await expect(submit(signers.deployer, 0n, 1)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+  });
+
+  describe("submissions", function () {
+    beforeEach(async function () {
+      await (await contract.openBatch()).wait();
+    });
+
+    it("records one encrypted note per provider and batch", async function () {
+      await expect(submit(signers.deployer, 0n, 42)).to.emit(contract, "PaymentRequestSubmitted");
+      expect(await contract.hasSubmitted(0, signers.deployer.address)).to.eq(true);
+    });
+
+    it("reverts AlreadyInitialized on a second submission to the same batch", async function () {
+      await (await submit(signers.deployer, 0n, 1)).wait();
+      await time.increase(COOLDOWN);
+      await expect(submit(signers.deployer, 0n, 2)).to.be.revertedWithCustomError(contract, "AlreadyInitialized");
+    });
+
+    it("enforces the submission cooldown across batches", async function () {
+      await (await submit(signers.deployer, 0n, 1)).wait();
+      await (await contract.openBatch()).wait();
+      await expect(submit(signers.deployer, 1n, 2)).to.be.revertedWithCustomError(contract, "CooldownActive");
+
+      await time.increase(COOLDOWN);
+      await expect(submit(signers.deployer, 1n, 2)).to.emit(contract, "PaymentRequestSubmitted");
+    });
+
+    it("tracks cooldowns per provider", async function () {
+      await (await contract.addProvider(signers.alice.address)).wait();
+      await (await submit(signers.deployer, 0n, 1)).wait();
+      await expect(submit(signers.alice, 0n, 2)).to.emit(contract, "PaymentRequestSubmitted");
+    });
+  });
+
+  describe("decryption", function () {
+    const encodeNote = (note: number) => ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [note]);
+
+    beforeEach(async function () {
+      await (await contract.openBatch()).wait();
+    });
+
+    it("lets a provider decrypt their own note", async function () {
+      await (await submit(signers.deployer, 0n, 42)).wait();
+      const handle = await contract.encryptedNotes(0, signers.deployer.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.deployer)).to.eq(42n);
+    });
+
+    it("reverts NotInitialized for a provider that did not submit", async function () {
+      await expect(contract.requestNoteDecryption(0, signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotInitialized",
+      );
+    });
+
+    it("enforces the cooldown between decryption requests", async function () {
+      await (await submit(signers.deployer, 0n, 42)).wait();
+      await requestDecryption(0n, signers.deployer.address);
+      await expect(contract.requestNoteDecryption(0, signers.deployer.address)).to.be.revertedWithCustomError(
+        contract,
+        "CooldownActive",
+      );
+    });
+
+    it("records the provider whose note is decrypted", async function () {
+      await (await contract.addProvider(signers.alice.address)).wait();
+      await (await submit(signers.alice, 0n, 7)).wait();
+      const requestId = await requestDecryption(0n, signers.alice.address);
+
+      const ctx = await contract.decryptionContexts(requestId);
+      expect(ctx.batchId).to.eq(0n);
+      expect(ctx.provider).to.eq(signers.alice.address);
+      expect(ctx.processed).to.eq(false);
+    });
+
+    it("completes a requested decryption through the oracle", async function () {
+      await (await submit(signers.deployer, 0n, 42)).wait();
+      const requestId = await requestDecryption(0n, signers.deployer.address);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await contract.queryFilter(contract.filters.DecryptionCompleted(requestId));
+      expect(completed.args.batchId).to.eq(0n);
+      expect(completed.args.note).to.eq(42n);
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(true);
+    });
+
+    it("takes the fulfilment from the relayer account rather than the oracle contract", async function () {
+      await (await submit(signers.deployer, 0n, 42)).wait();
+      const requestId = await requestDecryption(0n, signers.deployer.address);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await contract.queryFilter(contract.filters.DecryptionCompleted(requestId));
+      const { from } = await completed.getTransaction();
+      const { DecryptionOracleAddress, relayerSignerAddress } = await ethers.provider.send("fhevm_relayer_metadata", []);
+      expect(from).to.eq(relayerSignerAddress);
+      expect(from).not.to.eq(DecryptionOracleAddress);
+    });
+
+    it("rejects a replayed callback", async function () {
+      await (await submit(signers.deployer, 0n, 42)).wait();
+      const requestId = await requestDecryption(0n, signers.deployer.address);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(contract.myCallback(requestId, encodeNote(42), "0x")).to.be.revertedWithCustomError(
+        contract,
+        "ReplayDetected",
+      );
+    });
+
+    it("rejects callbacks for requests it did not make", async function () {
+      await expect(contract.myCallback(123, encodeNote(42), "0x")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidState",
+      );
+    });
+
+    it("rejects a callback after the note changed", async function () {
+      await (await submit(signers.deployer, 0n, 42)).wait();
+      const requestId = await requestDecryption(0n, signers.deployer.address);
+
+      // A provider cannot resubmit to a batch, so swap the stored handle directly
+      const slot = await noteSlot(0n, signers.deployer.address);
+      const handle = await ethers.provider.getStorage(contractAddress, slot);
+      await ethers.provider.send("hardhat_setStorageAt", [contractAddress, slot, ethers.id("another note")]);
+
+      await expect(contract.myCallback(requestId, encodeNote(42), "0x")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidState",
+      );
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(false);
+
+      // Put the note back so the oracle can settle the request instead of leaving it to later tests
+      await ethers.provider.send("hardhat_setStorageAt", [contractAddress, slot, handle]);
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(true);
+    });
+
+    it("rejects callbacks with malformed cleartexts", async function () {
+      await (await submit(signers.deployer, 0n, 42)).wait();
+      const requestId = await requestDecryption(0n, signers.deployer.address);
+
+      await expect(contract.myCallback(requestId, "0x1234", "0x")).to.be.revertedWithCustomError(
+        contract,
+        "DecryptionFailed",
+      );
+    });
+
+    it("rejects cleartexts that are not signed by the oracle", async function () {
+      await (await submit(signers.deployer, 0n, 42)).wait();
+      const requestId = await requestDecryption(0n, signers.deployer.address);
+
+      await expect(contract.connect(signers.alice).myCallback(requestId, encodeNote(7), "0x")).to.be.reverted;
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(false);
+    });
+  });
+});
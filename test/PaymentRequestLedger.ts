@@ -0,0 +1,607 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { PaymentRequestLedger, PaymentRequestLedger__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+// PaymentRequestLedger.Status
+const PENDING = 0n;
+const SETTLING = 1n;
+const PARTIALLY_PAID = 2n;
+const PAID = 3n;
+const CANCELLED = 4n;
+const REJECTED = 5n;
+const EXPIRED = 6n;
+
+const gwei = (amount: number) => ethers.parseUnits(amount.toString(), "gwei");
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("PaymentRequestLedger")) as PaymentRequestLedger__factory;
+  const ledger = (await factory.deploy()) as PaymentRequestLedger;
+  return { ledger, ledgerAddress: await ledger.getAddress() };
+}
+
+describe("PaymentRequestLedger", function () {
+  let signers: Signers;
+  let ledger: PaymentRequestLedger;
+  let ledgerAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    ({ ledger, ledgerAddress } = await deployFixture());
+  });
+
+  // Alice asks Bob for `amount` gwei
+  async function createRequest(amount: number, dueDate = 0, expiresAt = 0) {
+    const input = await fhevm
+      .createEncryptedInput(ledgerAddress, signers.alice.address)
+      .add64(amount)
+      .add256(ethers.toBigInt(ethers.randomBytes(32)))
+      .encrypt();
+    const tx = await ledger
+      .connect(signers.alice)
+      .createRequest(
+        signers.bob.address,
+        ethers.ZeroAddress,
+        dueDate,
+        expiresAt,
+        input.handles[0],
+        input.handles[1],
+        "0x",
+        input.inputProof,
+      );
+    await tx.wait();
+    return ledger.requestCount();
+  }
+
+  async function pay(requestId: bigint, amount: number) {
+    await (await ledger.connect(signers.bob).payRequest(requestId, { value: gwei(amount) })).wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  async function statusOf(requestId: bigint) {
+    return (await ledger.getRequest(requestId)).status;
+  }
+
+  async function paidSoFar(requestId: bigint, signer: HardhatEthersSigner) {
+    const handle = (await ledger.getRequest(requestId)).paid;
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, ledgerAddress, signer);
+  }
+
+  describe("payments", function () {
+    it("starts pending with nothing paid", async function () {
+      const requestId = await createRequest(100);
+      expect(await statusOf(requestId)).to.eq(PENDING);
+      expect(await paidSoFar(requestId, signers.alice)).to.eq(0n);
+    });
+
+    it("waits for the oracle before settling", async function () {
+      const requestId = await createRequest(100);
+      await expect(ledger.connect(signers.bob).payRequest(requestId, { value: gwei(100) })).to.emit(
+        ledger,
+        "PaymentSubmitted",
+      );
+      expect(await statusOf(requestId)).to.eq(SETTLING);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await statusOf(requestId)).to.eq(PAID);
+    });
+
+    it("moves through PartiallyPaid to Paid", async function () {
+      const requestId = await createRequest(100);
+
+      await pay(requestId, 40);
+      expect(await statusOf(requestId)).to.eq(PARTIALLY_PAID);
+      expect(await paidSoFar(requestId, signers.bob)).to.eq(40n);
+
+      await pay(requestId, 60);
+      expect(await statusOf(requestId)).to.eq(PAID);
+      expect(await paidSoFar(requestId, signers.alice)).to.eq(100n);
+    });
+
+    it("forwards accepted payments to the requester", async function () {
+      const requestId = await createRequest(100);
+      const before = await ethers.provider.getBalance(signers.alice.address);
+
+      await pay(requestId, 40);
+      expect(await ethers.provider.getBalance(signers.alice.address)).to.eq(before + gwei(40));
+      expect(await ethers.provider.getBalance(ledgerAddress)).to.eq(0n);
+    });
+
+    it("refunds an overpayment and restores the previous state", async function () {
+      const requestId = await createRequest(100);
+      await pay(requestId, 40);
+      const before = await ethers.provider.getBalance(signers.alice.address);
+
+      await pay(requestId, 61);
+      expect(await ledger.queryFilter(ledger.filters.PaymentFailed(requestId))).to.have.lengthOf(1);
+      expect(await ethers.provider.getBalance(signers.alice.address)).to.eq(before);
+      expect(await ethers.provider.getBalance(ledgerAddress)).to.eq(0n);
+      expect(await statusOf(requestId)).to.eq(PARTIALLY_PAID);
+      expect(await paidSoFar(requestId, signers.bob)).to.eq(40n);
+    });
+
+    it("only accepts payments from the payer", async function () {
+      const requestId = await createRequest(100);
+      await expect(
+        ledger.connect(signers.deployer).payRequest(requestId, { value: gwei(100) }),
+      ).to.be.revertedWithCustomError(ledger, "NotPayer");
+    });
+
+    it("rejects payments once the request is closed", async function () {
+      const requestId = await createRequest(100);
+      await pay(requestId, 100);
+      await expect(
+        ledger.connect(signers.bob).payRequest(requestId, { value: gwei(1) }),
+      ).to.be.revertedWithCustomError(ledger, "InvalidState");
+    });
+  });
+
+  describe("totals", function () {
+    async function totalsOf(signer: HardhatEthersSigner) {
+      const totals = await ledger.getTotals(signer.address, ethers.ZeroAddress);
+      const decrypt = (handle: string) => fhevm.userDecryptEuint(FhevmType.euint64, handle, ledgerAddress, signer);
+      return {
+        requested: await decrypt(totals.requested),
+        paid: await decrypt(totals.paid),
+        outstanding: await decrypt(totals.outstanding),
+      };
+    }
+
+    it("adds new requests to the requester's totals", async function () {
+      await createRequest(100);
+      await createRequest(50);
+      expect(await totalsOf(signers.alice)).to.deep.eq({ requested: 150n, paid: 0n, outstanding: 150n });
+    });
+
+    it("moves accepted payments from outstanding to paid", async function () {
+      const requestId = await createRequest(100);
+      await pay(requestId, 40);
+      await pay(requestId, 70); // exceeds the outstanding 60, refunded
+      expect(await totalsOf(signers.alice)).to.deep.eq({ requested: 100n, paid: 40n, outstanding: 60n });
+
+      await pay(requestId, 60);
+      expect(await totalsOf(signers.alice)).to.deep.eq({ requested: 100n, paid: 100n, outstanding: 0n });
+    });
+
+    it("drops the unpaid remainder of closed requests from outstanding", async function () {
+      const cancelled = await createRequest(100);
+      const rejected = await createRequest(30);
+      await createRequest(20);
+      await pay(cancelled, 40);
+
+      await (await ledger.connect(signers.alice).cancelRequest(cancelled)).wait();
+      await (await ledger.connect(signers.bob).rejectRequest(rejected)).wait();
+      expect(await totalsOf(signers.alice)).to.deep.eq({ requested: 150n, paid: 40n, outstanding: 20n });
+    });
+
+    it("keeps totals private to the requester", async function () {
+      await createRequest(100);
+      const totals = await ledger.getTotals(signers.alice.address, ethers.ZeroAddress);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, totals.requested, ledgerAddress, signers.bob),
+      ).to.be.rejected;
+    });
+  });
+
+  describe("privacy", function () {
+    it("lets the requester and the payer decrypt the amount and note key", async function () {
+      const request = await ledger.getRequest(await createRequest(100));
+      for (const signer of [signers.alice, signers.bob]) {
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, request.amount, ledgerAddress, signer)).to.eq(100n);
+        await fhevm.userDecryptEuint(FhevmType.euint256, request.noteKey, ledgerAddress, signer);
+      }
+    });
+
+    it("keeps the amount and note key from anyone else", async function () {
+      const request = await ledger.getRequest(await createRequest(100));
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, request.amount, ledgerAddress, signers.carol),
+      ).to.be.rejected;
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint256, request.noteKey, ledgerAddress, signers.carol),
+      ).to.be.rejected;
+    });
+  });
+
+  describe("cancellation", function () {
+    it("lets the requester cancel a pending or partially paid request", async function () {
+      const requestId = await createRequest(100);
+      await pay(requestId, 10);
+
+      await expect(ledger.connect(signers.alice).cancelRequest(requestId))
+        .to.emit(ledger, "PaymentRequestCancelled")
+        .withArgs(requestId, signers.alice.address);
+      expect(await statusOf(requestId)).to.eq(CANCELLED);
+    });
+
+    it("only lets the requester cancel", async function () {
+      const requestId = await createRequest(100);
+      await expect(ledger.connect(signers.bob).cancelRequest(requestId)).to.be.revertedWithCustomError(
+        ledger,
+        "NotRequester",
+      );
+    });
+
+    it("does not cancel while a payment is settling", async function () {
+      const requestId = await createRequest(100);
+      await (await ledger.connect(signers.bob).payRequest(requestId, { value: gwei(100) })).wait();
+      await expect(ledger.connect(signers.alice).cancelRequest(requestId)).to.be.revertedWithCustomError(
+        ledger,
+        "InvalidState",
+      );
+    });
+  });
+
+  describe("rejection", function () {
+    it("lets the payer reject a pending request", async function () {
+      const requestId = await createRequest(100);
+      await expect(ledger.connect(signers.bob).rejectRequest(requestId))
+        .to.emit(ledger, "PaymentRequestRejected")
+        .withArgs(requestId, signers.bob.address);
+      expect(await statusOf(requestId)).to.eq(REJECTED);
+    });
+
+    it("does not let the payer reject after paying part of it", async function () {
+      const requestId = await createRequest(100);
+      await pay(requestId, 10);
+      await expect(ledger.connect(signers.bob).rejectRequest(requestId)).to.be.revertedWithCustomError(
+        ledger,
+        "InvalidState",
+      );
+    });
+
+    it("only lets the payer reject", async function () {
+      const requestId = await createRequest(100);
+      await expect(ledger.connect(signers.alice).rejectRequest(requestId)).to.be.revertedWithCustomError(
+        ledger,
+        "NotPayer",
+      );
+    });
+  });
+
+  describe("due dates", function () {
+    it("rejects due dates in the past", async function () {
+      await expect(createRequest(100, await time.latest())).to.be.revertedWithCustomError(ledger, "InvalidDueDate");
+    });
+
+    it("still accepts payment of an overdue request", async function () {
+      const requestId = await createRequest(100, (await time.latest()) + 3600);
+      await time.increase(3601);
+
+      await pay(requestId, 100);
+      expect(await statusOf(requestId)).to.eq(PAID);
+    });
+
+    it("does not expire an overdue request without an expiry", async function () {
+      const requestId = await createRequest(100, (await time.latest()) + 3600);
+      await time.increase(365 * 24 * 3600);
+      await expect(ledger.expireRequest(requestId)).to.be.revertedWithCustomError(ledger, "NotExpired");
+    });
+  });
+
+  describe("expiry", function () {
+    it("rejects an expiry in the past or before the due date", async function () {
+      const now = await time.latest();
+      await expect(createRequest(100, 0, now)).to.be.revertedWithCustomError(ledger, "InvalidExpiry");
+      await expect(createRequest(100, now + 7200, now + 3600)).to.be.revertedWithCustomError(ledger, "InvalidExpiry");
+    });
+
+    it("expires an open request after its expiry", async function () {
+      const requestId = await createRequest(100, 0, (await time.latest()) + 3600);
+      await expect(ledger.expireRequest(requestId)).to.be.revertedWithCustomError(ledger, "NotExpired");
+
+      await time.increase(3601);
+      await expect(ledger.expireRequest(requestId)).to.emit(ledger, "PaymentRequestExpired").withArgs(requestId);
+      expect(await statusOf(requestId)).to.eq(EXPIRED);
+    });
+
+    it("refuses payment once expired, even before it is marked", async function () {
+      const requestId = await createRequest(100, 0, (await time.latest()) + 3600);
+      await time.increase(3601);
+
+      await expect(
+        ledger.connect(signers.bob).payRequest(requestId, { value: gwei(100) }),
+      ).to.be.revertedWithCustomError(ledger, "RequestExpired");
+    });
+
+    it("does not expire a paid request", async function () {
+      const requestId = await createRequest(100, 0, (await time.latest()) + 3600);
+      await pay(requestId, 100);
+      await time.increase(3601);
+      await expect(ledger.expireRequest(requestId)).to.be.revertedWithCustomError(ledger, "InvalidState");
+    });
+  });
+
+  describe("recurring series", function () {
+    const WEEK = 7 * 24 * 3600;
+
+    // Alice bills Bob `amount` gwei every week from `startAt`
+    async function createSeries(amount: number, startAt: number, endAt = 0, maxOccurrences = 0, dueAfter = 0) {
+      const input = await fhevm
+        .createEncryptedInput(ledgerAddress, signers.alice.address)
+        .add64(amount)
+        .add256(ethers.toBigInt(ethers.randomBytes(32)))
+        .encrypt();
+      return ledger
+        .connect(signers.alice)
+        .createSeries(
+          signers.bob.address,
+          ethers.ZeroAddress,
+          startAt,
+          WEEK,
+          endAt,
+          maxOccurrences,
+          dueAfter,
+          input.handles[0],
+          input.handles[1],
+          "0x",
+          input.inputProof,
+        );
+    }
+
+    it("requires an end date or an occurrence count", async function () {
+      const now = await time.latest();
+      await expect(createSeries(100, now)).to.be.revertedWithCustomError(ledger, "InvalidSchedule");
+      await expect(createSeries(100, now + WEEK, now)).to.be.revertedWithCustomError(ledger, "InvalidSchedule");
+    });
+
+    it("issues the first occurrence right away when the series starts now", async function () {
+      const now = await time.latest();
+      await expect(createSeries(100, now, 0, 3, 3600))
+        .to.emit(ledger, "OccurrenceIssued")
+        .withArgs(1, 1, 0);
+
+      const request = await ledger.getRequest(1);
+      expect(request.seriesId).to.eq(1n);
+      expect(request.dueDate).to.eq(BigInt(now + 3600));
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, request.amount, ledgerAddress, signers.bob)).to.eq(100n);
+      expect((await ledger.getSeries(1)).nextIndex).to.eq(1n);
+    });
+
+    it("issues each due occurrence as its own payable request", async function () {
+      await (await createSeries(100, await time.latest(), 0, 3)).wait();
+      await expect(ledger.issueDueOccurrences(1)).to.be.revertedWithCustomError(ledger, "NothingDue");
+
+      await time.increase(WEEK);
+      await (await ledger.issueDueOccurrences(1)).wait();
+      expect(await ledger.requestCount()).to.eq(2n);
+
+      await pay(2n, 100);
+      expect(await statusOf(2n)).to.eq(PAID);
+      expect(await statusOf(1n)).to.eq(PENDING);
+    });
+
+    it("stops after the last occurrence", async function () {
+      const now = await time.latest();
+      await (await createSeries(100, now, now + WEEK)).wait();
+
+      await time.increase(3 * WEEK);
+      await (await ledger.issueDueOccurrences(1)).wait();
+      expect(await ledger.requestCount()).to.eq(2n);
+      await expect(ledger.issueDueOccurrences(1)).to.be.revertedWithCustomError(ledger, "NothingDue");
+    });
+
+    it("skips the occurrences that fall while paused", async function () {
+      await (await createSeries(100, await time.latest(), 0, 10)).wait();
+      await expect(ledger.connect(signers.alice).pauseSeries(1)).to.emit(ledger, "SeriesPaused").withArgs(1);
+
+      await time.increase(2 * WEEK);
+      await expect(ledger.issueDueOccurrences(1)).to.be.revertedWithCustomError(ledger, "NothingDue");
+
+      await expect(ledger.connect(signers.alice).resumeSeries(1)).to.emit(ledger, "SeriesResumed").withArgs(1, 2);
+      await expect(ledger.issueDueOccurrences(1)).to.be.revertedWithCustomError(ledger, "NothingDue");
+
+      await time.increase(WEEK);
+      await expect(ledger.issueDueOccurrences(1)).to.emit(ledger, "OccurrenceIssued").withArgs(1, 2, 3);
+    });
+
+    it("still issues an occurrence that was overdue before the pause", async function () {
+      await (await createSeries(100, await time.latest(), 0, 10)).wait();
+      await time.increase(WEEK);
+      await (await ledger.connect(signers.alice).pauseSeries(1)).wait();
+
+      await time.increase(2 * WEEK);
+      const resume = ledger.connect(signers.alice).resumeSeries(1);
+      await expect(resume).to.emit(ledger, "OccurrenceIssued").withArgs(1, 2, 1);
+      await expect(resume).to.emit(ledger, "SeriesResumed").withArgs(1, 2);
+      expect((await ledger.getSeries(1)).nextIndex).to.eq(4n);
+    });
+
+    it("lets the pre-pause backlog be issued while paused", async function () {
+      await (await createSeries(100, await time.latest(), 0, 10)).wait();
+      await time.increase(WEEK);
+      await (await ledger.connect(signers.alice).pauseSeries(1)).wait();
+
+      await time.increase(WEEK);
+      await expect(ledger.issueDueOccurrences(1)).to.emit(ledger, "OccurrenceIssued").withArgs(1, 2, 1);
+      await expect(ledger.issueDueOccurrences(1)).to.be.revertedWithCustomError(ledger, "NothingDue");
+      expect((await ledger.getSeries(1)).pausedAt).to.not.eq(0n);
+    });
+
+    it("stops issuing once cancelled but keeps issued requests open", async function () {
+      await (await createSeries(100, await time.latest(), 0, 10)).wait();
+      await expect(ledger.connect(signers.alice).cancelSeries(1)).to.emit(ledger, "SeriesCancelled").withArgs(1);
+
+      await time.increase(WEEK);
+      await expect(ledger.issueDueOccurrences(1)).to.be.revertedWithCustomError(ledger, "SeriesInactive");
+      expect(await statusOf(1n)).to.eq(PENDING);
+    });
+
+    it("only lets the requester pause or cancel", async function () {
+      await (await createSeries(100, await time.latest(), 0, 10)).wait();
+      await expect(ledger.connect(signers.bob).pauseSeries(1)).to.be.revertedWithCustomError(ledger, "NotRequester");
+      await expect(ledger.connect(signers.bob).cancelSeries(1)).to.be.revertedWithCustomError(ledger, "NotRequester");
+    });
+  });
+
+  describe("split bills", function () {
+    // Alice splits a bill between Bob and Carol, equally when given one amount
+    async function createSplit(amounts: number[]) {
+      const payers = [signers.bob.address, signers.carol.address];
+      const input = fhevm.createEncryptedInput(ledgerAddress, signers.alice.address);
+      amounts.forEach((amount) => input.add64(amount));
+      const encrypted = await input.add256(ethers.toBigInt(ethers.randomBytes(32))).encrypt();
+      const [noteKey] = encrypted.handles.slice(-1);
+      const split = ledger.connect(signers.alice);
+      const shares = encrypted.handles.slice(0, -1);
+      const tx =
+        amounts.length === 1
+          ? await split.createEqualSplit(payers, ethers.ZeroAddress, 0, 0, shares[0], noteKey, "0x", encrypted.inputProof)
+          : await split.createSplit(payers, ethers.ZeroAddress, 0, 0, shares, noteKey, "0x", encrypted.inputProof);
+      await tx.wait();
+      return ledger.splitCount();
+    }
+
+    async function shareOf(requestId: bigint, signer: HardhatEthersSigner) {
+      const handle = (await ledger.getRequest(requestId)).amount;
+      return fhevm.userDecryptEuint(FhevmType.euint64, handle, ledgerAddress, signer);
+    }
+
+    async function paidShares(splitId: bigint) {
+      const handle = (await ledger.getSplit(splitId)).paidShares;
+      return fhevm.userDecryptEuint(FhevmType.euint32, handle, ledgerAddress, signers.alice);
+    }
+
+    it("addresses one share request to each payer", async function () {
+      const splitId = await createSplit([70, 30]);
+      const [bobShare, carolShare] = (await ledger.getSplit(splitId)).requestIds;
+
+      expect((await ledger.getRequest(bobShare)).payer).to.eq(signers.bob.address);
+      expect((await ledger.getRequest(carolShare)).splitId).to.eq(splitId);
+      expect(await shareOf(bobShare, signers.bob)).to.eq(70n);
+      expect(await shareOf(carolShare, signers.carol)).to.eq(30n);
+    });
+
+    it("splits equally, leaving the remainder to the first payer", async function () {
+      const [bobShare, carolShare] = (await ledger.getSplit(await createSplit([101]))).requestIds;
+      expect(await shareOf(bobShare, signers.bob)).to.eq(51n);
+      expect(await shareOf(carolShare, signers.carol)).to.eq(50n);
+    });
+
+    it("only lets each payer decrypt their own share", async function () {
+      const [, carolShare] = (await ledger.getSplit(await createSplit([70, 30]))).requestIds;
+      const handle = (await ledger.getRequest(carolShare)).amount;
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, handle, ledgerAddress, signers.bob)).to.be.rejected;
+    });
+
+    it("counts paid shares and is paid once every share settles", async function () {
+      const splitId = await createSplit([70, 30]);
+      const [bobShare, carolShare] = (await ledger.getSplit(splitId)).requestIds;
+      expect(await paidShares(splitId)).to.eq(0n);
+
+      await pay(bobShare, 70);
+      expect(await paidShares(splitId)).to.eq(1n);
+      expect((await ledger.getSplit(splitId)).settledShares).to.eq(1n);
+
+      await (await ledger.connect(signers.carol).payRequest(carolShare, { value: gwei(30) })).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await paidShares(splitId)).to.eq(2n);
+      expect(await ledger.queryFilter(ledger.filters.SplitPaid(splitId))).to.have.lengthOf(1);
+    });
+
+    it("does not count a partial share payment", async function () {
+      const splitId = await createSplit([70, 30]);
+      const [bobShare] = (await ledger.getSplit(splitId)).requestIds;
+      await pay(bobShare, 20);
+      expect(await paidShares(splitId)).to.eq(0n);
+    });
+
+    it("rejects duplicate payers and mismatched shares", async function () {
+      const input = await fhevm
+        .createEncryptedInput(ledgerAddress, signers.alice.address)
+        .add64(10)
+        .add256(1)
+        .encrypt();
+      const [share, noteKey] = input.handles;
+      const split = ledger.connect(signers.alice);
+      const twice = [signers.bob.address, signers.bob.address];
+      const both = [signers.bob.address, signers.carol.address];
+      await expect(
+        split.createEqualSplit(twice, ethers.ZeroAddress, 0, 0, share, noteKey, "0x", input.inputProof),
+      ).to.be.revertedWithCustomError(ledger, "InvalidPayer");
+      await expect(
+        split.createSplit(both, ethers.ZeroAddress, 0, 0, [share], noteKey, "0x", input.inputProof),
+      ).to.be.revertedWithCustomError(ledger, "InvalidShares");
+    });
+  });
+
+  describe("invoices", function () {
+    // Stands in for a line's description sealed with the note key
+    const sealed = (text: string) => ethers.hexlify(ethers.toUtf8Bytes(text));
+
+    // Alice invoices Bob for lines of [sealed description, quantity, unit price in gwei]
+    async function createInvoice(lines: [string, number, number][]) {
+      const input = fhevm.createEncryptedInput(ledgerAddress, signers.alice.address);
+      lines.forEach(([, quantity]) => input.add64(quantity));
+      lines.forEach(([, , unitPrice]) => input.add64(unitPrice));
+      const encrypted = await input.add256(ethers.toBigInt(ethers.randomBytes(32))).encrypt();
+      const tx = await ledger.connect(signers.alice).createInvoice(
+        signers.bob.address,
+        ethers.ZeroAddress,
+        0,
+        0,
+        lines.map(([details]) => details),
+        encrypted.handles.slice(0, lines.length),
+        encrypted.handles.slice(lines.length, 2 * lines.length),
+        encrypted.handles[2 * lines.length],
+        "0x",
+        encrypted.inputProof,
+      );
+      await tx.wait();
+      return ledger.requestCount();
+    }
+
+    it("computes the encrypted total from the lines", async function () {
+      const requestId = await createInvoice([
+        [sealed("Design"), 3, 40],
+        [sealed("Hosting"), 1, 25],
+      ]);
+      const handle = (await ledger.getRequest(requestId)).amount;
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, ledgerAddress, signers.bob)).to.eq(145n);
+    });
+
+    it("stores the sealed lines with quantities and unit prices only the parties can decrypt", async function () {
+      const requestId = await createInvoice([[sealed("Design"), 3, 40]]);
+      const [line] = await ledger.getLineItems(requestId);
+      expect(line.details).to.eq(sealed("Design"));
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, line.quantity, ledgerAddress, signers.bob)).to.eq(3n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, line.unitPrice, ledgerAddress, signers.bob)).to.eq(40n);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, line.unitPrice, ledgerAddress, signers.carol)).to.be
+        .rejected;
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, line.quantity, ledgerAddress, signers.carol)).to.be
+        .rejected;
+    });
+
+    it("is paid like any other request", async function () {
+      const requestId = await createInvoice([[sealed("Design"), 2, 50]]);
+      await pay(requestId, 100);
+      expect(await statusOf(requestId)).to.eq(PAID);
+    });
+
+    it("has no lines for plain requests", async function () {
+      expect(await ledger.getLineItems(await createRequest(100))).to.have.lengthOf(0);
+    });
+
+    it("rejects empty invoices and lines without details", async function () {
+      await expect(createInvoice([])).to.be.revertedWithCustomError(ledger, "InvalidLineItems");
+      await expect(createInvoice([["0x", 1, 40]])).to.be.revertedWithCustomError(ledger, "InvalidLineItems");
+    });
+  });
+});
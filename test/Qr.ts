@@ -0,0 +1,67 @@
+import { expect } from "chai";
+import jsQR from "jsqr";
+import { encodeQr, QR_QUIET_ZONE, qrPath, qrSvg } from "../frontend/web/src/qr";
+
+const SCALE = 4;
+
+// Draws the modules with a quiet zone as an RGBA image and reads it back with an independent decoder
+function decode(modules: boolean[][]): string | undefined {
+  const size = (modules.length + QR_QUIET_ZONE * 2) * SCALE;
+  const pixels = new Uint8ClampedArray(size * size * 4).fill(255);
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < SCALE; dy++) {
+        for (let dx = 0; dx < SCALE; dx++) {
+          const offset = (((y + QR_QUIET_ZONE) * SCALE + dy) * size + (x + QR_QUIET_ZONE) * SCALE + dx) * 4;
+          pixels.fill(0, offset, offset + 3);
+        }
+      }
+    }),
+  );
+  return jsQR(pixels, size, size)?.data;
+}
+
+describe("QR codes", function () {
+  const link = "https://pay.example/request/12?chain=11155111&contract=0x079C5f2595C761Aa2A57782CF1c03C031C3dE4a1";
+
+  it("decodes back to a request link", function () {
+    expect(decode(encodeQr(link))).to.eq(link);
+  });
+
+  it("decodes with every mask", function () {
+    for (let mask = 0; mask < 8; mask++) {
+      expect(decode(encodeQr("confidentialpay:request/7", mask)), `mask ${mask}`).to.eq("confidentialpay:request/7");
+    }
+  });
+
+  it("picks the smallest version that fits", function () {
+    expect(encodeQr("").length).to.eq(21);
+    expect(encodeQr("a".repeat(14)).length).to.eq(21);
+    expect(encodeQr("a".repeat(15)).length).to.eq(25);
+    expect(encodeQr("a".repeat(213)).length).to.eq(57);
+  });
+
+  it("decodes at every version", function () {
+    for (const length of [1, 20, 40, 70, 100, 130, 150, 190, 213]) {
+      const text = "x".repeat(length);
+      expect(decode(encodeQr(text)), `${length} bytes`).to.eq(text);
+    }
+  });
+
+  it("encodes text as UTF-8", function () {
+    expect(decode(encodeQr("Café ☕"))).to.eq("Café ☕");
+  });
+
+  it("rejects text that does not fit", function () {
+    expect(() => encodeQr("a".repeat(214))).to.throw(/too long/);
+  });
+
+  it("draws one square per dark module, offset by the quiet zone", function () {
+    const modules = encodeQr(link);
+    const dark = modules.flat().filter(Boolean).length;
+    expect(qrPath(modules).match(/M/g)).to.have.lengthOf(dark);
+    expect(qrPath([[true]])).to.eq(`M${QR_QUIET_ZONE},${QR_QUIET_ZONE}h1v1h-1z`);
+    expect(qrSvg(link)).to.match(/^<svg [^>]*width="\d+"/);
+  });
+});
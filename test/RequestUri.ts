@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import {
+  formatRequestUri,
+  InvalidRequestUriError,
+  isRequestUri,
+  parseRequestUri,
+  RequestLocation,
+} from "../frontend/web/src/requestUri";
+
+const LEDGER = "0x079C5f2595C761Aa2A57782CF1c03C031C3dE4a1";
+
+describe("request URIs", function () {
+  describe("round trip", function () {
+    const locations: [string, RequestLocation][] = [
+      ["a Sepolia request", { chainId: 11155111, contract: LEDGER, requestId: 1 }],
+      ["a local hardhat request", { chainId: 31337, contract: LEDGER, requestId: 42 }],
+      ["large ids", { chainId: Number.MAX_SAFE_INTEGER, contract: LEDGER, requestId: Number.MAX_SAFE_INTEGER }],
+    ];
+
+    for (const [name, location] of locations) {
+      it(`formats and parses ${name}`, function () {
+        expect(parseRequestUri(formatRequestUri(location))).to.deep.eq(location);
+      });
+    }
+
+    it("formats the documented shape with a checksummed address", function () {
+      expect(formatRequestUri({ chainId: 11155111, contract: LEDGER.toLowerCase(), requestId: 7 })).to.eq(
+        `confidentialpay:${LEDGER}@11155111/request/7`,
+      );
+    });
+  });
+
+  describe("parsing", function () {
+    const accepted: [string, string, RequestLocation][] = [
+      ["a lowercase address", `confidentialpay:${LEDGER.toLowerCase()}@1/request/2`, { chainId: 1, contract: LEDGER, requestId: 2 }],
+      ["an uppercase scheme", `CONFIDENTIALPAY:${LEDGER}@1/request/2`, { chainId: 1, contract: LEDGER, requestId: 2 }],
+    ];
+
+    for (const [name, uri, location] of accepted) {
+      it(`accepts ${name}`, function () {
+        expect(parseRequestUri(uri)).to.deep.eq(location);
+      });
+    }
+
+    const badChecksum = LEDGER.replace("C5f", "c5f");
+    const rejected: [string, string][] = [
+      ["an empty string", ""],
+      ["another scheme", `ethereum:${LEDGER}@1/request/2`],
+      ["a missing scheme", `${LEDGER}@1/request/2`],
+      ["a short address", "confidentialpay:0x1234@1/request/2"],
+      ["a bad checksum", `confidentialpay:${badChecksum}@1/request/2`],
+      ["a missing chain ID", `confidentialpay:${LEDGER}/request/2`],
+      ["chain ID 0", `confidentialpay:${LEDGER}@0/request/2`],
+      ["a leading zero", `confidentialpay:${LEDGER}@01/request/2`],
+      ["request ID 0", `confidentialpay:${LEDGER}@1/request/0`],
+      ["a negative request ID", `confidentialpay:${LEDGER}@1/request/-2`],
+      ["a hex request ID", `confidentialpay:${LEDGER}@1/request/0x2`],
+      ["an unsafe integer", `confidentialpay:${LEDGER}@1/request/9007199254740993`],
+      ["another path", `confidentialpay:${LEDGER}@1/series/2`],
+      ["a trailing slash", `confidentialpay:${LEDGER}@1/request/2/`],
+      ["a query", `confidentialpay:${LEDGER}@1/request/2?amount=1`],
+      ["a fragment", `confidentialpay:${LEDGER}@1/request/2#pay`],
+      ["surrounding whitespace", ` confidentialpay:${LEDGER}@1/request/2`],
+    ];
+
+    for (const [name, uri] of rejected) {
+      it(`rejects ${name}`, function () {
+        expect(() => parseRequestUri(uri)).to.throw(InvalidRequestUriError);
+        expect(isRequestUri(uri)).to.eq(false);
+      });
+    }
+  });
+
+  describe("formatting", function () {
+    const rejected: [string, RequestLocation][] = [
+      ["a non-address contract", { chainId: 1, contract: "ledger", requestId: 1 }],
+      ["chain ID 0", { chainId: 0, contract: LEDGER, requestId: 1 }],
+      ["a fractional request ID", { chainId: 1, contract: LEDGER, requestId: 1.5 }],
+      ["a negative request ID", { chainId: 1, contract: LEDGER, requestId: -1 }],
+    ];
+
+    for (const [name, location] of rejected) {
+      it(`rejects ${name}`, function () {
+        expect(() => formatRequestUri(location)).to.throw(InvalidRequestUriError);
+      });
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { RpcPool } from "../frontend/web/src/rpcPool";
+
+interface Fault {
+  delay?: number; // ms before answering
+  status?: number; // HTTP status instead of a JSON-RPC answer
+  error?: { code: number; message: string }; // JSON-RPC error for every call
+}
+
+const RESULTS: Record<string, string> = {
+  eth_blockNumber: "0x10",
+  eth_call: "0x" + "2a".padStart(64, "0"),
+  eth_sendRawTransaction: "0x" + "ab".repeat(32),
+};
+
+// A local JSON-RPC endpoint with switchable faults that records the methods it receives
+class StubRpc {
+  fault: Fault = {};
+  methods: string[] = [];
+  url = "";
+
+  private readonly server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const payload = JSON.parse(body);
+      const calls: { id: number; method: string }[] = Array.isArray(payload) ? payload : [payload];
+      this.methods.push(...calls.map(call => call.method));
+      const { delay = 0, status, error } = this.fault;
+      setTimeout(() => {
+        if (status) {
+          res.writeHead(status).end("unavailable");
+          return;
+        }
+        const answers = calls.map(call =>
+          error ? { jsonrpc: "2.0", id: call.id, error } : { jsonrpc: "2.0", id: call.id, result: RESULTS[call.method] },
+        );
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify(Array.isArray(payload) ? answers : answers[0]));
+      }, delay);
+    });
+  });
+
+  async start() {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this;
+  }
+
+  async stop() {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("RpcPool", function () {
+  let first: StubRpc;
+  let second: StubRpc;
+  let pool: RpcPool;
+
+  const createPool = (options = {}) => {
+    pool = new RpcPool([first.url, second.url], 31337, options);
+    return pool;
+  };
+
+  beforeEach(async function () {
+    first = await new StubRpc().start();
+    second = await new StubRpc().start();
+  });
+
+  afterEach(async function () {
+    pool?.destroy();
+    await Promise.all([first.stop(), second.stop()]);
+  });
+
+  it("settles on the faster endpoint", async function () {
+    first.fault = { delay: 100 };
+    createPool();
+
+    for (let i = 0; i < 6; i++) await pool.send("eth_blockNumber", []);
+
+    // Each endpoint is measured once, then the faster one takes every call
+    expect(first.methods).to.have.length(1);
+    expect(second.methods).to.have.length(5);
+    const [slow, fast] = pool.health();
+    expect(slow.latencyMs).to.be.greaterThan(fast.latencyMs!);
+  });
+
+  it("retries a read on the next endpoint when one fails", async function () {
+    first.fault = { status: 500 };
+    createPool();
+
+    expect(await pool.send("eth_blockNumber", [])).to.eq("0x10");
+
+    expect(first.methods).to.deep.eq(["eth_blockNumber"]);
+    expect(second.methods).to.deep.eq(["eth_blockNumber"]);
+    const [failing] = pool.health();
+    expect(failing.failures).to.eq(1);
+    expect(failing.errorRate).to.be.greaterThan(0);
+    expect(failing.lastError).to.be.a("string");
+  });
+
+  it("retries a read on the next endpoint when one times out", async function () {
+    first.fault = { delay: 1000 };
+    createPool({ timeout: 100 });
+
+    expect(await pool.send("eth_blockNumber", [])).to.eq("0x10");
+
+    expect(pool.health()[0].failures).to.eq(1);
+  });
+
+  it("does not resend transactions to another endpoint", async function () {
+    first.fault = { status: 500 };
+    createPool();
+
+    await expect(pool.send("eth_sendRawTransaction", ["0x00"])).to.be.rejected;
+
+    expect(second.methods).to.deep.eq([]);
+  });
+
+  it("passes JSON-RPC errors through without blaming the endpoint", async function () {
+    first.fault = { error: { code: 3, message: "execution reverted" } };
+    createPool();
+
+    await expect(pool.send("eth_call", [{ to: first.url }, "latest"])).to.be.rejected;
+
+    expect(second.methods).to.deep.eq([]);
+    expect(pool.health()[0].failures).to.eq(0);
+  });
+
+  it("treats rate limiting as an endpoint failure", async function () {
+    first.fault = { error: { code: -32005, message: "limit exceeded" } };
+    createPool();
+
+    expect(await pool.send("eth_blockNumber", [])).to.eq("0x10");
+
+    expect(pool.health()[0]).to.include({ failures: 1, lastError: "limit exceeded" });
+  });
+
+  it("rests a failing endpoint and returns to it after the cooldown", async function () {
+    first.fault = { status: 503 };
+    createPool({ failureThreshold: 1, cooldownMs: 200 });
+
+    await pool.send("eth_blockNumber", []);
+    expect(pool.health()[0].healthy).to.eq(false);
+    await pool.send("eth_blockNumber", []);
+    expect(first.methods).to.have.length(1);
+
+    first.fault = {};
+    await sleep(250);
+    expect(pool.health()[0].healthy).to.eq(true);
+    await pool.send("eth_blockNumber", []);
+    expect(first.methods).to.have.length(2);
+  });
+
+  it("still tries the endpoint that recovers first when all are resting", async function () {
+    first.fault = { status: 503 };
+    second.fault = { status: 503 };
+    createPool({ failureThreshold: 1, cooldownMs: 60_000 });
+    await expect(pool.send("eth_blockNumber", [])).to.be.rejected;
+
+    first.fault = {};
+    expect(await pool.send("eth_blockNumber", [])).to.eq("0x10");
+  });
+});
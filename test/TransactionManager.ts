@@ -0,0 +1,226 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { TrackingStoppedError, TransactionManager } from "../frontend/web/src/transactions";
+
+// Resolves with the error a promise rejects with
+const failure = (promise: Promise<unknown>) =>
+  promise.then(
+    () => expect.fail("expected the promise to reject"),
+    (error: unknown) => error as Error,
+  );
+
+const mine = () => ethers.provider.send("evm_mine", []);
+
+describe("TransactionManager", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let multicallAddress: string;
+  let manager: TransactionManager;
+
+  before(async function () {
+    [, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the fhevm mock environment");
+      this.skip();
+    }
+    // Rejects plain ETH transfers, which makes for an easy revert
+    const multicall = await (await ethers.getContractFactory("Multicall3")).deploy();
+    multicallAddress = await multicall.getAddress();
+    manager = new TransactionManager(ethers.provider, { confirmations: 2 });
+    // Keep sent transactions pending until a test mines them
+    await ethers.provider.send("evm_setAutomine", [false]);
+  });
+
+  afterEach(async function () {
+    if (!fhevm.isMock) return;
+    await ethers.provider.send("evm_setAutomine", [true]);
+    await mine();
+  });
+
+  const transfer = (overrides = {}) => alice.sendTransaction({ to: bob.address, value: 1n, ...overrides });
+
+  it("counts confirmations until a transaction is confirmed", async function () {
+    const tracked = manager.track(await transfer(), "Transfer");
+
+    await manager.refresh();
+    expect(manager.get(tracked.hash)).to.include({ status: "pending", confirmations: 0 });
+
+    await mine();
+    await manager.refresh();
+    expect(manager.get(tracked.hash)).to.include({ status: "mined", confirmations: 1 });
+
+    await mine();
+    await manager.refresh();
+    expect(manager.get(tracked.hash)).to.include({ status: "confirmed", confirmations: 2 });
+
+    const error = await failure(manager.speedUp(tracked.hash, alice));
+    expect(error.message).to.match(/Only pending transactions/);
+  });
+
+  it("resolves wait once mined and rejects for reverted transactions", async function () {
+    const good = manager.track(await transfer(), "Transfer");
+    const bad = manager.track(
+      await alice.sendTransaction({ to: multicallAddress, value: 1n, gasLimit: 100_000 }),
+      "Transfer to a contract",
+    );
+    const mined = manager.wait(good.hash);
+    const reverted = failure(manager.wait(bad.hash));
+
+    await mine();
+    await manager.refresh();
+
+    expect((await mined).status).to.eq("mined");
+    expect((await reverted).message).to.match(/reverted/);
+    expect(manager.get(bad.hash)?.status).to.eq("failed");
+  });
+
+  it("speeds up a pending transaction at the same nonce", async function () {
+    const original = manager.track(await transfer(), "Transfer");
+
+    const faster = await manager.speedUp(original.hash, alice);
+    expect(faster).to.include({ nonce: original.nonce, replaces: original.hash, cancel: false, label: "Transfer" });
+    expect(faster.maxFeePerGas! > original.maxFeePerGas!).to.eq(true);
+    expect(faster.maxPriorityFeePerGas! > original.maxPriorityFeePerGas!).to.eq(true);
+    const settled = manager.wait(original.hash);
+
+    await mine();
+    await manager.refresh();
+
+    expect(manager.get(original.hash)).to.include({ status: "replaced", replacedBy: faster.hash });
+    expect(manager.get(faster.hash)?.status).to.eq("mined");
+    expect((await settled).hash).to.eq(faster.hash);
+  });
+
+  it("follows a speed-up that settled before the original was checked again", async function () {
+    const original = manager.track(await transfer(), "Transfer");
+    // As another tab saved it, still pending
+    const saved = structuredClone(manager.list());
+    const faster = await manager.speedUp(original.hash, alice);
+    manager.dismiss(original.hash);
+    await mine();
+    await mine();
+    await manager.refresh();
+    expect(manager.get(faster.hash)?.status).to.eq("confirmed");
+
+    manager.restore(saved);
+    const settled = manager.wait(original.hash);
+    await manager.refresh();
+
+    expect(manager.get(original.hash)).to.include({ status: "replaced", replacedBy: faster.hash });
+    expect((await settled).hash).to.eq(faster.hash);
+  });
+
+  it("cancels a pending transaction", async function () {
+    const original = manager.track(await transfer({ value: ethers.parseEther("1") }), "Transfer");
+    const before = await ethers.provider.getBalance(bob.address);
+
+    const cancel = await manager.cancel(original.hash, alice);
+    expect(cancel).to.include({ nonce: original.nonce, to: alice.address, value: 0n, cancel: true });
+    const outcome = failure(manager.wait(original.hash));
+
+    await mine();
+    await manager.refresh();
+
+    expect(manager.get(original.hash)).to.include({ status: "cancelled", replacedBy: cancel.hash });
+    expect((await outcome).message).to.match(/cancelled/);
+    expect(await ethers.provider.getBalance(bob.address)).to.eq(before);
+  });
+
+  // Sends `overrides` at the original's nonce from outside the manager, e.g. from the wallet's own menu
+  const replaceOutside = (original: { nonce: number; maxFeePerGas: bigint | null; maxPriorityFeePerGas: bigint | null }, overrides = {}) =>
+    alice.sendTransaction({
+      to: bob.address,
+      value: 1n,
+      nonce: original.nonce,
+      maxFeePerGas: original.maxFeePerGas! * 2n,
+      maxPriorityFeePerGas: original.maxPriorityFeePerGas! * 2n,
+      ...overrides,
+    });
+
+  it("notices replacements sent from outside the manager", async function () {
+    const original = manager.track(await transfer(), "Transfer");
+    const outcome = failure(manager.wait(original.hash));
+    await replaceOutside(original, { to: carol.address });
+    await mine();
+
+    // The first poll that sees the nonce used gives lagging endpoints a chance to catch up
+    await manager.refresh();
+    expect(manager.get(original.hash)?.status).to.eq("pending");
+
+    await manager.refresh();
+    expect(manager.get(original.hash)).to.include({ status: "replaced", replacedBy: null });
+    expect((await outcome).message).to.match(/replaced/);
+  });
+
+  it("notices cancellations sent from outside the manager", async function () {
+    const original = manager.track(await transfer(), "Transfer");
+    await replaceOutside(original, { to: alice.address, value: 0n });
+    await mine();
+
+    await manager.refresh();
+    await manager.refresh();
+
+    expect(manager.get(original.hash)).to.include({ status: "cancelled", replacedBy: null });
+  });
+
+  it("follows the wallet's own speed-up of the same call", async function () {
+    const original = manager.track(await transfer(), "Transfer");
+    const settled = manager.wait(original.hash);
+    const faster = await replaceOutside(original);
+    // Bury it under a few blocks, so it is not simply the latest one
+    await mine();
+    await mine();
+    await mine();
+
+    await manager.refresh();
+    await manager.refresh();
+
+    expect(manager.get(original.hash)).to.include({ status: "replaced", replacedBy: faster.hash });
+    expect(manager.get(faster.hash)).to.include({ status: "confirmed", replaces: original.hash, label: "Transfer" });
+    expect((await settled).hash).to.eq(faster.hash);
+  });
+
+  it("rejects waits still open when it stops", async function () {
+    const tracked = manager.track(await transfer(), "Transfer");
+    const outcome = failure(manager.wait(tracked.hash));
+
+    manager.stop();
+
+    expect(await outcome).to.be.instanceOf(TrackingStoppedError);
+  });
+
+  it("marks transactions the network forgot as dropped", async function () {
+    manager = new TransactionManager(ethers.provider, { dropAfterMs: 0 });
+    const tracked = manager.track(await transfer(), "Transfer");
+    await ethers.provider.send("hardhat_dropTransaction", [tracked.hash]);
+
+    await manager.refresh();
+
+    expect(manager.get(tracked.hash)?.status).to.eq("dropped");
+  });
+
+  it("picks up transactions saved by an earlier session", async function () {
+    const earlier = new TransactionManager(ethers.provider);
+    const saved = earlier.track(await transfer(), "Transfer");
+    const current = manager.track(await transfer(), "Another transfer");
+    const updates: number[] = [];
+    manager.subscribe(transactions => updates.push(transactions.length));
+
+    manager.restore(structuredClone(earlier.list()));
+    manager.restore(structuredClone(earlier.list()));
+
+    expect(manager.list().map(tx => tx.hash)).to.deep.eq([current.hash, saved.hash]);
+    expect(updates).to.deep.eq([2]);
+
+    // Both are from alice; hardhat takes one per block while automine is off
+    await mine();
+    await mine();
+    await manager.refresh();
+    expect(manager.list().every(tx => tx.blockNumber !== null)).to.eq(true);
+  });
+});
@@ -0,0 +1,47 @@
+import { AddressInfo } from "net";
+import { createServer } from "http";
+import { network } from "hardhat";
+
+export interface RpcRequest {
+  id: number;
+  method: string;
+  params?: unknown[];
+}
+
+export interface RpcServer {
+  url: string;
+  methods: string[]; // every method called so far, in order
+  close(): Promise<void>;
+}
+
+// Answers a JSON-RPC request from the in-process hardhat network
+export async function answer({ id, method, params }: RpcRequest) {
+  try {
+    return { jsonrpc: "2.0", id, result: await network.provider.request({ method, params }) };
+  } catch (error) {
+    return { jsonrpc: "2.0", id, error: { code: -32000, message: (error as Error).message } };
+  }
+}
+
+// Serves the hardhat network over HTTP, like `npx hardhat node`, so frontend code can reach it by URL
+export async function startRpcServer(): Promise<RpcServer> {
+  const methods: string[] = [];
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", chunk => (body += chunk));
+    request.on("end", async () => {
+      const payload = JSON.parse(body) as RpcRequest | RpcRequest[];
+      const requests = Array.isArray(payload) ? payload : [payload];
+      methods.push(...requests.map(({ method }) => method));
+      const answers = await Promise.all(requests.map(answer));
+      response.setHeader("content-type", "application/json");
+      response.end(JSON.stringify(Array.isArray(payload) ? answers : answers[0]));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    methods,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,1536 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace PaymentRequestLedger {
+  export type LineItemStruct = {
+    details: BytesLike;
+    quantity: BytesLike;
+    unitPrice: BytesLike;
+  };
+
+  export type LineItemStructOutput = [
+    details: string,
+    quantity: string,
+    unitPrice: string
+  ] & { details: string; quantity: string; unitPrice: string };
+
+  export type PaymentRequestStruct = {
+    requester: AddressLike;
+    payer: AddressLike;
+    token: AddressLike;
+    status: BigNumberish;
+    createdAt: BigNumberish;
+    updatedAt: BigNumberish;
+    dueDate: BigNumberish;
+    expiresAt: BigNumberish;
+    amount: BytesLike;
+    paid: BytesLike;
+    noteKey: BytesLike;
+    note: BytesLike;
+    seriesId: BigNumberish;
+    splitId: BigNumberish;
+  };
+
+  export type PaymentRequestStructOutput = [
+    requester: string,
+    payer: string,
+    token: string,
+    status: bigint,
+    createdAt: bigint,
+    updatedAt: bigint,
+    dueDate: bigint,
+    expiresAt: bigint,
+    amount: string,
+    paid: string,
+    noteKey: string,
+    note: string,
+    seriesId: bigint,
+    splitId: bigint
+  ] & {
+    requester: string;
+    payer: string;
+    token: string;
+    status: bigint;
+    createdAt: bigint;
+    updatedAt: bigint;
+    dueDate: bigint;
+    expiresAt: bigint;
+    amount: string;
+    paid: string;
+    noteKey: string;
+    note: string;
+    seriesId: bigint;
+    splitId: bigint;
+  };
+
+  export type SeriesStruct = {
+    requester: AddressLike;
+    payer: AddressLike;
+    token: AddressLike;
+    startAt: BigNumberish;
+    interval: BigNumberish;
+    endAt: BigNumberish;
+    maxOccurrences: BigNumberish;
+    nextIndex: BigNumberish;
+    dueAfter: BigNumberish;
+    paused: boolean;
+    pausedAt: BigNumberish;
+    cancelled: boolean;
+    amount: BytesLike;
+    noteKey: BytesLike;
+    note: BytesLike;
+  };
+
+  export type SeriesStructOutput = [
+    requester: string,
+    payer: string,
+    token: string,
+    startAt: bigint,
+    interval: bigint,
+    endAt: bigint,
+    maxOccurrences: bigint,
+    nextIndex: bigint,
+    dueAfter: bigint,
+    paused: boolean,
+    pausedAt: bigint,
+    cancelled: boolean,
+    amount: string,
+    noteKey: string,
+    note: string
+  ] & {
+    requester: string;
+    payer: string;
+    token: string;
+    startAt: bigint;
+    interval: bigint;
+    endAt: bigint;
+    maxOccurrences: bigint;
+    nextIndex: bigint;
+    dueAfter: bigint;
+    paused: boolean;
+    pausedAt: bigint;
+    cancelled: boolean;
+    amount: string;
+    noteKey: string;
+    note: string;
+  };
+
+  export type SplitStruct = {
+    requester: AddressLike;
+    token: AddressLike;
+    requestIds: BigNumberish[];
+    settledShares: BigNumberish;
+    paidShares: BytesLike;
+  };
+
+  export type SplitStructOutput = [
+    requester: string,
+    token: string,
+    requestIds: bigint[],
+    settledShares: bigint,
+    paidShares: string
+  ] & {
+    requester: string;
+    token: string;
+    requestIds: bigint[];
+    settledShares: bigint;
+    paidShares: string;
+  };
+
+  export type TotalsStruct = {
+    requested: BytesLike;
+    paid: BytesLike;
+    outstanding: BytesLike;
+  };
+
+  export type TotalsStructOutput = [
+    requested: string,
+    paid: string,
+    outstanding: string
+  ] & { requested: string; paid: string; outstanding: string };
+}
+
+export interface PaymentRequestLedgerInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_ISSUE_PER_CALL"
+      | "MAX_LINE_ITEMS"
+      | "MAX_SPLIT_PAYERS"
+      | "NATIVE_UNIT"
+      | "cancelRequest"
+      | "cancelSeries"
+      | "createEqualSplit"
+      | "createInvoice"
+      | "createRequest"
+      | "createSeries"
+      | "createSplit"
+      | "expireRequest"
+      | "getLineItems"
+      | "getRequest"
+      | "getSeries"
+      | "getSplit"
+      | "getTotals"
+      | "issueDueOccurrences"
+      | "pauseSeries"
+      | "payRequest"
+      | "payRequestAmount"
+      | "protocolId"
+      | "rejectRequest"
+      | "requestCount"
+      | "resumeSeries"
+      | "seriesCount"
+      | "settlementCallback"
+      | "settlementContexts"
+      | "splitCount"
+      | "withdraw"
+      | "withdrawable"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "OccurrenceIssued"
+      | "PaymentFailed"
+      | "PaymentRequestCancelled"
+      | "PaymentRequestCreated"
+      | "PaymentRequestExpired"
+      | "PaymentRequestPaid"
+      | "PaymentRequestPartiallyPaid"
+      | "PaymentRequestRejected"
+      | "PaymentSubmitted"
+      | "SeriesCancelled"
+      | "SeriesCreated"
+      | "SeriesPaused"
+      | "SeriesResumed"
+      | "SplitCreated"
+      | "SplitPaid"
+      | "Withdrawal"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_ISSUE_PER_CALL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_LINE_ITEMS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SPLIT_PAYERS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "NATIVE_UNIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelSeries",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createEqualSplit",
+    values: [
+      AddressLike[],
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createInvoice",
+    values: [
+      AddressLike,
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike[],
+      BytesLike[],
+      BytesLike[],
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createRequest",
+    values: [
+      AddressLike,
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createSeries",
+    values: [
+      AddressLike,
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createSplit",
+    values: [
+      AddressLike[],
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike[],
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expireRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLineItems",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSeries",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSplit",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTotals",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "issueDueOccurrences",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pauseSeries",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "payRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "payRequestAmount",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rejectRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resumeSeries",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "seriesCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settlementCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settlementContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "splitCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "withdrawable",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_ISSUE_PER_CALL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_LINE_ITEMS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SPLIT_PAYERS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "NATIVE_UNIT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelSeries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createEqualSplit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createInvoice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createSeries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createSplit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "expireRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLineItems",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRequest", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getSeries", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getSplit", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getTotals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "issueDueOccurrences",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pauseSeries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "payRequest", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "payRequestAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rejectRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resumeSeries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "seriesCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settlementCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settlementContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "splitCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawable",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OccurrenceIssuedEvent {
+  export type InputTuple = [
+    seriesId: BigNumberish,
+    requestId: BigNumberish,
+    index: BigNumberish
+  ];
+  export type OutputTuple = [
+    seriesId: bigint,
+    requestId: bigint,
+    index: bigint
+  ];
+  export interface OutputObject {
+    seriesId: bigint;
+    requestId: bigint;
+    index: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentFailedEvent {
+  export type InputTuple = [requestId: BigNumberish, payer: AddressLike];
+  export type OutputTuple = [requestId: bigint, payer: string];
+  export interface OutputObject {
+    requestId: bigint;
+    payer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentRequestCancelledEvent {
+  export type InputTuple = [requestId: BigNumberish, requester: AddressLike];
+  export type OutputTuple = [requestId: bigint, requester: string];
+  export interface OutputObject {
+    requestId: bigint;
+    requester: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentRequestCreatedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    requester: AddressLike,
+    payer: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    requester: string,
+    payer: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    requester: string;
+    payer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentRequestExpiredEvent {
+  export type InputTuple = [requestId: BigNumberish];
+  export type OutputTuple = [requestId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentRequestPaidEvent {
+  export type InputTuple = [requestId: BigNumberish, payer: AddressLike];
+  export type OutputTuple = [requestId: bigint, payer: string];
+  export interface OutputObject {
+    requestId: bigint;
+    payer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentRequestPartiallyPaidEvent {
+  export type InputTuple = [requestId: BigNumberish, payer: AddressLike];
+  export type OutputTuple = [requestId: bigint, payer: string];
+  export interface OutputObject {
+    requestId: bigint;
+    payer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentRequestRejectedEvent {
+  export type InputTuple = [requestId: BigNumberish, payer: AddressLike];
+  export type OutputTuple = [requestId: bigint, payer: string];
+  export interface OutputObject {
+    requestId: bigint;
+    payer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentSubmittedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    payer: AddressLike,
+    decryptionId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    payer: string,
+    decryptionId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    payer: string;
+    decryptionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SeriesCancelledEvent {
+  export type InputTuple = [seriesId: BigNumberish];
+  export type OutputTuple = [seriesId: bigint];
+  export interface OutputObject {
+    seriesId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SeriesCreatedEvent {
+  export type InputTuple = [
+    seriesId: BigNumberish,
+    requester: AddressLike,
+    payer: AddressLike
+  ];
+  export type OutputTuple = [
+    seriesId: bigint,
+    requester: string,
+    payer: string
+  ];
+  export interface OutputObject {
+    seriesId: bigint;
+    requester: string;
+    payer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SeriesPausedEvent {
+  export type InputTuple = [seriesId: BigNumberish];
+  export type OutputTuple = [seriesId: bigint];
+  export interface OutputObject {
+    seriesId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SeriesResumedEvent {
+  export type InputTuple = [seriesId: BigNumberish, skipped: BigNumberish];
+  export type OutputTuple = [seriesId: bigint, skipped: bigint];
+  export interface OutputObject {
+    seriesId: bigint;
+    skipped: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SplitCreatedEvent {
+  export type InputTuple = [
+    splitId: BigNumberish,
+    requester: AddressLike,
+    shareCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    splitId: bigint,
+    requester: string,
+    shareCount: bigint
+  ];
+  export interface OutputObject {
+    splitId: bigint;
+    requester: string;
+    shareCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SplitPaidEvent {
+  export type InputTuple = [splitId: BigNumberish];
+  export type OutputTuple = [splitId: bigint];
+  export interface OutputObject {
+    splitId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PaymentRequestLedger extends BaseContract {
+  connect(runner?: ContractRunner | null): PaymentRequestLedger;
+  waitForDeployment(): Promise<this>;
+
+  interface: PaymentRequestLedgerInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_ISSUE_PER_CALL: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_LINE_ITEMS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SPLIT_PAYERS: TypedContractMethod<[], [bigint], "view">;
+
+  NATIVE_UNIT: TypedContractMethod<[], [bigint], "view">;
+
+  cancelRequest: TypedContractMethod<
+    [_requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelSeries: TypedContractMethod<
+    [_seriesId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createEqualSplit: TypedContractMethod<
+    [
+      _payers: AddressLike[],
+      _token: AddressLike,
+      _dueDate: BigNumberish,
+      _expiresAt: BigNumberish,
+      _encryptedTotal: BytesLike,
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createInvoice: TypedContractMethod<
+    [
+      _payer: AddressLike,
+      _token: AddressLike,
+      _dueDate: BigNumberish,
+      _expiresAt: BigNumberish,
+      _lineDetails: BytesLike[],
+      _encryptedQuantities: BytesLike[],
+      _encryptedUnitPrices: BytesLike[],
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createRequest: TypedContractMethod<
+    [
+      _payer: AddressLike,
+      _token: AddressLike,
+      _dueDate: BigNumberish,
+      _expiresAt: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createSeries: TypedContractMethod<
+    [
+      _payer: AddressLike,
+      _token: AddressLike,
+      _startAt: BigNumberish,
+      _interval: BigNumberish,
+      _endAt: BigNumberish,
+      _maxOccurrences: BigNumberish,
+      _dueAfter: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createSplit: TypedContractMethod<
+    [
+      _payers: AddressLike[],
+      _token: AddressLike,
+      _dueDate: BigNumberish,
+      _expiresAt: BigNumberish,
+      _encryptedShares: BytesLike[],
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  expireRequest: TypedContractMethod<
+    [_requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getLineItems: TypedContractMethod<
+    [_requestId: BigNumberish],
+    [PaymentRequestLedger.LineItemStructOutput[]],
+    "view"
+  >;
+
+  getRequest: TypedContractMethod<
+    [_requestId: BigNumberish],
+    [PaymentRequestLedger.PaymentRequestStructOutput],
+    "view"
+  >;
+
+  getSeries: TypedContractMethod<
+    [_seriesId: BigNumberish],
+    [PaymentRequestLedger.SeriesStructOutput],
+    "view"
+  >;
+
+  getSplit: TypedContractMethod<
+    [_splitId: BigNumberish],
+    [PaymentRequestLedger.SplitStructOutput],
+    "view"
+  >;
+
+  getTotals: TypedContractMethod<
+    [_requester: AddressLike, _token: AddressLike],
+    [PaymentRequestLedger.TotalsStructOutput],
+    "view"
+  >;
+
+  issueDueOccurrences: TypedContractMethod<
+    [_seriesId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  pauseSeries: TypedContractMethod<
+    [_seriesId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  payRequest: TypedContractMethod<
+    [_requestId: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  payRequestAmount: TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  rejectRequest: TypedContractMethod<
+    [_requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestCount: TypedContractMethod<[], [bigint], "view">;
+
+  resumeSeries: TypedContractMethod<
+    [_seriesId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  seriesCount: TypedContractMethod<[], [bigint], "view">;
+
+  settlementCallback: TypedContractMethod<
+    [decryptionId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  settlementContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        requestId: bigint;
+        escrow: bigint;
+        previousStatus: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  splitCount: TypedContractMethod<[], [bigint], "view">;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
+  withdrawable: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_ISSUE_PER_CALL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_LINE_ITEMS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SPLIT_PAYERS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "NATIVE_UNIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelRequest"
+  ): TypedContractMethod<[_requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelSeries"
+  ): TypedContractMethod<[_seriesId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "createEqualSplit"
+  ): TypedContractMethod<
+    [
+      _payers: AddressLike[],
+      _token: AddressLike,
+      _dueDate: BigNumberish,
+      _expiresAt: BigNumberish,
+      _encryptedTotal: BytesLike,
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createInvoice"
+  ): TypedContractMethod<
+    [
+      _payer: AddressLike,
+      _token: AddressLike,
+      _dueDate: BigNumberish,
+      _expiresAt: BigNumberish,
+      _lineDetails: BytesLike[],
+      _encryptedQuantities: BytesLike[],
+      _encryptedUnitPrices: BytesLike[],
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createRequest"
+  ): TypedContractMethod<
+    [
+      _payer: AddressLike,
+      _token: AddressLike,
+      _dueDate: BigNumberish,
+      _expiresAt: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createSeries"
+  ): TypedContractMethod<
+    [
+      _payer: AddressLike,
+      _token: AddressLike,
+      _startAt: BigNumberish,
+      _interval: BigNumberish,
+      _endAt: BigNumberish,
+      _maxOccurrences: BigNumberish,
+      _dueAfter: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createSplit"
+  ): TypedContractMethod<
+    [
+      _payers: AddressLike[],
+      _token: AddressLike,
+      _dueDate: BigNumberish,
+      _expiresAt: BigNumberish,
+      _encryptedShares: BytesLike[],
+      _encryptedNoteKey: BytesLike,
+      _note: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "expireRequest"
+  ): TypedContractMethod<[_requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getLineItems"
+  ): TypedContractMethod<
+    [_requestId: BigNumberish],
+    [PaymentRequestLedger.LineItemStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRequest"
+  ): TypedContractMethod<
+    [_requestId: BigNumberish],
+    [PaymentRequestLedger.PaymentRequestStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSeries"
+  ): TypedContractMethod<
+    [_seriesId: BigNumberish],
+    [PaymentRequestLedger.SeriesStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSplit"
+  ): TypedContractMethod<
+    [_splitId: BigNumberish],
+    [PaymentRequestLedger.SplitStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTotals"
+  ): TypedContractMethod<
+    [_requester: AddressLike, _token: AddressLike],
+    [PaymentRequestLedger.TotalsStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "issueDueOccurrences"
+  ): TypedContractMethod<[_seriesId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "pauseSeries"
+  ): TypedContractMethod<[_seriesId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "payRequest"
+  ): TypedContractMethod<[_requestId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "payRequestAmount"
+  ): TypedContractMethod<
+    [
+      _requestId: BigNumberish,
+      _encryptedAmount: BytesLike,
+      _inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rejectRequest"
+  ): TypedContractMethod<[_requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "resumeSeries"
+  ): TypedContractMethod<[_seriesId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "seriesCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "settlementCallback"
+  ): TypedContractMethod<
+    [decryptionId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settlementContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, boolean] & {
+        requestId: bigint;
+        escrow: bigint;
+        previousStatus: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "splitCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawable"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OccurrenceIssued"
+  ): TypedContractEvent<
+    OccurrenceIssuedEvent.InputTuple,
+    OccurrenceIssuedEvent.OutputTuple,
+    OccurrenceIssuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentFailed"
+  ): TypedContractEvent<
+    PaymentFailedEvent.InputTuple,
+    PaymentFailedEvent.OutputTuple,
+    PaymentFailedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentRequestCancelled"
+  ): TypedContractEvent<
+    PaymentRequestCancelledEvent.InputTuple,
+    PaymentRequestCancelledEvent.OutputTuple,
+    PaymentRequestCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentRequestCreated"
+  ): TypedContractEvent<
+    PaymentRequestCreatedEvent.InputTuple,
+    PaymentRequestCreatedEvent.OutputTuple,
+    PaymentRequestCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentRequestExpired"
+  ): TypedContractEvent<
+    PaymentRequestExpiredEvent.InputTuple,
+    PaymentRequestExpiredEvent.OutputTuple,
+    PaymentRequestExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentRequestPaid"
+  ): TypedContractEvent<
+    PaymentRequestPaidEvent.InputTuple,
+    PaymentRequestPaidEvent.OutputTuple,
+    PaymentRequestPaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentRequestPartiallyPaid"
+  ): TypedContractEvent<
+    PaymentRequestPartiallyPaidEvent.InputTuple,
+    PaymentRequestPartiallyPaidEvent.OutputTuple,
+    PaymentRequestPartiallyPaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentRequestRejected"
+  ): TypedContractEvent<
+    PaymentRequestRejectedEvent.InputTuple,
+    PaymentRequestRejectedEvent.OutputTuple,
+    PaymentRequestRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentSubmitted"
+  ): TypedContractEvent<
+    PaymentSubmittedEvent.InputTuple,
+    PaymentSubmittedEvent.OutputTuple,
+    PaymentSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SeriesCancelled"
+  ): TypedContractEvent<
+    SeriesCancelledEvent.InputTuple,
+    SeriesCancelledEvent.OutputTuple,
+    SeriesCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "SeriesCreated"
+  ): TypedContractEvent<
+    SeriesCreatedEvent.InputTuple,
+    SeriesCreatedEvent.OutputTuple,
+    SeriesCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SeriesPaused"
+  ): TypedContractEvent<
+    SeriesPausedEvent.InputTuple,
+    SeriesPausedEvent.OutputTuple,
+    SeriesPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SeriesResumed"
+  ): TypedContractEvent<
+    SeriesResumedEvent.InputTuple,
+    SeriesResumedEvent.OutputTuple,
+    SeriesResumedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SplitCreated"
+  ): TypedContractEvent<
+    SplitCreatedEvent.InputTuple,
+    SplitCreatedEvent.OutputTuple,
+    SplitCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SplitPaid"
+  ): TypedContractEvent<
+    SplitPaidEvent.InputTuple,
+    SplitPaidEvent.OutputTuple,
+    SplitPaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawal"
+  ): TypedContractEvent<
+    WithdrawalEvent.InputTuple,
+    WithdrawalEvent.OutputTuple,
+    WithdrawalEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "OccurrenceIssued(uint256,uint256,uint32)": TypedContractEvent<
+      OccurrenceIssuedEvent.InputTuple,
+      OccurrenceIssuedEvent.OutputTuple,
+      OccurrenceIssuedEvent.OutputObject
+    >;
+    OccurrenceIssued: TypedContractEvent<
+      OccurrenceIssuedEvent.InputTuple,
+      OccurrenceIssuedEvent.OutputTuple,
+      OccurrenceIssuedEvent.OutputObject
+    >;
+
+    "PaymentFailed(uint256,address)": TypedContractEvent<
+      PaymentFailedEvent.InputTuple,
+      PaymentFailedEvent.OutputTuple,
+      PaymentFailedEvent.OutputObject
+    >;
+    PaymentFailed: TypedContractEvent<
+      PaymentFailedEvent.InputTuple,
+      PaymentFailedEvent.OutputTuple,
+      PaymentFailedEvent.OutputObject
+    >;
+
+    "PaymentRequestCancelled(uint256,address)": TypedContractEvent<
+      PaymentRequestCancelledEvent.InputTuple,
+      PaymentRequestCancelledEvent.OutputTuple,
+      PaymentRequestCancelledEvent.OutputObject
+    >;
+    PaymentRequestCancelled: TypedContractEvent<
+      PaymentRequestCancelledEvent.InputTuple,
+      PaymentRequestCancelledEvent.OutputTuple,
+      PaymentRequestCancelledEvent.OutputObject
+    >;
+
+    "PaymentRequestCreated(uint256,address,address)": TypedContractEvent<
+      PaymentRequestCreatedEvent.InputTuple,
+      PaymentRequestCreatedEvent.OutputTuple,
+      PaymentRequestCreatedEvent.OutputObject
+    >;
+    PaymentRequestCreated: TypedContractEvent<
+      PaymentRequestCreatedEvent.InputTuple,
+      PaymentRequestCreatedEvent.OutputTuple,
+      PaymentRequestCreatedEvent.OutputObject
+    >;
+
+    "PaymentRequestExpired(uint256)": TypedContractEvent<
+      PaymentRequestExpiredEvent.InputTuple,
+      PaymentRequestExpiredEvent.OutputTuple,
+      PaymentRequestExpiredEvent.OutputObject
+    >;
+    PaymentRequestExpired: TypedContractEvent<
+      PaymentRequestExpiredEvent.InputTuple,
+      PaymentRequestExpiredEvent.OutputTuple,
+      PaymentRequestExpiredEvent.OutputObject
+    >;
+
+    "PaymentRequestPaid(uint256,address)": TypedContractEvent<
+      PaymentRequestPaidEvent.InputTuple,
+      PaymentRequestPaidEvent.OutputTuple,
+      PaymentRequestPaidEvent.OutputObject
+    >;
+    PaymentRequestPaid: TypedContractEvent<
+      PaymentRequestPaidEvent.InputTuple,
+      PaymentRequestPaidEvent.OutputTuple,
+      PaymentRequestPaidEvent.OutputObject
+    >;
+
+    "PaymentRequestPartiallyPaid(uint256,address)": TypedContractEvent<
+      PaymentRequestPartiallyPaidEvent.InputTuple,
+      PaymentRequestPartiallyPaidEvent.OutputTuple,
+      PaymentRequestPartiallyPaidEvent.OutputObject
+    >;
+    PaymentRequestPartiallyPaid: TypedContractEvent<
+      PaymentRequestPartiallyPaidEvent.InputTuple,
+      PaymentRequestPartiallyPaidEvent.OutputTuple,
+      PaymentRequestPartiallyPaidEvent.OutputObject
+    >;
+
+    "PaymentRequestRejected(uint256,address)": TypedContractEvent<
+      PaymentRequestRejectedEvent.InputTuple,
+      PaymentRequestRejectedEvent.OutputTuple,
+      PaymentRequestRejectedEvent.OutputObject
+    >;
+    PaymentRequestRejected: TypedContractEvent<
+      PaymentRequestRejectedEvent.InputTuple,
+      PaymentRequestRejectedEvent.OutputTuple,
+      PaymentRequestRejectedEvent.OutputObject
+    >;
+
+    "PaymentSubmitted(uint256,address,uint256)": TypedContractEvent<
+      PaymentSubmittedEvent.InputTuple,
+      PaymentSubmittedEvent.OutputTuple,
+      PaymentSubmittedEvent.OutputObject
+    >;
+    PaymentSubmitted: TypedContractEvent<
+      PaymentSubmittedEvent.InputTuple,
+      PaymentSubmittedEvent.OutputTuple,
+      PaymentSubmittedEvent.OutputObject
+    >;
+
+    "SeriesCancelled(uint256)": TypedContractEvent<
+      SeriesCancelledEvent.InputTuple,
+      SeriesCancelledEvent.OutputTuple,
+      SeriesCancelledEvent.OutputObject
+    >;
+    SeriesCancelled: TypedContractEvent<
+      SeriesCancelledEvent.InputTuple,
+      SeriesCancelledEvent.OutputTuple,
+      SeriesCancelledEvent.OutputObject
+    >;
+
+    "SeriesCreated(uint256,address,address)": TypedContractEvent<
+      SeriesCreatedEvent.InputTuple,
+      SeriesCreatedEvent.OutputTuple,
+      SeriesCreatedEvent.OutputObject
+    >;
+    SeriesCreated: TypedContractEvent<
+      SeriesCreatedEvent.InputTuple,
+      SeriesCreatedEvent.OutputTuple,
+      SeriesCreatedEvent.OutputObject
+    >;
+
+    "SeriesPaused(uint256)": TypedContractEvent<
+      SeriesPausedEvent.InputTuple,
+      SeriesPausedEvent.OutputTuple,
+      SeriesPausedEvent.OutputObject
+    >;
+    SeriesPaused: TypedContractEvent<
+      SeriesPausedEvent.InputTuple,
+      SeriesPausedEvent.OutputTuple,
+      SeriesPausedEvent.OutputObject
+    >;
+
+    "SeriesResumed(uint256,uint32)": TypedContractEvent<
+      SeriesResumedEvent.InputTuple,
+      SeriesResumedEvent.OutputTuple,
+      SeriesResumedEvent.OutputObject
+    >;
+    SeriesResumed: TypedContractEvent<
+      SeriesResumedEvent.InputTuple,
+      SeriesResumedEvent.OutputTuple,
+      SeriesResumedEvent.OutputObject
+    >;
+
+    "SplitCreated(uint256,address,uint256)": TypedContractEvent<
+      SplitCreatedEvent.InputTuple,
+      SplitCreatedEvent.OutputTuple,
+      SplitCreatedEvent.OutputObject
+    >;
+    SplitCreated: TypedContractEvent<
+      SplitCreatedEvent.InputTuple,
+      SplitCreatedEvent.OutputTuple,
+      SplitCreatedEvent.OutputObject
+    >;
+
+    "SplitPaid(uint256)": TypedContractEvent<
+      SplitPaidEvent.InputTuple,
+      SplitPaidEvent.OutputTuple,
+      SplitPaidEvent.OutputObject
+    >;
+    SplitPaid: TypedContractEvent<
+      SplitPaidEvent.InputTuple,
+      SplitPaidEvent.OutputTuple,
+      SplitPaidEvent.OutputObject
+    >;
+
+    "Withdrawal(address,uint256)": TypedContractEvent<
+      WithdrawalEvent.InputTuple,
+      WithdrawalEvent.OutputTuple,
+      WithdrawalEvent.OutputObject
+    >;
+    Withdrawal: TypedContractEvent<
+      WithdrawalEvent.InputTuple,
+      WithdrawalEvent.OutputTuple,
+      WithdrawalEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,784 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface PaymentRequestFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "addProvider"
+      | "batchOpen"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "encryptedNotes"
+      | "hasSubmitted"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "paused"
+      | "protocolId"
+      | "providers"
+      | "removeProvider"
+      | "requestNoteDecryption"
+      | "setCooldown"
+      | "setPaused"
+      | "submitPaymentRequest"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "ContractPaused"
+      | "ContractUnpaused"
+      | "CooldownSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "PaymentRequestSubmitted"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "batchOpen", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedNotes",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasSubmitted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestNoteDecryption",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldown",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "submitPaymentRequest",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchOpen", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedNotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasSubmitted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "providers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestNoteDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPaymentRequest",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractPausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractUnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSetEvent {
+  export type InputTuple = [cooldownSeconds: BigNumberish];
+  export type OutputTuple = [cooldownSeconds: bigint];
+  export interface OutputObject {
+    cooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    note: BigNumberish
+  ];
+  export type OutputTuple = [requestId: bigint, batchId: bigint, note: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    note: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentRequestSubmittedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    sender: AddressLike,
+    encryptedNote: BytesLike
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    sender: string,
+    encryptedNote: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    sender: string;
+    encryptedNote: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PaymentRequestFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): PaymentRequestFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: PaymentRequestFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  addProvider: TypedContractMethod<
+    [_provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchOpen: TypedContractMethod<[], [boolean], "view">;
+
+  closeBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, boolean] & {
+        batchId: bigint;
+        provider: string;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  encryptedNotes: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  hasSubmitted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  providers: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  removeProvider: TypedContractMethod<
+    [_provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestNoteDecryption: TypedContractMethod<
+    [_batchId: BigNumberish, _provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldown: TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  submitPaymentRequest: TypedContractMethod<
+    [_batchId: BigNumberish, _encryptedNote: BytesLike, _inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[_provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchOpen"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, boolean] & {
+        batchId: bigint;
+        provider: string;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedNotes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasSubmitted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[_provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestNoteDecryption"
+  ): TypedContractMethod<
+    [_batchId: BigNumberish, _provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldown"
+  ): TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitPaymentRequest"
+  ): TypedContractMethod<
+    [_batchId: BigNumberish, _encryptedNote: BytesLike, _inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractPaused"
+  ): TypedContractEvent<
+    ContractPausedEvent.InputTuple,
+    ContractPausedEvent.OutputTuple,
+    ContractPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractUnpaused"
+  ): TypedContractEvent<
+    ContractUnpausedEvent.InputTuple,
+    ContractUnpausedEvent.OutputTuple,
+    ContractUnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSet"
+  ): TypedContractEvent<
+    CooldownSetEvent.InputTuple,
+    CooldownSetEvent.OutputTuple,
+    CooldownSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentRequestSubmitted"
+  ): TypedContractEvent<
+    PaymentRequestSubmittedEvent.InputTuple,
+    PaymentRequestSubmittedEvent.OutputTuple,
+    PaymentRequestSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "ContractPaused(address)": TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+    ContractPaused: TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+
+    "ContractUnpaused(address)": TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+    ContractUnpaused: TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+
+    "CooldownSet(uint256)": TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+    CooldownSet: TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "PaymentRequestSubmitted(uint256,address,bytes32)": TypedContractEvent<
+      PaymentRequestSubmittedEvent.InputTuple,
+      PaymentRequestSubmittedEvent.OutputTuple,
+      PaymentRequestSubmittedEvent.OutputObject
+    >;
+    PaymentRequestSubmitted: TypedContractEvent<
+      PaymentRequestSubmittedEvent.InputTuple,
+      PaymentRequestSubmittedEvent.OutputTuple,
+      PaymentRequestSubmittedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,10 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as paymentRequestFheSol from "./Payment_Request_Fhe.sol";
+export type { paymentRequestFheSol };
+export type { ConfidentialToken } from "./ConfidentialToken";
+export type { IConfidentialToken } from "./IConfidentialToken";
+export type { Multicall3 } from "./Multicall3";
+export type { PaymentRequestLedger } from "./PaymentRequestLedger";
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,398 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ConfidentialToken,
+  ConfidentialTokenInterface,
+} from "../../contracts/ConfidentialToken";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_symbol",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOperator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SupplyOverflow",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnauthorizedHandle",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    name: "ConfidentialTransfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "Minted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "OperatorSet",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "_amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isOperator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "_amount",
+        type: "uint64",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "_approved",
+        type: "bool",
+      },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x604060808152346200044c57620012d790813803806200001f8162000470565b93843982019181818403126200044c5780516001600160401b03908181116200044c57846200005091840162000496565b91602094858201518381116200044c576200006c920162000496565b935f60606200007a62000450565b8281528284820152828782015201526200009362000450565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595808583015273a02cda4ca3a71d7c46997716f4283aa851c28812918289820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703918254161790558251908282116200036a575f54916001948584811c9416801562000441575b838510146200034b578190601f94858111620003ee575b5083908583116001146200038a575f926200037e575b50505f19600383901b1c191690851b175f555b85519283116200036a5783548481811c911680156200035f575b828210146200034b5782811162000303575b50809183116001146200029e5750819293945f9262000292575b50505f19600383901b1c191690821b1790555b60028054600160401b600160e01b03191633831b600160401b600160e01b031617905551610dd09081620005078239f35b015190505f806200024e565b90601f19831695845f52825f20925f905b888210620002eb5750508385969710620002d2575b505050811b01905562000261565b01515f1960f88460031b161c191690555f8080620002c4565b808785968294968601518155019501930190620002af565b845f52815f208380860160051c82019284871062000341575b0160051c019085905b8281106200033557505062000234565b5f815501859062000325565b925081926200031c565b634e487b7160e01b5f52602260045260245ffd5b90607f169062000222565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620001f5565b90879350601f198316915f8052855f20925f5b87828210620003d75750508411620003be575b505050811b015f5562000208565b01515f1960f88460031b161c191690555f8080620003b0565b8385015186558b979095019493840193016200039d565b9091505f8052835f208580850160051c82019286861062000437575b918991869594930160051c01915b82811062000428575050620001df565b5f815585945089910162000418565b925081926200040a565b93607f1693620001c8565b5f80fd5b60405190608082016001600160401b038111838210176200036a57604052565b6040519190601f01601f191682016001600160401b038111838210176200036a57604052565b919080601f840112156200044c5782516001600160401b0381116200036a57602090620004cc601f8201601f1916830162000470565b928184528282870101116200044c575f5b818110620004f25750825f9394955001015290565b8581018301518482018401528201620004dd56fe6080604081815260049182361015610015575f80fd5b5f3560e01c90816306fdde03146107d65750806318160ddd146107ae5780632893c5b0146105df5780632fb74e6214610436578063313ce5671461041b578063344ff101146103e4578063558a7297146103665780638da5cb5b1461033e57806395d89b411461022b578063b6363cf2146101df578063da1f12ab146101c35763eb3155b5146100a3575f80fd5b3461019f57606036600319011261019f576100bc610923565b6100c4610939565b6044359160018060a01b03948582165f52602095818752855f20335f52875260ff865f205416156101b4577f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005486516382027b6d60e01b8152838101878152336020820152909289928492839003604001918391165afa9081156101aa575f91610170575b501561016257509061015b929161094f565b9051908152f35b845163e7c1eabd60e01b8152fd5b90508681813d83116101a3575b61018781836108c3565b8101031261019f5751801515810361019f575f610149565b5f80fd5b503d61017d565b86513d5f823e3d90fd5b508451631f0853c160e21b8152fd5b503461019f575f36600319011261019f57602090516127118152f35b503461019f578060031936011261019f576020916101fb610923565b610203610939565b9160018060a01b038092165f528452825f2091165f52825260ff815f20541690519015158152f35b503461019f575f36600319011261019f578051905f90600191600154928360011c9060018516948515610334575b6020958684108114610321578388528794939291879082156102ff5750506001146102a4575b50506102a092916102919103856108c3565b519282849384528301906108e5565b0390f35b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b8284106102e7575050508201018161029161027f565b8054848a0186015288955087949093019281016102d1565b60ff19168682015292151560051b85019092019250839150610291905061027f565b602289634e487b7160e01b5f525260245ffd5b91607f1691610259565b503461019f575f36600319011261019f576002548151911c6001600160a01b03168152602090f35b50903461019f578160031936011261019f57610380610923565b916024359182151580930361019f57335f52602052805f209260018060a01b031692835f52602052805f2060ff1981541660ff8416179055519081527fceb576d9f15e4e200fdb5096d64d5dfd667e16def20c1eefd14256d8e3faa26760203392a3005b503461019f57602036600319011261019f576020906001600160a01b03610409610923565b165f5260038252805f20549051908152f35b503461019f575f36600319011261019f576020905160098152f35b503461019f57606036600319011261019f57610450610923565b9060443567ffffffffffffffff9283821161019f573660238301121561019f578185013593841161019f57366024858401011161019f575f9182602086819760248851956104a785601f19601f86011601886108c3565b8287520183860137830101525f80516020610da483398151915254845163196d0b9b60e01b81526024803589830152339082015260806044820152936001600160a01b0392879286929085169183919082906105079060848301906108e5565b6005606483015203925af19283156105d5575f936105a6575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561019f578351630f8e573b60e21b81529586018381523360208201525f91879182908490829060400103925af194851561059c5761015b93949561058d575b503361094f565b6105969061089b565b5f610586565b83513d5f823e3d90fd5b9092508481813d83116105ce575b6105be81836108c3565b8101031261019f5751915f610520565b503d6105b4565b84513d5f823e3d90fd5b50903461019f578160031936011261019f576105f9610923565b9060243567ffffffffffffffff9384821680920361019f576002546001600160a01b03939080831c8516330361079f5784861696871561078f5780821685810180911161077c5781811161076c57169067ffffffffffffffff191617600255855f526020809460038252835f2054908115610758575b6064905f80516020610da48339815191525416935f8651958694859363022f65e760e31b8552840152886024840152600160f81b60448401525af190811561074e575f91610701575b507f16fdde78855c6225e73485aa9775219553a030585a2c20ea11b9ae17518338e6946106fa91875f526003865280845f20556106f53082610c9a565b610c9a565b51908152a2005b90508381813d8311610747575b61071881836108c3565b8101031261019f57517f16fdde78855c6225e73485aa9775219553a030585a2c20ea11b9ae17518338e66106b8565b503d61070e565b82513d5f823e3d90fd5b90506064610764610d21565b91905061066f565b8451637ebdee1b60e01b81528490fd5b601184634e487b7160e01b5f525260245ffd5b8351631e4ec46b60e01b81528390fd5b5090516330cd747160e01b8152fd5b503461019f575f36600319011261019f5760209067ffffffffffffffff600254169051908152f35b9190503461019f575f36600319011261019f575f905f549160018360011c9060018516948515610891575b6020958684108114610321578388528794939291879082156102ff5750506001146108385750506102a092916102919103856108c3565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b828410610879575050508201018161029161027f565b8054848a018601528895508794909301928101610863565b91607f1691610801565b67ffffffffffffffff81116108af57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176108af57604052565b91908251928382525f5b84811061090f575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016108ef565b600435906001600160a01b038216820361019f57565b602435906001600160a01b038216820361019f57565b6001600160a01b039392828516929091908315610c885785821692835f526020916003835287604092835f20548582918315610c78575b8015610c6a575b60645f80516020610da48339815191529d8e5416935f89519586948593631d44e90160e21b8552600485015260248401528160448401525af1908115610c60579186918c969594935f91610c2b575b506064905f856109ea610d21565b9954168851998a958694637702dcff60e01b86526004860152602485015260448401525af193841561059c575f94610bfc575b508399875f5260038652835f205490858215610bec575b8787159182610bde575b606486855416955f8a5197889485936303056db360e31b8552600485015260248401528160448401525af19283156101aa57908892915f94610bad575b508b5f5260038352865f20549488918615610b9d575b610b8a575b606491925416945f8851968794859363022f65e760e31b8552600485015260248401528160448401525af19182156105d557888a915f94610b55575b5084610b449594610b248b610b3e967f67500e8d0ed826d2194f514dd0d8124f35648ab6e3fb5e6ed867134cffe661e99d9660038e610b2e985f5252818c5f20555f52838b5f20556106f53082610c9a565b6106f53082610c9a565b610b383087610c9a565b85610c9a565b83610c9a565b610b4e3383610c9a565b51908152a3565b94935050508583813d8311610b83575b610b6f81836108c3565b8101031261019f5791519091888884610ad2565b503d610b65565b60649150610b96610d21565b9150610a96565b9550610ba7610d21565b95610a91565b8381949295503d8311610bd7575b610bc581836108c3565b8101031261019f57879151925f610a7b565b503d610bbb565b50610be7610d21565b610a3e565b9150610bf6610d21565b91610a34565b9093508481813d8311610c24575b610c1481836108c3565b8101031261019f5751925f610a1d565b503d610c0a565b92809297508391503d8311610c59575b610c4581836108c3565b8101031261019f57518a94869160646109dc565b503d610c3b565b85513d5f823e3d90fd5b50610c73610d21565b61098d565b9150610c82610d21565b91610986565b604051631e4ec46b60e01b8152600490fd5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561019f57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610d1657610d0b5750565b610d149061089b565b565b6040513d5f823e3d90fd5b5f80516020610da483398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610d16575f91610d74575090565b90506020813d602011610d9b575b81610d8f602093836108c3565b8101031261019f575190565b3d9150610d8256fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type ConfidentialTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConfidentialTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConfidentialToken__factory extends ContractFactory {
+  constructor(...args: ConfidentialTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _name: string,
+    _symbol: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_name, _symbol, overrides || {});
+  }
+  override deploy(
+    _name: string,
+    _symbol: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_name, _symbol, overrides || {}) as Promise<
+      ConfidentialToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ConfidentialToken__factory {
+    return super.connect(runner) as ConfidentialToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConfidentialTokenInterface {
+    return new Interface(_abi) as ConfidentialTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConfidentialToken {
+    return new Contract(address, _abi, runner) as unknown as ConfidentialToken;
+  }
+}
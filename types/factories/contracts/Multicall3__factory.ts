@@ -0,0 +1,112 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  Multicall3,
+  Multicall3Interface,
+} from "../../contracts/Multicall3";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "allowFailure",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "callData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Call3[]",
+        name: "calls",
+        type: "tuple[]",
+      },
+    ],
+    name: "aggregate3",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "success",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "returnData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Result[]",
+        name: "returnData",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001657610394908161001b8239f35b5f80fdfe6040608081526004906004361015610015575f80fd5b5f3560e01c6382ad56cb14610028575f80fd5b60208060031936011261029e5767ffffffffffffffff9060043582811161029e573660238201121561029e5780600401359280841161029e5760249036828660051b8501011161029e57610088610083869495979896610347565b610321565b9483865261009584610347565b601f19959086015f5b8181106102be5750503681900360821901905f5b86811061015c578a8a8a8a83519280840191818552835180935285850182878560051b8801019501965f925b8584106100eb5787870388f35b909192939495603f1988820301845285808a51805115158452015191848282015282519283868301525f5b848110610147575050600192829185601f6060935f858286010152011601019a0194019401929795949391906100de565b81810184015183820160600152899301610116565b858160059c9b999a9c1b830101358381121561029e578201868101356001600160a01b038116810361029e57606490818301356042198436030181121561029e57830190898201359089821161029e57604480930190823603821361029e578f515f9384938491839181908337810182815203925af13d156102b4573d8981116102a25790816101f78f8f96959490601f8892011601610321565b9081525f81953d92013e5b818115958661028a575b50501561024b57505090610234838e600195946102276102ed565b941585528d85015261035f565b5261023f818d61035f565b500199979698996100b2565b7f4d756c746963616c6c333a2063616c6c206661696c656400000000000000000088918f8c8f601792519562461bcd60e51b8752860152840152820152fd5b01359050801515810361029e57815f61020c565b5f80fd5b8a60418a634e487b7160e01b5f52525ffd5b9190606092610202565b98898982809a9b9d9c6102d29a969a6102ed565b925f845260608385015201015201999796989995919561009e565b604051906040820182811067ffffffffffffffff82111761030d57604052565b634e487b7160e01b5f52604160045260245ffd5b6040519190601f01601f1916820167ffffffffffffffff81118382101761030d57604052565b67ffffffffffffffff811161030d5760051b60200190565b80518210156103735760209160051b010190565b634e487b7160e01b5f52603260045260245ffdfea164736f6c6343000818000a";
+
+type Multicall3ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: Multicall3ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class Multicall3__factory extends ContractFactory {
+  constructor(...args: Multicall3ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      Multicall3 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): Multicall3__factory {
+    return super.connect(runner) as Multicall3__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): Multicall3Interface {
+    return new Interface(_abi) as Multicall3Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): Multicall3 {
+    return new Contract(address, _abi, runner) as unknown as Multicall3;
+  }
+}
@@ -0,0 +1,1446 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  PaymentRequestLedger,
+  PaymentRequestLedgerInterface,
+} from "../../contracts/PaymentRequestLedger";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "BacklogNotIssued",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDueDate",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidExpiry",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidLineItems",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPayer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidPaymentValue",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSchedule",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShares",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPayer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotRequester",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingDue",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToWithdraw",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RequestExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RequestNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SeriesInactive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SeriesNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SplitNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "index",
+        type: "uint32",
+      },
+    ],
+    name: "OccurrenceIssued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "payer",
+        type: "address",
+      },
+    ],
+    name: "PaymentFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "PaymentRequestCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "payer",
+        type: "address",
+      },
+    ],
+    name: "PaymentRequestCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "PaymentRequestExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "payer",
+        type: "address",
+      },
+    ],
+    name: "PaymentRequestPaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "payer",
+        type: "address",
+      },
+    ],
+    name: "PaymentRequestPartiallyPaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "payer",
+        type: "address",
+      },
+    ],
+    name: "PaymentRequestRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "payer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "decryptionId",
+        type: "uint256",
+      },
+    ],
+    name: "PaymentSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+    ],
+    name: "SeriesCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "payer",
+        type: "address",
+      },
+    ],
+    name: "SeriesCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+    ],
+    name: "SeriesPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "skipped",
+        type: "uint32",
+      },
+    ],
+    name: "SeriesResumed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "splitId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shareCount",
+        type: "uint256",
+      },
+    ],
+    name: "SplitCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "splitId",
+        type: "uint256",
+      },
+    ],
+    name: "SplitPaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawal",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_ISSUE_PER_CALL",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_LINE_ITEMS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SPLIT_PAYERS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "NATIVE_UNIT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_seriesId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelSeries",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "_payers",
+        type: "address[]",
+      },
+      {
+        internalType: "address",
+        name: "_token",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "_dueDate",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "_expiresAt",
+        type: "uint64",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedTotal",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint256",
+        name: "_encryptedNoteKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_note",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createEqualSplit",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "splitId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_payer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_token",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "_dueDate",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "_expiresAt",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes[]",
+        name: "_lineDetails",
+        type: "bytes[]",
+      },
+      {
+        internalType: "externalEuint64[]",
+        name: "_encryptedQuantities",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint64[]",
+        name: "_encryptedUnitPrices",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint256",
+        name: "_encryptedNoteKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_note",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createInvoice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_payer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_token",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "_dueDate",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "_expiresAt",
+        type: "uint64",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint256",
+        name: "_encryptedNoteKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_note",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createRequest",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_payer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_token",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "_startAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "_interval",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "_endAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "_maxOccurrences",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "_dueAfter",
+        type: "uint64",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint256",
+        name: "_encryptedNoteKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_note",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createSeries",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "seriesId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "_payers",
+        type: "address[]",
+      },
+      {
+        internalType: "address",
+        name: "_token",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "_dueDate",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "_expiresAt",
+        type: "uint64",
+      },
+      {
+        internalType: "externalEuint64[]",
+        name: "_encryptedShares",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint256",
+        name: "_encryptedNoteKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_note",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createSplit",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "splitId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+    ],
+    name: "expireRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+    ],
+    name: "getLineItems",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes",
+            name: "details",
+            type: "bytes",
+          },
+          {
+            internalType: "euint64",
+            name: "quantity",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "unitPrice",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct PaymentRequestLedger.LineItem[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+    ],
+    name: "getRequest",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "requester",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "payer",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "enum PaymentRequestLedger.Status",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint64",
+            name: "createdAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "updatedAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "dueDate",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "expiresAt",
+            type: "uint64",
+          },
+          {
+            internalType: "euint64",
+            name: "amount",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "paid",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint256",
+            name: "noteKey",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes",
+            name: "note",
+            type: "bytes",
+          },
+          {
+            internalType: "uint256",
+            name: "seriesId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "splitId",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PaymentRequestLedger.PaymentRequest",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_seriesId",
+        type: "uint256",
+      },
+    ],
+    name: "getSeries",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "requester",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "payer",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "startAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "interval",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "endAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint32",
+            name: "maxOccurrences",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "nextIndex",
+            type: "uint32",
+          },
+          {
+            internalType: "uint64",
+            name: "dueAfter",
+            type: "uint64",
+          },
+          {
+            internalType: "bool",
+            name: "paused",
+            type: "bool",
+          },
+          {
+            internalType: "uint64",
+            name: "pausedAt",
+            type: "uint64",
+          },
+          {
+            internalType: "bool",
+            name: "cancelled",
+            type: "bool",
+          },
+          {
+            internalType: "euint64",
+            name: "amount",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint256",
+            name: "noteKey",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes",
+            name: "note",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct PaymentRequestLedger.Series",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_splitId",
+        type: "uint256",
+      },
+    ],
+    name: "getSplit",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "requester",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "uint256[]",
+            name: "requestIds",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint32",
+            name: "settledShares",
+            type: "uint32",
+          },
+          {
+            internalType: "euint32",
+            name: "paidShares",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct PaymentRequestLedger.Split",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_requester",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_token",
+        type: "address",
+      },
+    ],
+    name: "getTotals",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint64",
+            name: "requested",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "paid",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "outstanding",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct PaymentRequestLedger.Totals",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_seriesId",
+        type: "uint256",
+      },
+    ],
+    name: "issueDueOccurrences",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "issued",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_seriesId",
+        type: "uint256",
+      },
+    ],
+    name: "pauseSeries",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+    ],
+    name: "payRequest",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "_encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "payRequestAmount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_requestId",
+        type: "uint256",
+      },
+    ],
+    name: "rejectRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_seriesId",
+        type: "uint256",
+      },
+    ],
+    name: "resumeSeries",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "seriesCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "decryptionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "settlementCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "settlementContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "escrow",
+        type: "uint256",
+      },
+      {
+        internalType: "enum PaymentRequestLedger.Status",
+        name: "previousStatus",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "splitCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "withdrawable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346200015a575f6060620000176200015e565b8281528260208201528260408201520152620000326200015e565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703918254161790556040516146179081620001938239f35b5f80fd5b60405190608082016001600160401b038111838210176200017e57604052565b634e487b7160e01b5f52604160045260245ffdfe60e0806040526004361015610012575f80fd5b5f3560e01c908163012bad8b146123ab5750806301c5c0f814611ff25780631160da1514611d4f5780631955d49114611cab5780632682505614611c8e578063275fe80214611bf35780632d7788db14611b1d5780632d886b9614611ac85780633015394c146119ee578063386be999146118165780633ccfd60b1461177d57806347829ac614611656578063514a6810146114eb5780635badbe4c146114cf57806363d4dd3b146112695780637802afcf14610fee5780637e67ef1214610ee2578063819176d014610e305780638889506614610dd85780639820de4614610d075780639fedd971146107b9578063b423129714610340578063be72fd83146105c8578063c58343ef14610360578063c67b54b114610345578063c7f3dda514610340578063ce513b6f14610308578063d7f2c0ef146102eb578063da1f12ab146102cf578063f1478b75146101935763f22452b514610171575f80fd5b3461018f575f36600319011261018f576020604051633b9aca008152f35b5f80fd5b3461018f5761010036600319011261018f576001600160401b0360043581811161018f576101c5903690600401612883565b906101ce6126bd565b906101d76126d3565b906101e06126e9565b9460843581811161018f576101f9903690600401612883565b92909160c43581811161018f576102149036906004016126ff565b92909160e43590811161018f5761022f9036906004016126ff565b9990968987036102bd576102428a612ea2565b985f5b8a5181101561028957808b6102828f9361027c6001958f8f908f856102769361026d92612f36565b3592369161282f565b90614221565b92612ee1565b5201610245565b506102b597508993949596508a6102af6102a760209b8f369161282f565b60a43561431f565b9561400d565b604051908152f35b604051636edcc52360e01b8152600490fd5b3461018f575f36600319011261018f5760206040516127118152f35b3461018f575f36600319011261018f576020600254604051908152f35b3461018f57602036600319011261018f576001600160a01b036103296126a7565b165f526008602052602060405f2054604051908152f35b6128c0565b3461018f575f36600319011261018f576020604051600c8152f35b3461018f57602036600319011261018f576004355f6101a0604051610384816127c4565b8281528260208201528260408201528260608201528260808201528260a08201528260c08201528260e08201528261010082015282610120820152826101408201526060610160820152826101808201520152801580156105be575b6105ac575f52600160205260405f206009604051916103fe836127c4565b80546001600160a01b039081168452600182015481166020850152600282015490811660408501526001600160401b039061044360a082901c60ff1660608701612f46565b60a81c1660808401526001600160401b03600382015481811660a0860152818160401c1660c086015260801c1660e08401526004810154610100840152600581015461012084015260068101546101408401526104a260078201612998565b610160840152600881015461018084015201546101a082015260408051602080825283516001600160a01b03908116828401529084015181168284015291830151909116606080830191909152820151909182916105049060808401906128b3565b6001600160401b0360808201511660a08301526001600160401b0360a08201511660c08301526001600160401b0360c08201511660e08301526001600160401b0360e0820151166101008301526101008101516101208301526101208101516101408301526101408101516101608301526101608101516101a06105976101c092836101808701526101e086019061274d565b92610180810151828601520151908301520390f35b604051632589d98f60e11b8152600490fd5b505f5481116103e0565b3461018f57606036600319011261018f576004356044356001600160401b03811161018f576105fb9036906004016126ff565b91801580156107af575b6105ac5761061281613705565b600281015490926001600160a01b039182161561079d57610639610641915f96369161282f565b602435614221565b906106556004850154600586015490613775565b918091811561078d575b831561077d575b5f805160206145cb83398151915293818554169060405194631d44e90160e21b8652600486015260248501528760448501528360648160209a8b945af19081156107425787935f9261074d575b50905f6064926106c16144d1565b9654166040519687958694637702dcff60e01b86526004860152602485015260448401525af1938415610742575f9461070e575b505061070461070c9383613828565b9290916139e9565b005b90809450813d831161073b575b61072581836127f3565b8101031261018f5761070461070c9351936106f5565b503d61071b565b6040513d5f823e3d90fd5b8092508491943d8311610776575b61076581836127f3565b8101031261018f575186925f6106b3565b503d61075b565b92506107876144d1565b92610666565b91506107976144d1565b9161065f565b6040516330aeff8f60e21b8152600490fd5b505f548111610605565b3461018f5761014036600319011261018f576107d36126a7565b6080526107de6126bd565b6107e66126d3565b6107ee6126e9565b906084356001600160401b03811161018f5761080e903690600401612883565b60c05260a05260a4356001600160401b03811161018f57610833903690600401612883565b93909160c4356001600160401b03811161018f57610855903690600401612883565b959094610104356001600160401b03811161018f576108789036906004016126ff565b939097610124356001600160401b03811161018f5761089b9036906004016126ff565b608051919290916001600160a01b03168015908115610cfd575b50610ceb576108c48585612f52565b60c051158015610cdf575b610cc15760c0518614801590610cd3575b610cc1579897946108f260c051612ea2565b996108fe60c051612ea2565b996109076144d1565b975f935b60c0518510610b7c5750505050509861093961093161094e936109589a9b9c369161282f565b60e43561431f565b956109476080518888612fcd565b369161282f565b9460805133613004565b90815f52600660205260405f20925f5b8251811015610b71576109808160c05160a051612ef5565b9061098b8385612ee1565b516109a86109998588612ee1565b5192604051946109478661278e565b835260208301526040820152855490600160401b821015610b495760018201808855821015610b5d57865f5260205f209080518051906001600160401b038211610b4957610a0a826109ff60038802870154612911565b600388028701612949565b602090601f8311600114610ad057600293610a46846001999897956003956040955f92610ac5575b50508160011b915f199060031b1c19161790565b8387028501555b6020810151888488028601015501519302010155610a7530610a6f8386612ee1565b51614576565b610a8333610a6f8386612ee1565b610a93608051610a6f8386612ee1565b610aa130610a6f8387612ee1565b610aaf33610a6f8387612ee1565b610abf608051610a6f8387612ee1565b01610968565b015190508f80610a32565b906003860285015f5260205f20915f5b601f1985168110610b31575093600184600394604094600298849c9b9a98601f19811610610b1a575b505050811b01838702850155610a4d565b01515f1983881b60f8161c191690558e8080610b09565b91926020600181928685015181550194019201610ae0565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52603260045260245ffd5b602084604051908152f35b9091929398610b908a60c05160a051612ef5565b905015610cc1578c610bf58f610bee8d8092610bde8c6102768f61026d8f8f908f918f610bc28b610bce928196612f36565b35610276368a8961282f565b610bd8848b612ee1565b52612f36565b610be88388612ee1565b52612ee1565b5192612ee1565b518115610cb1575b8015610c9f575b602090606460018060a01b035f805160206145cb8339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af1908115610742575f91610c6c575b50610c6190600192613fd0565b99019392919061090b565b90506020813d602011610c97575b81610c87602093836127f3565b8101031261018f57516001610c54565b3d9150610c7a565b506020610caa6144d1565b9050610c04565b9050610cbb6144d1565b90610bfd565b604051630381270360e31b8152600490fd5b5060c0518114156108e0565b50601460c051116108cf565b604051638eb5b89160e01b8152600490fd5b905033148c6108b5565b3461018f57602036600319011261018f5760043580158015610dcd575b610dbb575f81815260036020526040902080546001600160a01b03163303610da957600401805460ff8160481c16610d975769ff000000000000000000191669010000000000000000001790557ff31ed59d0724db0501b17d066183899adfb9024af483fc8e01e9501fb0299b8d5f80a2005b604051635453530160e01b8152600490fd5b6040516371ced2cf60e11b8152600490fd5b60405163948389ab60e01b8152600490fd5b506002548111610d24565b3461018f57602036600319011261018f576004355f526007602052608060405f2060ff81549160026001820154910154906040519384526020840152610e23604084018383166128b3565b60081c1615156060820152f35b3461018f57602036600319011261018f5760043580158015610ed7575b610dbb575f81815260036020526040902080546001600160a01b03163303610da957600401805460ff81168015610eca575b610d975768ffffffffffffffffff19164260081b68ffffffffffffffff00161760011790557f49bbca20753dd3bf9a25c15ef8ce8ecc9b80e636ab73133bb1d6644e778c08235f80a2005b5060ff8160481c16610e7f565b506002548111610e4d565b3461018f57602036600319011261018f5760043580158015610fe4575b6105ac57805f52600160205260405f20600281019060ff825460a01c166007811015610fd0578015159081610fc4575b50610fb257610f3d816141fd565b15610fa057600391610f4e826135c2565b805460ff60a01b191660a184901b17905501805467ffffffffffffffff1916426001600160401b03161790557f292926858ee03494aef770153f99ce489401a0d7b96f9914d1d18f58f6e392d55f80a2005b60405163d0404f8560e01b8152600490fd5b60405163baf3f0f760e01b8152600490fd5b60029150141584610f2f565b634e487b7160e01b5f52602160045260245ffd5b505f548111610eff565b3461018f5761010036600319011261018f576001600160401b0360043581811161018f57611020903690600401612883565b61102b9291926126bd565b916110346126d3565b61103c6126e9565b9060c43583811161018f576110559036906004016126ff565b95909460e43585811161018f576110709036906004016126ff565b82156102bd576110f761108f61108736848661282f565b608435614221565b61109885612ea2565b98818215611257575b5f805160206145cb83398151915254604051635a53accb60e01b815260048101929092528288166024830152600160f81b6044830152909360209185916001600160a01b039091169082905f9082906064820190565b03925af1928315610742575f93611221575b50611169916020918115611211575b5f805160206145cb833981519152546040516367a68c5560e11b815260048101939093529088166024830152600160f81b6044830152909283916001600160a01b03169082905f9082906064820190565b03925af18015610742575f906111dd575b611185915082613fd0565b61118e89612ed4565b5260019081805b6111b7575b5060206102b58c8c8f8d8d8d8d8d6102af6102a78f8f369161282f565b89518110156111d857908282826111cf83958e612ee1565b52019091611195565b61119a565b506020813d602011611209575b816111f7602093836127f3565b8101031261018f57611185905161117a565b3d91506111ea565b905061121b6144d1565b90611118565b9092506020813d60201161124f575b8161123d602093836127f3565b8101031261018f575191611169611109565b3d9150611230565b5060206112626144d1565b90506110a1565b60208060031936011261018f57600435801580156114c5575b6105ac5761128f81613705565b6004810154906112a56005820192835490613775565b60028201549094906001600160a01b039081166114ae573415801561149f575b8015611489575b61079d576001600160401b03633b9aca00340416938615611479575b5f805160206145cb83398151915296828854169260405191631391547f60e01b8352600483015286602483015284826064815f600160f81b988960448401525af1918215610742575f9261144a575b508482978285548c8115611432575b6064925f915416604051998a95869463022f65e760e31b86526004860152602485015260448401525af19283156107425785945f946113f8575b50606492915f91549a54166040519a8b958694637702dcff60e01b86526004860152602485015260448401525af1908115610742575f916113c8575b5061070c9450926139e9565b905084813d83116113f1575b6113de81836127f3565b8101031261018f5761070c9351856113bc565b503d6113d4565b8581969295509392933d831161142b575b61141381836127f3565b8101031261018f579251849390929091906064611380565b503d611409565b90505f6064926114406144d1565b9291509250611346565b9091508481813d8311611472575b61146281836127f3565b8101031261018f57519089611337565b503d611458565b95506114836144d1565b956112e8565b506001600160401b03633b9aca003404116112cc565b50633b9aca00340615156112c5565b50509190503461079d5761070461070c9383613828565b505f548111611282565b3461018f575f36600319011261018f5760205f54604051908152f35b3461018f5760208060031936011261018f576004355f608060405161150f816127a9565b82815282858201526060604082015282606082015201528015801561164b575b611639575f526005815260405f20604051611549816127a9565b60018060a01b038083541682526001938160018501541693818401948552600281019160405192838282549182815201915f52825f2090895f5b82811061162657505050508361159a9103846127f3565b6040850192835263ffffffff92600484600385015416936060880194855201549460808701958652604051978389528160c08a01985116848a015251166040880152519460a0606088015285518091528160e088019601915f5b8281106116135750505050849550511660808401525160a08301520390f35b83518852968101969281019289016115f4565b8354855293850193928101928101611583565b6040516380df553960e01b8152600490fd5b50600454811161152f565b3461018f5760208060031936011261018f5760043580158015611773575b6105ac575f526006815260405f209081549161168f83612e8b565b9261169d60405194856127f3565b80845282840180925f52835f205f915b8383106117305750505050604051918083019381845251809452604083019360408160051b85010192915f955b8287106116e75785850386f35b909192938280600192603f19898203018552875190604080611712606085519080865285019061274d565b938581015186850152015191015296019201960195929190926116da565b6003866001926040999899516117458161278e565b61174e86612998565b81528486015483820152600286015460408201528152019201920191909594956116ad565b505f548111611674565b3461018f575f36600319011261018f57335f52600860205260405f2054801561180457335f5260086020525f60408120555f80808084335af16117be612e5c565b50156117f2576040519081527f7fcf532c15f0a6db0bd6d0e038bea71d30d808c7d98cb3bf7268a95bf5081b6560203392a2005b6040516312171d8360e31b8152600490fd5b604051630686827b60e51b8152600490fd5b3461018f57602036600319011261018f57600435801580156119e3575b610dbb575f81815260036020526040902080546001600160a01b03163303610da95760048101805460ff81161580156119d6575b610fb2576001600160401b03809160081c16611884818587613257565b50600384019182549063ffffffff94858360a01c16936118a48589613662565b90816119c0575b506119ae5768ffffffffffffffffff198154169055806118cc845f986136cf565b1642811115611906575b877fd52f72b7c8b535d7ce1170b11576ccda0a46c1fc1ae9d58a725206bffdb6857e6020898960405191168152a2005b909192939550420391428311611986571690811561199a5704600181018091116119865782168091019180831161198657835463ffffffff60a01b191660a09390931b63ffffffff60a01b16929092179092557fd52f72b7c8b535d7ce1170b11576ccda0a46c1fc1ae9d58a725206bffdb6857e916020819386806118d6565b634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b5f52601260045260245ffd5b6040516370a14b0b60e11b8152600490fd5b9050826119cd868a6136cf565b161115896118ab565b5060ff8160481c16611867565b506002548111611833565b3461018f57602036600319011261018f5760043580158015611abe575b6105ac575f81815260016020526040902080546001600160a01b03163303610da957600281019060ff825460a01c166007811015610fd0578015159081611ab2575b50610fb257600391611a5e826135c2565b805460ff60a01b1916600160a21b17905501805467ffffffffffffffff1916426001600160401b031617905533907f30eb83c3ffb8b57cfe2f8c91f1087f3ea25246899e06c91f2f22fa96b5243c2e5f80a3005b60029150141584611a4d565b505f548111611a0b565b3461018f57606036600319011261018f576001600160401b0360243581811161018f57611af9903690600401612865565b60443591821161018f57611b1461070c923690600401612865565b90600435612a47565b3461018f57602036600319011261018f5760043580158015611be9575b6105ac57805f52600160205260405f2060018060a01b036001820154163303611bd757600281019060ff825460a01c166007811015610fd057610fb257600391611b83826135c2565b805460ff60a01b1916600560a01b17905501805467ffffffffffffffff1916426001600160401b031617905533907fa6c303d24c76a945fccc162ff4ea92baa75fc276409df3ecf0045c60931d4f9c5f80a3005b604051631435e35760e01b8152600490fd5b505f548111611b3a565b3461018f57604036600319011261018f57611c0c6126a7565b611c146126bd565b905f60408051611c238161278e565b828152826020820152015260018060a01b038091165f52600960205260405f2091165f52602052606060405f20604051611c5c8161278e565b815491828252604060026001830154926020850193845201549201918252604051928352516020830152516040820152f35b3461018f575f36600319011261018f576020600454604051908152f35b3461018f57602036600319011261018f5760043580158015611d44575b610dbb57805f52600360205260405f209060048201549060ff8260481c16610d975763ffffffff92611d0f9260ff811615611d335760081c6001600160401b031691613257565b168015611d2157602090604051908152f35b6040516321bf6c6760e21b8152600490fd5b506001600160401b03421691613257565b506002548111611cc8565b3461018f57602036600319011261018f5760043560606101c0604051611d7481612772565b5f81525f60208201525f60408201525f838201525f60808201525f60a08201525f60c08201525f60e08201525f6101008201525f6101208201525f6101408201525f6101608201525f6101808201525f6101a0820152015280158015611fe7575b610dbb575f5260036020526101c060405f20611ed5600760405192611df984612772565b60018060a01b03815416845260018060a01b0360018201541660208501526001600160401b03600282015460018060a01b038116604087015260a01c16606085015260038101546001600160401b03811660808601526001600160401b038160401c1660a086015263ffffffff8160801c1660c086015263ffffffff8160a01c1660e086015260c01c61010085015260ff600482015481811615156101208701526001600160401b038160081c1661014087015260481c161515610160850152600581015461018085015260068101546101a085015201612998565b82820152611fe36040519283926020845260018060a01b03815116602085015260018060a01b03602082015116604085015260018060a01b0360408201511660608501526001600160401b0360608201511660808501526001600160401b0360808201511660a08501526001600160401b0360a08201511660c085015263ffffffff60c08201511660e085015263ffffffff60e0820151166101008501526001600160401b036101008201511661012085015261012081015115156101408501526001600160401b036101408201511661016085015261016081015115156101808501526101808101516101a08501526101a08101518285015201516101e08084015261020083019061274d565b0390f35b506002548111611dd5565b3461018f5761016036600319011261018f5761200c6126a7565b6120146126bd565b9061201d6126d3565b6120256126e9565b906001600160401b03608435166084350361018f5763ffffffff60a4351660a4350361018f576001600160401b0360c4351660c4350361018f57610124356001600160401b03811161018f5761207f9036906004016126ff565b939094610144356001600160401b03811161018f576120a29036906004016126ff565b906001600160a01b038416158015612399575b610ceb576001600160401b03851680158015612388575b612335576084356001600160401b0316158080612378575b61233557159081612347575b506123355761211a6121239161211261210a36868461282f565b60e435614221565b93369161282f565b6101043561431f565b9061212f848383612fcd565b61213a6002546128db565b9586600255865f52600360205260405f20956001600160601b0360a01b943386895416178855600195600189019060018060a01b0389169082541617905560028801918254906001600160401b0360a01b9060a01b169160018060a01b03169063ffffffff60e01b16171790556001600160401b036003870191166001600160401b03198254161781556121d0608435826128e9565b805477ffffffff00000000ffffffffffffffffffffffffffffffff1660a43560801b63ffffffff60801b161760c43560c01b6001600160c01b0319161790556005850155600684015560078301906001600160401b038611610b49576020966122438761223d8554612911565b85612949565b5f91601f88116001146122cd57509580612276926122b997985f926122c25750508160011b915f199060031b1c19161790565b90555b6001600160a01b031633847f86113beb40c1b135440b35bf12774920361cf528da24b4d6a111044f6bc20fd75f80a46001600160401b0342169083613257565b50604051908152f35b013590508980610a32565b91601f198816845f52895f20935f905b82821061231e5750509160019391896122b9999a9410612305575b505050811b019055612279565b01355f19600384901b60f8161c191690558880806122f8565b84840135865594850194928b0192908b01906122dd565b604051631b742d9d60e31b8152600490fd5b90506001600160401b0360843516108015612363575b896120f0565b50426001600160401b0360843516111561235d565b5063ffffffff60a43516156120e4565b506001600160401b038716156120cc565b506001600160a01b03841633146120b5565b3461018f5761010036600319011261018f576123c56126a7565b6123cd6126bd565b906123d66126d3565b926123df6126e9565b936001600160401b039060c43582811161018f576124019036906004016126ff565b95909260e43581811161018f5761241c9036906004016126ff565b6001600160a01b0398888a169791969290918815801561269e575b61268f57509061094761246b6102a761247395946124558f8b612f52565b612463611087368d8461282f565b9a369161282f565b998a89612fcd565b9061247e5f546128db565b96875f55875f5260019460209a868c5260405f209a8b8a896001600160601b0360a01b923384825416178155019182541617905560028c019616958054876001600160401b0360a81b4260a81b169162ffffff60e81b16171790556124f960038c01928542166001600160401b0319855416178455836128e9565b815467ffffffffffffffff60801b191660809190911b67ffffffffffffffff60801b161790556004890186905560068901558151600789019290918211610b49576125488261223d8554612911565b8990601f831160011461262557826125dc98999a936125979593612580935f9261261a5750508160011b915f199060031b1c19161790565b90555b5f60088201556125916144d1565b906143d4565b335f526009875260405f20905f52865260405f20916125b7818454613fd0565b83556125c860028401918254613fd0565b9055810180541561260a575b50339061440c565b33827fbe415709c89792a862793d6d789cb9e9fe4ba952d7859f6ab000348c8857c7cb5f80a4604051908152f35b6126126144d1565b9055856125d4565b015190508d80610a32565b90601f19831691845f528b5f20925f5b8d82821061267b57505092879285926125dc9b9c9d96612597989610612663575b505050811b019055612583565b01515f1960f88460031b161c191690558c8080612656565b838501518655948901949384019301612635565b638eb5b89160e01b8152600490fd5b50338914612437565b600435906001600160a01b038216820361018f57565b602435906001600160a01b038216820361018f57565b604435906001600160401b038216820361018f57565b606435906001600160401b038216820361018f57565b9181601f8401121561018f578235916001600160401b03831161018f576020838186019501011161018f57565b5f5b83811061273d5750505f910152565b818101518382015260200161272e565b906020916127668151809281855285808601910161272c565b601f01601f1916010190565b6101e081019081106001600160401b03821117610b4957604052565b606081019081106001600160401b03821117610b4957604052565b60a081019081106001600160401b03821117610b4957604052565b6101c081019081106001600160401b03821117610b4957604052565b6001600160401b038111610b4957604052565b90601f801991011681019081106001600160401b03821117610b4957604052565b6001600160401b038111610b4957601f01601f191660200190565b92919261283b82612814565b9161284960405193846127f3565b82948184528183011161018f578281602093845f960137010152565b9080601f8301121561018f578160206128809335910161282f565b90565b9181601f8401121561018f578235916001600160401b03831161018f576020808501948460051b01011161018f57565b906007821015610fd05752565b3461018f575f36600319011261018f57602060405160148152f35b5f1981146119865760010190565b9067ffffffffffffffff60401b82549160401b169067ffffffffffffffff60401b1916179055565b90600182811c9216801561293f575b602083101461292b57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691612920565b601f821161295657505050565b5f5260205f20906020601f840160051c8301931061298e575b601f0160051c01905b818110612983575050565b5f8155600101612978565b909150819061296f565b9060405191825f82546129aa81612911565b908184526020946001916001811690815f14612a1857506001146129da575b5050506129d8925003836127f3565b565b5f90815285812095935091905b818310612a005750506129d893508201015f80806129c9565b855488840185015294850194879450918301916129e7565b925050506129d894925060ff191682840152151560051b8201015f80806129c9565b5190811515820361018f57565b805f5260209160078352604091825f2094600286019160ff835460081c16612e4b5784845103612e3a57805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808752855f205415612e2957815f528652845f209085518083898295549384815201905f52895f20925f5b8b828210612e1357505050612ad7925003836127f3565b845192838801938489116119865787018094116119865787612b9188612b7e5f8497612b2b848d81519c81612b178f93519e8f92019e8f8d86019061272c565b8201908a820152038881018d52018b6127f3565b612ba060018060a01b039a8b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970354169551988997889687956378542ead60e01b875260606004880152606487019061444a565b600319938487830301602488015261274d565b9184830301604485015261274d565b03925af1908115612e09575f91612dd4575b5015612dc3577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2848480518101031261018f5784612bf5612bfc92612a3a565b9401612a3a565b61010061ff001984541617835586545f52600192838752855f2094600386016001600160401b0342166001600160401b031982541617905515612d4d5750612c4b828554168489015490613619565b15612d055760028301805460ff60a01b1916600360a01b1790559454908201549394929360099316907f7f9ce29e32d6e96ca9add132c36ef82bb7b6d298de3366936ff9cb96bab90f265f80a301549182612ca557505050565b600590835f52525f206002600382019182549263ffffffff612cc8818616613242565b16809463ffffffff1916179055015414612cdf5750565b7f0c96b1f5661b4896e79751b2668fecc214c82c5de6142bbdfc56423d36f42f835f80a2565b60028301805460ff60a01b1916600160a11b17905594549101549093169291507f8ef01b3a74ad55818a927da2e13918a062261d55f1f4e397b80a760d8610053990505f80a3565b92969450509350546002820191600760ff83161015610fd057825460ff60a01b191660a09290921b60ff60a01b169190911790915583018054938201549093612d9891908416613619565b54915416907fd3a570223e32bc89081ffb6f2b8316327cb325644a3c1a1c945f7fbe2ef103c45f80a3565b855163cf6c44e960e01b8152600490fd5b90508781813d8311612e02575b612deb81836127f3565b8101031261018f57612dfc90612a3a565b5f612bb2565b503d612de1565b87513d5f823e3d90fd5b8554845260019586019588955093019201612ac0565b855163d66ca67560e01b8152600490fd5b845163fdf70a8160e01b8152600490fd5b845163faf8ed4f60e01b8152600490fd5b3d15612e86573d90612e6d82612814565b91612e7b60405193846127f3565b82523d5f602084013e565b606090565b6001600160401b038111610b495760051b60200190565b90612eac82612e8b565b612eb960405191826127f3565b8281528092612eca601f1991612e8b565b0190602036910137565b805115610b5d5760200190565b8051821015610b5d5760209160051b010190565b9190811015610b5d5760051b81013590601e198136030182121561018f5701908135916001600160401b03831161018f57602001823603811361018f579190565b9190811015610b5d5760051b0190565b6007821015610fd05752565b6001600160401b038091169182151580612fc3575b612fb157168015159182612f8f575b5050612f7e57565b60405162d36c8560e81b8152600490fd5b90915042821191821592612fa7575b50505f80612f76565b1090505f80612f9e565b60405163a1ff8dcd60e01b8152600490fd5b5042831115612f67565b90612fff836129d89493612fe13082614576565b612feb3085614576565b612ff53382614576565b612fff3385614576565b614576565b92959796909491936130165f546128db565b94855f558599865f5260019360209285845260405f209260018060a01b039b8c8a169c8d9c6001600160601b0360a01b9e8f885416178755818a880191169e8f90825416179055600286019316968354936001600160401b0394896001600160401b0360a81b4260a81b169162ffffff60e81b16171790556130ae60038701928542166001600160401b0319855416178455836128e9565b815467ffffffffffffffff60801b191660809190911b67ffffffffffffffff60801b161790556004840188905560068401558151600784019290918211610b49576130fd8261223d8554612911565b8490601f83116001146131bb578261317a9a9998979695936131389593612580935f926131b05750508160011b915f199060031b1c19161790565b875f526009815260405f20915f525260405f2091613157818454613fd0565b835561316860028401918254613fd0565b905581018054156131a0575b5061440c565b7fbe415709c89792a862793d6d789cb9e9fe4ba952d7859f6ab000348c8857c7cb5f80a4565b6131a86144d1565b90555f613174565b015190505f80610a32565b90601f19831691845f52865f20925f5b8181106132125750928998979694919261317a9c9b9a93836131389896106131fa57505050811b019055612583565b01515f1960f88460031b161c191690555f8080612656565b828401518555938a01939288019288016131cb565b9190916001600160401b038080941691160191821161198657565b63ffffffff8091169081146119865760010190565b92915f5b600c63ffffffff821610806135a5575b1561359f57600383015461328863ffffffff8260a01c16856136cf565b906001600160401b0384166001600160401b038316116135975760c01c806135895750505f5b60018060a01b038085541681600187015416916002870154166005870154906006880154946132df60078a01612998565b956132ea5f546128db565b96875f55875f52600160205260405f20926001600160601b0360a01b8781865416178555886001860191825416179055600284016001600160401b0360a81b4260a81b168662ffffff60e81b8354161717905561336460038501916001600160401b0342166001600160401b0319845416178355826128e9565b6001600160401b0360801b198154169055600491858385015560068401558051916001600160401b0383116135765750908c916133b1826133a86007870154612911565b60078701612949565b602090601f83116001146134e7579461340c8895613452956133f9866134e29f9e9b96976134b69d986134dd9f9c5f926131b05750508160011b915f199060031b1c19161790565b60078301555b60088201556125916144d1565b825f52600960205260405f20905f5260205260405f209061342e818354613fd0565b825561343f60028301918254613fd0565b9055600181018054156131a0575061440c565b827fbe415709c89792a862793d6d789cb9e9fe4ba952d7859f6ab000348c8857c7cb5f80a463ffffffff600388015460a01c1690897fb9705b5eac9e63bfaf1171d0e965e0c34a6076b318c5364cdb5f006a452c2c266020604051858152a3613242565b60038601805463ffffffff60a01b191660a09290921b63ffffffff60a01b16919091179055565b613242565b61325b565b90600785015f5260205f20915f5b601f198516811061355357508895613452956001866134e29f9e9b966134dd9e9b9661340c966134b69f9a601f1981161061353b575b505050811b0160078301556133ff565b01515f1960f88460031b161c191690555f808061352b565b928294955060016020929391839285015181550194019201908f949392916134f5565b604190634e487b7160e01b5f525260245ffd5b61359291613227565b6132ae565b505093505050565b93505050565b506135bd63ffffffff600385015460a01c1684613662565b61326b565b6129d89060018060a01b03808254165f52600960205260405f20816002840154165f5260205260405f20916002830161360f81546136096004850154600586015490613775565b90613775565b905554169061440c565b811561365e576001600160a01b03165f8080808585617530f161363a612e5c565b5015613644575050565b5f52600860205260405f2080549182018092116119865755565b5050565b90600382015463ffffffff808260801c1680151591826136c2575b50506136bb576001600160401b03809160401c169182159384156136a3575b5050505090565b6136af929394506136cf565b1611155f80808061369c565b5050505f90565b8416101590505f8061367d565b906001600160401b039063ffffffff82600381600287015460a01c16950154169116029081169081036119865761288091613227565b5f52600160205260405f209060ff600283015460a01c166007811015610fd0578015159081613769575b50610fb25760018201546001600160a01b03163303611bd757613751826141fd565b61375757565b604051637f780e6960e11b8152600490fd5b6002915014155f61372f565b908115613818575b8015613806575b602090606460018060a01b035f805160206145cb8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610742575f916137d7575090565b90506020813d6020116137fe575b816137f2602093836127f3565b8101031261018f575190565b3d91506137e5565b5060206138116144d1565b9050613784565b90506138226144d1565b9061377d565b919060028301908154915f60018060a01b0391825f805160206145eb8339815191525416803b1561018f5760408051630f8e573b60e21b8152600481018790529685166001600160a01b0316602488015295905f9082908183816044810103925af180156139df576139cc575b50918082935416818854169486519563eb3155b560e01b8752336004880152602487015260448601528460648160209586945af19384156139c257839461398f575b508183918590861561397b575b6064905f805160206145cb833981519152541691885196879384926336024b2f60e21b845260048401525f6024840152600160f81b60448401525af194851561397157509361393e575b5050600561288092940154613fd0565b90809350813d831161396a575b61395581836127f3565b8101031261018f57600561288092519261392e565b503d61394b565b51903d90823e3d90fd5b905060646139876144d1565b9190506138e4565b9093508181813d83116139bb575b6139a781836127f3565b810103126139b7575192816138d7565b8280fd5b503d61399d565b85513d85823e3d90fd5b6139d79192506127e0565b5f9082613895565b86513d5f823e3d90fd5b9092919260028101928354915f9460405193608085018581106001600160401b03821117610b4957613a319160ff9160405287875234602088015260a01c1660408601612f46565b5f6060850152613aa4613a48600584015485613775565b60018060a01b038454165f52600960205260405f2060018060a01b038454165f5260205260405f209060018201613a80828254613fd0565b9055613a9160028301918254613775565b905583546001600160a01b03169061440c565b613aae83836143d4565b805460ff60a01b1916600160a01b17905560038101805467ffffffffffffffff1916426001600160401b031617905560048101548215613fc0575b8015613fae575b602090606460018060a01b035f805160206145cb8339815191525416945f604051968794859363f77f3f1d60e01b8552600485015260248401528160448401525af1918215610742575f92613f79575b506009015480613e81575b5060405194613b598661278e565b600286526040366020880137613b6e86612ed4565b52845160011015610b5d5760408501527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00545f805160206145eb833981519152549094906001600160a01b0316803b1561018f575f6040518092637d6e912360e11b825260206004830152818381613be9602482018961444a565b03925af1801561074257613e6e575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b15613e6a57846040518092633263b83b60e01b825288600483015260606024830152818381613c58606482018961444a565b6316c435cb60e11b604483015203925af18015613e5f57908591613e47575b508590527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020526040842054613e35578484527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01602052604084208151916001600160401b038311613e2157600160401b8311613e21578154838355808410613dfa575b5060200190855260208520855b838110613de65750505050613d3e7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00546128db565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00558383526007602052600260408420825181556020830151600182015501906040810151906007821015613dd25760ff61ff0060608554930151151560081b1692169061ffff1916171790557ff289944e856f06195d6b760ef1fc340064890b862739d286cfbc3b59c76ba931339280a4565b634e487b7160e01b85526021600452602485fd5b600190602084519401938184015501613d09565b82875260208720908482015b8183018110613e16575050613cfc565b5f8155600101613e06565b634e487b7160e01b86526041600452602486fd5b604051633f06d22b60e01b8152600490fd5b613e50906127e0565b613e5b57835f613c77565b8380fd5b6040513d87823e3d90fd5b8480fd5b613e799194506127e0565b5f925f613bf8565b5f5260056020525f604081206004810154602060018060a01b035f805160206145cb83398151915254166044604051809681936307227b9160e21b8352896004840152600460248401525af1928315610742575f93613f43575b50613efa83613f0792613f1d95918115613f33575b15613f235761447d565b8060048401553090614576565b600481015490546001600160a01b031690614576565b5f613b4b565b9050613f2d614524565b9061447d565b9050613f3d614524565b90613ef0565b92506020833d602011613f71575b81613f5e602093836127f3565b8101031261018f57915191613efa613edb565b3d9150613f51565b9091506020813d602011613fa6575b81613f95602093836127f3565b8101031261018f5751906009613b40565b3d9150613f88565b506020613fb96144d1565b9050613af0565b9150613fca6144d1565b91613ae9565b90612880918015613feb575b8161447d579050613f2d6144d1565b50613ff46144d1565b613fdc565b356001600160a01b038116810361018f5790565b9295919897909694936002881080156141f3575b6102bd5761402f8188612f52565b61403a6004546128db565b60048190555f81815260056020526040902080546001600160a01b0319908116331782556001820180549091166001600160a01b038e16179055909a8b98919661409f614085614524565b61409760048b01918083553090614576565b339054614576565b5f5b8b8082106140e25750505050505050505050506040519182527f2744db0bb8298097ff47d5ab9e462f61612c5b4672fed42df0365d530de838ac60203393a3565b6140f0826140f5928b612f36565b613ff9565b6001600160a01b0381161580156141e1575b610ceb578a90888888888887895f5b82811061419e57509761413a888861413461414d956141549d612ee1565b51612fcd565b6141448a8c612ee1565b5195369161282f565b9533613004565b90815f5260016020528b600960405f20015560028a015491600160401b831015610b4957600183018060028d0155831015610b5d5760019260028c015f5260205f200155016140a1565b979850505050505050508d8a6141c86140f08460018060a01b0387169460018060a01b0394612f36565b1614610ceb5760010190888888888f9587898b92614116565b506001600160a01b0381163314614107565b5060148811614021565b6003015460801c6001600160401b0316801515908161421a575090565b9050421190565b5f805160206145cb8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f90829061427990608483019061274d565b6005606483015203925af1908115610742575f916142ed575b5080925f805160206145eb8339815191525416803b1561018f57604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af18015610742576142e45750565b6129d8906127e0565b90506020813d602011614317575b81614308602093836127f3565b8101031261018f57515f614292565b3d91506142fb565b5f805160206145cb8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f90829061437790608483019061274d565b6008606483015203925af1908115610742575f916142ed575080925f805160206145eb8339815191525416803b1561018f57604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481016142d3565b906129d8918160058201556143e93083614576565b80546001600160a01b039160019161440390841685614576565b01541690614576565b906129d89161441d81543090614576565b6144448260018301614430308254614576565b614444826002860195614444308854614576565b54614576565b9081518082526020808093019301915f5b828110614469575050505090565b83518552938101939281019260010161445b565b90602090606460018060a01b035f805160206145cb8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610742575f916137d7575090565b5f805160206145cb83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610742575f916137d7575090565b5f805160206145cb83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610742575f916137d7575090565b5f805160206145eb833981519152546001600160a01b031691823b1561018f57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481016142d356fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type PaymentRequestLedgerConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PaymentRequestLedgerConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class PaymentRequestLedger__factory extends ContractFactory {
+  constructor(...args: PaymentRequestLedgerConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      PaymentRequestLedger & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): PaymentRequestLedger__factory {
+    return super.connect(runner) as PaymentRequestLedger__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PaymentRequestLedgerInterface {
+    return new Interface(_abi) as PaymentRequestLedgerInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PaymentRequestLedger {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as PaymentRequestLedger;
+  }
+}
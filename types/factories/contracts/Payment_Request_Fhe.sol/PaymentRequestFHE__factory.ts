@@ -0,0 +1,657 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  PaymentRequestFHE,
+  PaymentRequestFHEInterface,
+} from "../../../contracts/Payment_Request_Fhe.sol/PaymentRequestFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "note",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedNote",
+        type: "bytes32",
+      },
+    ],
+    name: "PaymentRequestSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "encryptedNotes",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasSubmitted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_provider",
+        type: "address",
+      },
+    ],
+    name: "requestNoteDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "_encryptedNote",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitPaymentRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346101ac575f60606100146101b0565b828152826020820152826040820152015261002d6101b0565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f52600160205260405f2060ff199060018282541617905560405190337fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2603c6003555f600655600754166007556112cc90816101e48239f35b5f80fd5b60405190608082016001600160401b038111838210176101cf57604052565b634e487b7160e01b5f52604160045260245ffdfe60806040818152600480361015610014575f80fd5b5f925f3560e01c90816304c7a7cd14610fa6575080630787bc2714610f6a5780630a763da114610f4c578063124bd04b14610c0c57806316c38b3c14610b695780631f96c1a814610ae4578063433044fa146107fd57806346e2577a146107905780634fc3f41a146107285780635a94a079146106f05780635c975abb146106cc5780638a355a57146106545780638da5cb5b1461062c578063a4365476146105f7578063a57d3806146105b4578063acd7510314610590578063b65e89411461053a578063b8221bc41461051b578063c235a255146104dd578063da1f12ab146104c05763eca98dc514610107575f80fd5b346104bc57816003193601126104bc57803591610122611058565b60ff600254166104ae5733855260209060058252610146838720546003549061117b565b421061049f57848652600982528286209360018060a01b0380921694855f52835260ff845f205416156104915785875260088352838720855f528352835f205484519561019287611096565b6001875284870191853684376101a78861115a565b526101b1876111bb565b917f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf008054988b877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561047957818b518092637d6e912360e11b82528c8b830152818381610226602482018a611188565b03925af1801561046f5761047d575b50877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561047957818c8c51928391633263b83b60e01b83528b8301526060602483015281838161028d606482018a611188565b63124bd04b60e01b604483015203925af1801561046f57610457575b508a90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808952898d2054610447578a8d528852888c2090519067ffffffffffffffff9384831161043457680100000000000000008311610434578d838b845492828655838310610406575b50505050908d52888d208d5b8381106103f457505050506103378154611138565b905586519360808501918211858310176103e1575091600595949391600393885289835285830190815287830191825260608301948b8652898c52600a8752888c2093518455600184019151166bffffffffffffffffffffffff60a01b825416179055516002820155019051151560ff801983541691161790553386525242908420557f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c8380a380f35b604190634e487b7160e01b5f525260245ffd5b825182820155918a0191600101610322565b80925085915052848c822092830192015b82811061042757508b8591610316565b6001918155018f90610417565b634e487b7160e01b8e526041885260248efd5b8951633f06d22b60e01b81528790fd5b6104609061106e565b61046b578b5f6102a9565b8b80fd5b8b513d84823e3d90fd5b5080fd5b6104869061106e565b61046b578b5f610235565b83516321c4e35760e21b8152fd5b50505163aa9a98df60e01b8152fd5b50516313d0ff5960e31b8152fd5b8280fd5b505034610479578160031936011261047957602090516127118152f35b50346104bc57816003193601126104bc57816020936104fa611058565b9235815260088552209060018060a01b03165f528252805f20549051908152f35b5050346104795781600319360112610479576020906003549051908152f35b50346104bc5760203660031901126104bc576080928291358152600a602052209081549160018060a01b036001820154169160ff6003600284015493015416928151948552602085015283015215156060820152f35b50503461047957816003193601126104795760209060ff6007541690519015158152f35b50346104bc57816003193601126104bc57816020936105d1611058565b9235815260098552209060018060a01b03165f52825260ff815f20541690519015158152f35b50346104bc5760203660031901126104bc5760209282916001600160a01b0361061e611042565b168252845220549051908152f35b505034610479578160031936011261047957905490516001600160a01b039091168152602090f35b50346104bc5760203660031901126104bc5761066e611042565b83546001600160a01b039290831633036106be5750168083526001602052908220805460ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d98280a280f35b83516330cd747160e01b8152fd5b50503461047957816003193601126104795760209060ff6002541690519015158152f35b5050346104795760203660031901126104795760209181906001600160a01b03610718611042565b1681526005845220549051908152f35b5090346104bc5760203660031901126104bc578254823592906001600160a01b031633036107825750816020917ff4f81c8df394c367119ef9185e49924fbc14f33668d8c0fe5a767cc822858ae29360035551908152a180f35b90516330cd747160e01b8152fd5b50346104bc5760203660031901126104bc576107aa611042565b83546001600160a01b039290831633036106be5750169081835260016020528220600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a8280a280f35b50919034610a62576060366003190112610a625782359067ffffffffffffffff90604435828111610a625736602382011215610a625780860135928311610a62573660248483010111610a6257335f526020926001845260ff835f20541615610ad45760ff60025416610ac457335f52868452610880835f20546003549061117b565b4210610ab4576006548503610aa45760ff6007541615610aa457845f5260098452825f20335f52845260ff835f205416610a95575f9596916108c69160243692016110d4565b8361092760018060a01b0392837f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416908651998a8094819363196d0b9b60e01b83526024358a840152336024840152608060448401526084830190611213565b88606483015203925af1958615610a58575f96610a66575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610a62578251630f8e573b60e21b815282810187815233602082015290915f9183919082908490829060400103925af18015610a5857610a1f575b50907fc0a41fca7e7ec9b11135cf2de93bba1e14a2697ccfe9f86149d4d39e90c7d7fd92916109d03087611238565b6109da3387611238565b3387528252428187205583865260088252808620335f52825284815f205583865260098252808620335f528252805f20600160ff19825416179055519384523393a380f35b7fc0a41fca7e7ec9b11135cf2de93bba1e14a2697ccfe9f86149d4d39e90c7d7fd9392919650610a4e9061106e565b5f959091926109a1565b83513d5f823e3d90fd5b5f80fd5b9095508381813d8311610a8e575b610a7e81836110b2565b81010312610a625751945f61093f565b503d610a74565b825162dc149f60e41b81528790fd5b82516333b094a160e01b81528790fd5b825163aa9a98df60e01b81528790fd5b82516313d0ff5960e31b81528790fd5b8251631a40715960e11b81528790fd5b5034610a62575f366003190112610a62575f546001600160a01b031633036107825760ff60025416610b5b576007549160ff831615610b4e5760ff1983166007556006547f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a2005b516333b094a160e01b8152fd5b90516313d0ff5960e31b8152fd5b509034610a62576020366003190112610a625781359182151591828403610a62575f546001600160a01b03163303610bff57505060ff8019600254169116176002555f14610bd857337f81990fd9a5c552b8e3677917d8a03c07678f0d2cb68f88b634aca2022e9bd19f5f80a2005b337f5b65b0c1363b3003db9bcc5e1fd8805a6d6bf5bf6dc9d3431ee4494cd7d117665f80a2005b516330cd747160e01b8152fd5b509034610a625760031991606036840112610a625780359167ffffffffffffffff602435818111610a6257610c44903690850161111a565b90604435908111610a6257610c5c903690850161111a565b92845f52602092600a8452805f209160018060a01b039560019887600186015416998a15610f1c57600386019a60ff8c5416610f3c5788885103610f2c578551610cd691610ca982611096565b600182528a368184013788545f5260088b52875f20905f528a52865f2054610cd08261115a565b526111bb565b600287015403610f1c57895f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808952855f205415610f0c578a5f528852845f2090855190819283918b82549485815201915f528b5f20905f5b8d868210610ef65750505050610d49925003826110b2565b865198898901998a8a11610ee3578601809a11610ed0579088929186519087828b519d878d019e8f818a8501610d7e926111f2565b8201908882015203868101845201610d9690836110b2565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416918751958694859384936378542ead60e01b85528a85016060905260648501610de191611188565b82858203016024860152610df491611213565b90838203016044840152610e0791611213565b03915a905f91f1908115610a58575f91610e9a575b5015610e8c575083905192867f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2805181010312610a62577fa1cb19133026dd70867e1fbd4d02beda96e459f622fbb0326ec7dca1e35a09f9935195600160ff1982541617905554948152a3005b905163cf6c44e960e01b8152fd5b90508581813d8311610ec9575b610eb181836110b2565b81010312610a6257518015158103610a625789610e1c565b503d610ea7565b601185634e487b7160e01b5f525260245ffd5b601186634e487b7160e01b5f525260245ffd5b8354855287955090930192918101918101610d31565b855163d66ca67560e01b81528590fd5b845163baf3f0f760e01b81528490fd5b855163fdf70a8160e01b81528590fd5b855163faf8ed4f60e01b81528590fd5b8234610a62575f366003190112610a62576020906006549051908152f35b8234610a62576020366003190112610a62576020906001600160a01b03610f8f611042565b165f526001825260ff815f20541690519015158152f35b83915034610a62575f366003190112610a62575f546001600160a01b03163303611034575060ff6002541661102757600160075460ff8116611014575b60ff1916176007556006547fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2005b61101f600654611138565b600655610fe3565b516313d0ff5960e31b8152fd5b6330cd747160e01b81529050fd5b600435906001600160a01b0382168203610a6257565b602435906001600160a01b0382168203610a6257565b67ffffffffffffffff811161108257604052565b634e487b7160e01b5f52604160045260245ffd5b6040810190811067ffffffffffffffff82111761108257604052565b90601f8019910116810190811067ffffffffffffffff82111761108257604052565b92919267ffffffffffffffff821161108257604051916110fe601f8201601f1916602001846110b2565b829481845281830111610a62578281602093845f960137010152565b9080601f83011215610a6257816020611135933591016110d4565b90565b5f1981146111465760010190565b634e487b7160e01b5f52601160045260245ffd5b8051156111675760200190565b634e487b7160e01b5f52603260045260245ffd5b9190820180921161114657565b9081518082526020808093019301915f5b8281106111a7575050505090565b835185529381019392810192600101611199565b6040516111ec816111d86020820194604086526060830190611188565b30604083015203601f1981018352826110b2565b51902090565b5f5b8381106112035750505f910152565b81810151838201526020016111f4565b9060209161122c815180928185528580860191016111f2565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b15610a6257604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156112b4576112a95750565b6112b29061106e565b565b6040513d5f823e3d90fdfea164736f6c6343000818000a";
+
+type PaymentRequestFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PaymentRequestFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class PaymentRequestFHE__factory extends ContractFactory {
+  constructor(...args: PaymentRequestFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      PaymentRequestFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): PaymentRequestFHE__factory {
+    return super.connect(runner) as PaymentRequestFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PaymentRequestFHEInterface {
+    return new Interface(_abi) as PaymentRequestFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PaymentRequestFHE {
+    return new Contract(address, _abi, runner) as unknown as PaymentRequestFHE;
+  }
+}
@@ -1,4 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as paymentRequestFheSol from "./Payment_Request_Fhe.sol";
+export { ConfidentialToken__factory } from "./ConfidentialToken__factory";
+export { IConfidentialToken__factory } from "./IConfidentialToken__factory";
+export { Multicall3__factory } from "./Multicall3__factory";
+export { PaymentRequestLedger__factory } from "./PaymentRequestLedger__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
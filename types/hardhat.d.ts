@@ -45,6 +45,26 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
+    getContractFactory(
+      name: "ConfidentialToken",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ConfidentialToken__factory>;
+    getContractFactory(
+      name: "IConfidentialToken",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IConfidentialToken__factory>;
+    getContractFactory(
+      name: "Multicall3",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.Multicall3__factory>;
+    getContractFactory(
+      name: "PaymentRequestFHE",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.PaymentRequestFHE__factory>;
+    getContractFactory(
+      name: "PaymentRequestLedger",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.PaymentRequestLedger__factory>;
     getContractFactory(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -90,6 +110,31 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
+    getContractAt(
+      name: "ConfidentialToken",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ConfidentialToken>;
+    getContractAt(
+      name: "IConfidentialToken",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IConfidentialToken>;
+    getContractAt(
+      name: "Multicall3",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.Multicall3>;
+    getContractAt(
+      name: "PaymentRequestFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.PaymentRequestFHE>;
+    getContractAt(
+      name: "PaymentRequestLedger",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.PaymentRequestLedger>;
     getContractAt(
       name: "UniversalAdapter",
       address: string | ethers.Addressable,
@@ -128,6 +173,26 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "ConfidentialToken",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ConfidentialToken>;
+    deployContract(
+      name: "IConfidentialToken",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IConfidentialToken>;
+    deployContract(
+      name: "Multicall3",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.Multicall3>;
+    deployContract(
+      name: "PaymentRequestFHE",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PaymentRequestFHE>;
+    deployContract(
+      name: "PaymentRequestLedger",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PaymentRequestLedger>;
     deployContract(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -173,6 +238,31 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "ConfidentialToken",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ConfidentialToken>;
+    deployContract(
+      name: "IConfidentialToken",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IConfidentialToken>;
+    deployContract(
+      name: "Multicall3",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.Multicall3>;
+    deployContract(
+      name: "PaymentRequestFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PaymentRequestFHE>;
+    deployContract(
+      name: "PaymentRequestLedger",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PaymentRequestLedger>;
     deployContract(
       name: "UniversalAdapter",
       args: any[],
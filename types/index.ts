@@ -22,5 +22,15 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { ConfidentialToken } from "./contracts/ConfidentialToken";
+export { ConfidentialToken__factory } from "./factories/contracts/ConfidentialToken__factory";
+export type { IConfidentialToken } from "./contracts/IConfidentialToken";
+export { IConfidentialToken__factory } from "./factories/contracts/IConfidentialToken__factory";
+export type { Multicall3 } from "./contracts/Multicall3";
+export { Multicall3__factory } from "./factories/contracts/Multicall3__factory";
+export type { PaymentRequestFHE } from "./contracts/Payment_Request_Fhe.sol/PaymentRequestFHE";
+export { PaymentRequestFHE__factory } from "./factories/contracts/Payment_Request_Fhe.sol/PaymentRequestFHE__factory";
+export type { PaymentRequestLedger } from "./contracts/PaymentRequestLedger";
+export { PaymentRequestLedger__factory } from "./factories/contracts/PaymentRequestLedger__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";